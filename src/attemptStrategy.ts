@@ -0,0 +1,189 @@
+/**
+ * Why the previous attempt of a job failed:
+ *   agentFail — the agent wrote a FAIL status file
+ *   timeout   — no status file within perJobTimeoutMs, or the agent stayed
+ *               idle after a stall nudge (see stallIdleMs)
+ *   error     — the runner itself failed (prompt write, chat command, ...)
+ *   verification — the agent wrote PASS but the spec failed when the
+ *                  runner ran it (see verifyOnPass)
+ *   flaky     — the spec passed, but not reliably over stabilityRuns
+ *   conflict  — the branch didn't rebase/merge onto the latest main
+ */
+export const FAILURE_CATEGORIES = ['agentFail', 'timeout', 'error', 'verification', 'flaky', 'conflict'] as const;
+export type FailureCategory = (typeof FAILURE_CATEGORIES)[number];
+
+/** The previous attempt's outcome, carried into the next attempt's prompt. */
+export interface AttemptFailure {
+    attempt: number;
+    category: FailureCategory;
+    message?: string;
+    failingTests?: string[]; // from the verification run, when it failed
+    unstableTests?: string[]; // from the stability check, when it found flaky tests
+    conflictingFiles?: string[]; // changed on main since the job's branch was cut
+}
+
+/**
+ * One entry of `agentLoopRunner.attemptStrategy`. Stages are checked in
+ * order and the first one whose conditions all match picks the agent and
+ * retry template for the attempt.
+ */
+export interface AttemptStage {
+    name: string;
+    // Attempt numbers this stage applies to, e.g. "1", "2-", "2-3", "1,3".
+    // Omitted = any attempt.
+    attempts?: string;
+    // Only match when the previous attempt failed for one of these reasons.
+    // Never matches attempt 1 (there is no previous failure).
+    failureCategories?: FailureCategory[];
+    agent?: string;
+    // Inline retry template, or a workspace-relative .md file holding one
+    retryTemplate?: string;
+    retryTemplateFile?: string;
+}
+
+export interface ResolvedAttempt {
+    stage?: AttemptStage;
+    agent: string;
+    // Inline template text, or undefined to use retryTemplateFile / the default
+    retryTemplate?: string;
+    retryTemplateFile?: string;
+}
+
+/**
+ * Context block appended to retry prompts. A line whose {{tokens}} are all
+ * empty is dropped, so e.g. the spec line only appears once a spec exists.
+ */
+export const DEFAULT_RETRY_TEMPLATE = `---
+## Previous Attempt Context (attempt {{PreviousAttempt}} of {{MaxLoopsPerUrl}})
+
+**Failure reason**: {{FailureMessage}}
+**Status reason**: {{StatusReason}}
+**Failing tests** (when the runner ran your spec): {{FailingTests}}
+**Unstable tests** (passed only some of the runner's repeated runs — make them deterministic): {{UnstableTests}}
+**Conflicting files** (changed on main since your attempt — rework your changes against their current version): {{ConflictingFiles}}
+**Progress file** (may contain useful locators/context): {{ProgressFile}}
+**Existing spec file** (check before regenerating): {{SpecFile}}
+**Requirements file**: {{RequirementsFile}}
+
+Review the artifacts above before starting from scratch. Fix the failing spec if it exists rather than regenerating.
+`;
+
+/**
+ * Sent into a stalled job's chat session (stallNudgePrompt). Same line
+ * dropping as the retry template.
+ */
+export const DEFAULT_STALL_NUDGE = `You haven't changed the progress, spec or requirements files for {{IdleTime}}.
+- If you are still working, carry on and update the progress file: {{ProgressFile}}
+- If you are blocked, write why in the progress file, then write AGENT_STATUS: FAIL to {{StatusFile}}
+- If you are done, write AGENT_STATUS: PASS to {{StatusFile}}
+`;
+
+/**
+ * Validates the raw `attemptStrategy` setting. Invalid stages are dropped
+ * with an error so one typo doesn't silently reroute every attempt.
+ */
+export function parseAttemptStrategy(raw: unknown): { stages: AttemptStage[]; errors: string[] } {
+    const stages: AttemptStage[] = [];
+    const errors: string[] = [];
+    if (raw === undefined || raw === null) return { stages, errors };
+    if (!Array.isArray(raw)) {
+        errors.push('attemptStrategy must be a list of stages.');
+        return { stages, errors };
+    }
+
+    raw.forEach((entry, i) => {
+        const label = `attemptStrategy[${i}]`;
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            errors.push(`${label}: expected an object.`);
+            return;
+        }
+        const e = entry as Record<string, unknown>;
+        const stage: AttemptStage = { name: typeof e.name === 'string' && e.name.trim() ? e.name.trim() : `stage ${i + 1}` };
+
+        if (e.attempts !== undefined) {
+            const attempts = String(e.attempts).trim();
+            if (!parseAttemptRanges(attempts)) {
+                errors.push(`${label}: attempts "${attempts}" is not like "1", "2-", "2-3" or "1,3".`);
+                return;
+            }
+            stage.attempts = attempts;
+        }
+
+        if (e.failureCategories !== undefined) {
+            const list = Array.isArray(e.failureCategories) ? e.failureCategories.map(String) : [String(e.failureCategories)];
+            const unknown = list.filter(c => !(FAILURE_CATEGORIES as readonly string[]).includes(c));
+            if (unknown.length) {
+                errors.push(`${label}: unknown failure categories ${unknown.join(', ')} (expected ${FAILURE_CATEGORIES.join(', ')}).`);
+                return;
+            }
+            stage.failureCategories = list as FailureCategory[];
+        }
+
+        for (const key of ['agent', 'retryTemplate', 'retryTemplateFile'] as const) {
+            const v = e[key];
+            if (v === undefined || v === '') continue;
+            if (typeof v !== 'string') {
+                errors.push(`${label}: ${key} must be a string.`);
+                return;
+            }
+            stage[key] = v;
+        }
+
+        stages.push(stage);
+    });
+
+    return { stages, errors };
+}
+
+/**
+ * Picks the stage for an attempt. Falls back to `defaultAgent` and the
+ * default retry template when no stage matches or the stage leaves them out.
+ */
+export function resolveAttempt(stages: AttemptStage[], attempt: number, previous: AttemptFailure | undefined, defaultAgent: string): ResolvedAttempt {
+    const stage = stages.find(s => stageMatches(s, attempt, previous));
+    return {
+        stage,
+        agent: stage?.agent || defaultAgent,
+        retryTemplate: stage?.retryTemplate,
+        retryTemplateFile: stage?.retryTemplate ? undefined : stage?.retryTemplateFile,
+    };
+}
+
+function stageMatches(stage: AttemptStage, attempt: number, previous: AttemptFailure | undefined): boolean {
+    if (stage.attempts) {
+        const ranges = parseAttemptRanges(stage.attempts);
+        if (!ranges || !ranges.some(([from, to]) => attempt >= from && attempt <= to)) return false;
+    }
+    if (stage.failureCategories) {
+        if (!previous || !stage.failureCategories.includes(previous.category)) return false;
+    }
+    return true;
+}
+
+/** "2-" → [[2, ∞]], "1,3-4" → [[1, 1], [3, 4]]. */
+function parseAttemptRanges(spec: string): [number, number][] | undefined {
+    const ranges: [number, number][] = [];
+    for (const part of spec.split(',')) {
+        const m = part.trim().match(/^(\d+)\s*(?:(-)\s*(\d+)?)?$/);
+        if (!m) return undefined;
+        const from = Number(m[1]);
+        const to = m[2] ? (m[3] ? Number(m[3]) : Infinity) : from;
+        if (from < 1 || to < from) return undefined;
+        ranges.push([from, to]);
+    }
+    return ranges.length ? ranges : undefined;
+}
+
+/**
+ * Fills a retry template. Known tokens with empty values remove their whole
+ * line; unknown tokens are left as-is, like in the prompt body.
+ */
+export function renderRetryTemplate(template: string, vars: Record<string, string>): string {
+    const lines: string[] = [];
+    for (const line of template.split(/\r?\n/)) {
+        const tokens = [...line.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]);
+        if (tokens.length && tokens.every(t => t in vars && !vars[t])) continue;
+        lines.push(line.replace(/\{\{(\w+)\}\}/g, (m, t: string) => (t in vars ? vars[t] : m)));
+    }
+    return lines.join('\n');
+}
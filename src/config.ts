@@ -0,0 +1,115 @@
+import { DEFAULT_STALL_NUDGE } from './attemptStrategy';
+import { ExecutorKind } from './executors';
+import { DEFAULT_BRANCH_TEMPLATE, DEFAULT_COMMIT_MESSAGE_TEMPLATE, DEFAULT_PR_DESCRIPTION_TEMPLATE } from './gitTemplates';
+import { clampInt } from './jobModel';
+import { PreflightMode } from './preflight';
+import { PrProviderKind } from './prProviders';
+import { CleanupPolicy } from './workspaceSnapshot';
+
+/** Reads one `agentLoopRunner.*` setting, or the default when it is unset. */
+export type SettingReader = <T>(key: string, defaultValue: T) => T;
+
+export type RunnerConfig = ReturnType<typeof readRunnerConfig>;
+
+/** One PR per job, one for the whole run, or one per prBatchSize jobs. */
+export type PrStrategy = 'perJob' | 'perRun' | 'batched';
+
+/** How a job's branch catches up with the latest main before its push. */
+export type SyncStrategy = 'rebase' | 'merge' | 'off';
+
+/** What a conflict with the latest main does to the job. */
+export type SyncConflictAction = 'retry' | 'needsAttention';
+
+/** What happens to a spec the stability check found flaky. */
+export type FlakyAction = 'retry' | 'commit';
+
+/**
+ * The runner's settings with defaults and clamping applied. The panel reads
+ * them from the VS Code configuration; tests pass their own values.
+ */
+export function readRunnerConfig(get: SettingReader) {
+    return {
+        maxLoopsPerUrl: clampInt(get<number>('maxLoopsPerUrl', 3), 1, 20),
+        featureMapWindowMs: clampInt(get<number>('featureMapWindowMs', 120000), 1000, 3600000),
+        // Guess the job for unstamped progress files (logged when used)
+        featureMapHeuristic: get<boolean>('featureMapHeuristic', true),
+
+        // Agent to route prompts to (must match a .github/agents/<name>.agent.md)
+        agentName: get<string>('agentName', 'PlaywrightLoopPlanning'),
+
+        // Per-attempt agent + retry template routing (first matching stage wins)
+        attemptStrategy: get<unknown>('attemptStrategy', []),
+
+        // How attempts run: Copilot Chat, or a local agent process
+        executor: get<ExecutorKind>('executor', 'chat'),
+        executorCommand: get<string>('executorCommand', ''),
+        executorArgs: get<string[]>('executorArgs', ['{PromptFile}', '{RunId}', '{Item}', '{Worktree}']),
+
+        // Per-agent phases/tables read from progress files (agent name or "*" → rules)
+        progressRules: get<unknown>('progressRules', {}),
+
+        // Safety-net timeout per job (ms). 0 = no timeout (default).
+        perJobTimeoutMs: clampInt(get<number>('perJobTimeoutMs', 0), 0, 86400000),
+
+        // Idle window without artifact changes before a job is Stalled and
+        // nudged, then failed after a second one. 0 = off (default).
+        stallIdleMs: clampInt(get<number>('stallIdleMs', 0), 0, 86400000),
+        stallNudgePrompt: get<string>('stallNudgePrompt', DEFAULT_STALL_NUDGE),
+
+        // Re-run the spec after PASS and treat failing tests as a FAIL
+        verifyOnPass: get<boolean>('verifyOnPass', false),
+        verifyCommand: get<string>('verifyCommand', 'npx playwright test "{SpecPath}" --reporter=json'),
+        verifyTimeoutMs: clampInt(get<number>('verifyTimeoutMs', 600000), 10000, 7200000),
+
+        // Stability check: rerun a passing spec and flag tests below the pass ratio
+        stabilityRuns: clampInt(get<number>('stabilityRuns', 0), 0, 20),
+        stabilityThreshold: clampRatio(get<number>('stabilityThreshold', 1)),
+        onFlaky: get<FlakyAction>('onFlaky', 'retry'),
+
+        // Environment checks before a run: only show them (default), stop on failures, or skip
+        preflight: get<PreflightMode>('preflight', 'warn'),
+
+        // Hold PASSing jobs for approval before commit/push/PR
+        approvalMode: get<boolean>('approvalMode', false),
+
+        // What happens to the changes of a job that ends without a commit
+        failedJobCleanup: get<CleanupPolicy>('failedJobCleanup', 'patch'),
+
+        // Jobs run side by side (each in its own chat + worktree). >1 requires enableWorktree.
+        maxConcurrentJobs: clampInt(get<number>('maxConcurrentJobs', 1), 1, 8),
+
+        // Watcher globs (workspace-relative)
+        progressGlob: get<string>('progressGlob', '**/src/IntegrationTests/WebsitesExtension.E2ETests/tmp/progress-tracking/*-progress.md'),
+        specGlob: get<string>('specGlob', '**/src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/*/*.spec.ts'),
+        requirementsGlob: get<string>('requirementsGlob', '**/src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/**/*-requirements.md'),
+
+        // Git worktree settings
+        enableWorktree: get<boolean>('enableWorktree', true),
+        worktreeDir: get<string>('worktreeDir', '../.agent-worktrees'),
+        prCreateCommand: get<string>('prCreateCommand', 'az repos pr create --title "[Low][E2E] {FeatureName} agent test" --auto-complete'),
+
+        // Catch up with the latest main before pushing, and what a conflict does
+        syncWithMain: get<SyncStrategy>('syncWithMain', 'rebase'),
+        onSyncConflict: get<SyncConflictAction>('onSyncConflict', 'retry'),
+
+        // Branch and commit message templates (same placeholders as the PR templates)
+        branchTemplate: get<string>('branchTemplate', DEFAULT_BRANCH_TEMPLATE),
+        commitMessageTemplate: get<string>('commitMessageTemplate', DEFAULT_COMMIT_MESSAGE_TEMPLATE),
+
+        // Pull request provider + templates ({FeatureName}, {RunId}, {Item}, {URL}, {Summary}, {Tests}, {Requirements}, ...)
+        prProvider: get<PrProviderKind>('prProvider', 'command'),
+        prTitleTemplate: get<string>('prTitleTemplate', '[Low][E2E] {FeatureName} agent test'),
+        prDescriptionTemplate: get<string>('prDescriptionTemplate', DEFAULT_PR_DESCRIPTION_TEMPLATE),
+        prStrategy: get<PrStrategy>('prStrategy', 'perJob'),
+        prBatchSize: clampInt(get<number>('prBatchSize', 5), 1, 100),
+        prReviewers: get<string[]>('prReviewers', []),
+        prLabels: get<string[]>('prLabels', []),
+        prAutoComplete: get<boolean>('prAutoComplete', true),
+        commitGlob: get<string>('commitGlob', 'src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/'),
+    };
+}
+
+function clampRatio(n: number): number {
+    n = Number(n);
+    return Number.isNaN(n) ? 1 : Math.max(0, Math.min(1, n));
+}
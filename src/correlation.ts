@@ -0,0 +1,80 @@
+/**
+ * How an artifact (progress / spec / requirements file) was tied to a job:
+ *   stamp     — the file carries `RunId:` / `Item:` lines
+ *   claim     — the agent registered the feature in <Item>.claim.json
+ *   status    — FeatureName from the job's status file
+ *   worktree  — the file lives in the job's isolated worktree
+ *   heuristic — most recently started unmapped job (featureMapWindowMs)
+ */
+export type MappingSource = 'stamp' | 'claim' | 'status' | 'worktree' | 'heuristic';
+
+/** Sources that identify the job for certain; a heuristic guess yields to these. */
+export function isDeterministic(source: MappingSource | undefined): boolean {
+    return !!source && source !== 'heuristic';
+}
+
+export interface CorrelationStamp {
+    runId: string;
+    item: string;
+}
+
+/** Only the top of a file is searched, so quoted prompt text further down can't match. */
+const STAMP_SEARCH_CHARS = 4000;
+
+/**
+ * Finds the `RunId:` and `Item:` stamp an agent put near the top of an
+ * artifact. Works for markdown lines, front matter keys, and comments in
+ * spec files (`// RunId: 20250101-120000 Item: 003`).
+ */
+export function parseCorrelationStamp(text: string): CorrelationStamp | undefined {
+    const head = text.slice(0, STAMP_SEARCH_CHARS);
+    const runId = head.match(/\bRun[_ -]?Id\b\**\s*[:=]\s*\**\s*`?([\w.-]+)/i)?.[1];
+    const item = head.match(/\bItem\b\**\s*[:=]\s*\**\s*`?(\d+)/i)?.[1];
+    if (!runId || !item) return undefined;
+    return { runId, item: normalizeItem(item) };
+}
+
+/** "3" and "003" name the same job. */
+export function normalizeItem(item: string): string {
+    return /^\d+$/.test(item) ? item.padStart(3, '0') : item;
+}
+
+/**
+ * .agent-loop-runner/status/<RunId>/<Item>.claim.json — the agent's
+ * registration of the feature it is working on:
+ *
+ *   { "featureName": "CORS", "progressFile": "...", "specFile": "...", "requirementsFile": "..." }
+ */
+export interface FeatureClaim {
+    featureName: string;
+    progressFile?: string;
+    specFile?: string;
+    requirementsFile?: string;
+}
+
+export function parseClaimFile(text: string): { claim?: FeatureClaim; errors: string[] } {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        return { errors: [`Claim file is not valid JSON: ${e?.message ?? e}`] };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { errors: ['Claim file must be a JSON object.'] };
+    }
+
+    const d = data as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof d.featureName !== 'string' || !d.featureName.trim()) {
+        return { errors: ['Claim file needs a non-empty "featureName".'] };
+    }
+
+    const claim: FeatureClaim = { featureName: d.featureName.trim() };
+    for (const key of ['progressFile', 'specFile', 'requirementsFile'] as const) {
+        const v = d[key];
+        if (v === undefined || v === null || v === '') continue;
+        if (typeof v === 'string') claim[key] = v.trim();
+        else errors.push(`"${key}" must be a string.`);
+    }
+    return { claim, errors };
+}
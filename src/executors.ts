@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandResult, describeFailure, runExecutable } from './gitService';
+import { fillTemplate } from './prProviders';
+
+export type ExecutorKind = 'chat' | 'command';
+
+/** Everything an executor gets to run one attempt of one job. */
+export interface ExecutionRequest {
+    runId: string;
+    item: string;
+    url: string;
+    attempt: number;
+    agent: string;
+    promptPath: string;
+    statusPath: string; // where the agent must write its status file
+    cwd: string; // worktree for isolated jobs, otherwise the workspace root
+    worktreePath?: string;
+    logPath: string; // per-attempt log for executors that produce output
+}
+
+/** How a process-backed attempt ended. */
+export interface ExecutionExit {
+    exitCode: number | null;
+    cancelled?: boolean;
+    timedOut?: boolean;
+    error?: string; // spawn failure or a short reason for a non-zero exit
+}
+
+/**
+ * A started attempt. Completion is always confirmed through the status file;
+ * executors that can tell when their agent stopped (a process exiting) also
+ * expose `exited`, so the runner doesn't wait for a status file that will
+ * never come. Executors that can talk to a running agent expose `nudge`,
+ * used when the attempt stalls.
+ */
+export interface Execution {
+    readonly exited?: Promise<ExecutionExit>;
+    cancel(): Promise<void>;
+    nudge?(text: string): Promise<void>;
+}
+
+export interface JobExecutor {
+    readonly kind: ExecutorKind;
+    start(req: ExecutionRequest): Promise<Execution>;
+}
+
+export interface CommandExecutorOptions {
+    command: string;
+    // Arguments with {PromptFile}, {RunId}, {Item}, {Worktree}, {URL},
+    // {Attempt}, {Agent}, {StatusFile} placeholders
+    args: string[];
+    timeoutMs: number;
+}
+
+/**
+ * Runs a local agent CLI (or a scripted stand-in) per attempt. The process
+ * gets the request as arguments and AGENT_LOOP_* environment variables, runs
+ * in the job's worktree when it has one, and its stdout/stderr go to the
+ * attempt's log file.
+ */
+export class CommandExecutor implements JobExecutor {
+    public readonly kind = 'command' as const;
+
+    constructor(private readonly opts: CommandExecutorOptions) {}
+
+    public async start(req: ExecutionRequest): Promise<Execution> {
+        const vars: Record<string, string> = {
+            PromptFile: req.promptPath,
+            RunId: req.runId,
+            Item: req.item,
+            Worktree: req.worktreePath ?? '',
+            URL: req.url,
+            Attempt: String(req.attempt),
+            Agent: req.agent,
+            StatusFile: req.statusPath,
+        };
+        const args = this.opts.args.map(a => fillTemplate(a, vars));
+
+        await fs.promises.mkdir(path.dirname(req.logPath), { recursive: true });
+        const log = fs.createWriteStream(req.logPath, { flags: 'a' });
+        log.write(`# ${new Date().toISOString()} ${[this.opts.command, ...args].join(' ')}\n# cwd: ${req.cwd}\n`);
+
+        const abort = new AbortController();
+        const exited = runExecutable(this.opts.command, args, req.cwd, {
+            timeoutMs: this.opts.timeoutMs,
+            signal: abort.signal,
+            env: { ...process.env, ...executionEnv(req) },
+            onOutput: (line, stream) => log.write(`${stream === 'stderr' ? '! ' : ''}${line}\n`),
+        }).then(result => {
+            const exit = toExecutionExit(result);
+            log.end(`# exit ${exit.exitCode ?? '-'}${exit.error ? ` (${exit.error})` : ''}\n`);
+            return exit;
+        });
+
+        return {
+            exited,
+            cancel: async () => {
+                abort.abort();
+                await exited;
+            },
+        };
+    }
+}
+
+/** Environment handed to command agents, mirroring the argument placeholders. */
+function executionEnv(req: ExecutionRequest): Record<string, string> {
+    return {
+        AGENT_LOOP_PROMPT_FILE: req.promptPath,
+        AGENT_LOOP_RUN_ID: req.runId,
+        AGENT_LOOP_ITEM: req.item,
+        AGENT_LOOP_URL: req.url,
+        AGENT_LOOP_ATTEMPT: String(req.attempt),
+        AGENT_LOOP_AGENT: req.agent,
+        AGENT_LOOP_STATUS_FILE: req.statusPath,
+        AGENT_LOOP_WORKTREE: req.worktreePath ?? '',
+    };
+}
+
+function toExecutionExit(result: CommandResult): ExecutionExit {
+    return {
+        exitCode: result.exitCode,
+        cancelled: result.cancelled,
+        timedOut: result.timedOut,
+        error: result.ok ? undefined : describeFailure(result),
+    };
+}
@@ -1,90 +1,121 @@
-import { execSync } from 'child_process';
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { RunnerConfig, readRunnerConfig } from './config';
+import { JobExecutor } from './executors';
+import { parseImportFile } from './importers';
+import { AGENTS_ROOT, DEFAULT_PROMPT, InputPair, PROMPTS_ROOT, RUNS_ROOT, RunManifest, STATUS_ROOT, clampInt, delay, isJobFinished, resolveInside, shortenUrl, stripFrontMatter } from './jobModel';
+import { Orchestrator, PromptPreview } from './orchestrator';
+import { CHAT_COMMANDS, PreflightCheck, preflightBlocks } from './preflight';
+import { PromptTemplate, checkTemplateTokens, parsePromptTemplate } from './promptTemplates';
+import { REPORT_EXTENSIONS, ReportFormat, buildRunReport, renderReport } from './reports';
+import { parseStatusFile } from './statusFile';
 
-type JobStatus = 'Queued' | 'Planning' | 'Running' | 'Done' | 'Failed' | 'Stopped';
-
-interface Job {
-    index: number; // 1-based
-    indexLabel: string; // 001, 002, ...
-    url: string;
-    shortUrl: string;
-    status: JobStatus;
-
+const STATUS_GLOB = '**/.agent-loop-runner/status/**/*.status.md';
+const CLAIM_GLOB = '**/.agent-loop-runner/status/**/*.claim.json';
+const TEMPLATES_ROOT = '.agent-loop-runner/templates';
+const TEMPLATES_GLOB = '**/.agent-loop-runner/templates/*.md';
+// Files counted per glob in a dry run; the preview says "N+" beyond it
+const DRY_RUN_GLOB_LIMIT = 200;
+// Left side of review diffs: a staged file at the review's base ref
+const REVIEW_BASE_SCHEME = 'agent-loop-review';
+
+/** One row of the run history table. */
+interface RunHistorySummary {
     runId: string;
-    promptPath?: string;
-
-    // Per-job custom prompt (overrides template file when non-empty)
-    customPrompt?: string;
+    startedAt?: number;
+    urlCount: number;
+    pass: number;
+    fail: number;
+    // Still in the manifest/prompts but no status file written
+    pending: number;
+}
 
-    // Agent-derived
+/** Drill-down entry for a single job of a past run. */
+interface RunHistoryJob {
+    item: string;
+    url?: string;
     featureName?: string;
-    progressFile?: string;
+    prompts: { attempt: number; path: string }[];
+    statusPath?: string;
+    statusContent?: string;
+    agentStatus?: 'PASS' | 'FAIL';
     specFile?: string;
-    requirementsFile?: string;
-
-    // Status markers
-    attemptsUsed: number;
-    maxLoops: number;
-    lastRun?: 'PASS' | 'FAIL';
-    finalStatus?: 'PASS' | 'FAIL';
-    reason?: string;
-
-    // Timing / mapping
-    startedAt?: number;
-    mappedAt?: number;
-
-    // Git worktree
-    originalBranch?: string;
-    worktreePath?: string;
-    worktreeBranch?: string;
-
-    // Control
-    stopped?: boolean;
-    failureMessage?: string;
 }
 
-const PROMPTS_ROOT = '.agent-loop-runner/prompts';
-const STATUS_ROOT = '.agent-loop-runner/status';
-const STATUS_GLOB = '**/.agent-loop-runner/status/**/*.status.md';
-
-/** Built-in default prompt used when no custom prompt is provided in the UI. */
-const DEFAULT_PROMPT = `Please create a test plan and test for all possible configurations, platforms, and tabs. Make sure you test all crud operations.`;
-
 export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('agentLoopRunner.open', () => AgentLoopRunnerPanel.createOrShow(context)));
+    context.subscriptions.push(
+        vscode.commands.registerCommand('agentLoopRunner.resume', async () => {
+            AgentLoopRunnerPanel.createOrShow(context);
+            await AgentLoopRunnerPanel.currentPanel?.resumeRun();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('agentLoopRunner.importUrls', async () => {
+            AgentLoopRunnerPanel.createOrShow(context);
+            await AgentLoopRunnerPanel.currentPanel?.importUrlFile();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('agentLoopRunner.exportReport', async () => {
+            AgentLoopRunnerPanel.createOrShow(context);
+            await AgentLoopRunnerPanel.currentPanel?.exportReport();
+        })
+    );
 }
 
 export function deactivate() {}
 
+/**
+ * The webview panel. Runs are driven by an Orchestrator; the panel is its
+ * host — it forwards file watcher events, provides the chat executor, and
+ * renders state changes.
+ */
 class AgentLoopRunnerPanel {
     public static currentPanel: AgentLoopRunnerPanel | undefined;
 
     private readonly panel: vscode.WebviewPanel;
     private readonly context: vscode.ExtensionContext;
+    private readonly orchestrator: Orchestrator;
 
     private disposables: vscode.Disposable[] = [];
+    private disposed = false;
 
-    private jobs: Job[] = [];
-    private runId = '';
-    private running = false;
+    // Most recent interrupted run found on disk (offered as "Resume run")
+    private resumable?: RunManifest;
 
-    // Queue
-    private queue: number[] = [];
+    // Per-job chat editor tabs, so cancel can focus the right session
+    private chatTabs = new Map<number, vscode.Tab>();
 
-    // featureName -> jobIdx
-    private featureToJob = new Map<string, number>();
+    // Serializes chat UI automation — two jobs must never drive the chat
+    // commands at the same time
+    private chatLock: Promise<void> = Promise.resolve();
 
     // Watchers
     private progressWatcher?: vscode.FileSystemWatcher;
     private specWatcher?: vscode.FileSystemWatcher;
     private reqWatcher?: vscode.FileSystemWatcher;
     private statusWatcher?: vscode.FileSystemWatcher;
+    private claimWatcher?: vscode.FileSystemWatcher;
+
+    // Prompt template library (.agent-loop-runner/templates/*.md)
+    private templates: PromptTemplate[] = [];
 
     private constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext) {
         this.panel = panel;
         this.context = context;
+        this.orchestrator = new Orchestrator({
+            get workspaceRoot() {
+                return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            },
+            getConfig: () => this.getConfig(),
+            log: msg => this.log(msg),
+            onStateChanged: () => this.postState(),
+            chatExecutor: jobIdx => this.chatExecutor(jobIdx),
+            cancelChat: jobIdx => this.cancelJobChat(jobIdx),
+            watchWorktree: (_jobIdx, wt) => this.watchWorktree(wt),
+            onJobSettled: jobIdx => this.chatTabs.delete(jobIdx),
+        });
 
         this.panel.webview.options = {
             enableScripts: true,
@@ -97,8 +128,17 @@ class AgentLoopRunnerPanel {
 
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
 
+        // agent-loop-review:/<path>?<jobIndex> → the file at origin/<mainBranch>
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(REVIEW_BASE_SCHEME, {
+                provideTextDocumentContent: uri => this.orchestrator.reviewBaseContent(Number(uri.query), uri.path.replace(/^\//, '')),
+            })
+        );
+
         this.initWatchers();
+        this.watchTemplates();
         this.postState();
+        void this.refreshResumable();
     }
 
     public static createOrShow(context: vscode.ExtensionContext) {
@@ -120,6 +160,11 @@ class AgentLoopRunnerPanel {
     private dispose() {
         AgentLoopRunnerPanel.currentPanel = undefined;
 
+        // Stop pumping without persisting: the manifest keeps running=true so
+        // the run can be resumed from a new panel.
+        this.disposed = true;
+        this.orchestrator.dispose();
+
         this.progressWatcher?.dispose();
         this.specWatcher?.dispose();
         this.reqWatcher?.dispose();
@@ -133,35 +178,9 @@ class AgentLoopRunnerPanel {
         }
     }
 
-    private getConfig() {
+    private getConfig(): RunnerConfig {
         const cfg = vscode.workspace.getConfiguration('agentLoopRunner');
-        return {
-            maxLoopsPerUrl: clampInt(cfg.get<number>('maxLoopsPerUrl', 3), 1, 20),
-            featureMapWindowMs: clampInt(cfg.get<number>('featureMapWindowMs', 120000), 1000, 3600000),
-
-            // Agent to route prompts to (must match a .github/agents/<name>.agent.md)
-            agentName: cfg.get<string>('agentName', 'PlaywrightLoopPlanning'),
-
-            // Safety-net timeout per job (ms). 0 = no timeout (default).
-            perJobTimeoutMs: clampInt(cfg.get<number>('perJobTimeoutMs', 0), 0, 86400000),
-
-            // Watcher globs (workspace-relative)
-            progressGlob: cfg.get<string>(
-                'progressGlob',
-                '**/src/IntegrationTests/WebsitesExtension.E2ETests/tmp/progress-tracking/*-progress.md'
-            ),
-            specGlob: cfg.get<string>('specGlob', '**/src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/*/*.spec.ts'),
-            requirementsGlob: cfg.get<string>(
-                'requirementsGlob',
-                '**/src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/**/*-requirements.md'
-            ),
-
-            // Git worktree settings
-            enableWorktree: cfg.get<boolean>('enableWorktree', true),
-            worktreeDir: cfg.get<string>('worktreeDir', '../.agent-worktrees'),
-            prCreateCommand: cfg.get<string>('prCreateCommand', 'az repos pr create --title "[Low][E2E] {FeatureName} agent test" --auto-complete'),
-            commitGlob: cfg.get<string>('commitGlob', 'src/IntegrationTests/WebsitesExtension.E2ETests/Tests/**/Agent-Based/'),
-        };
+        return readRunnerConfig((key, defaultValue) => cfg.get(key, defaultValue));
     }
 
     private initWatchers() {
@@ -170,25 +189,50 @@ class AgentLoopRunnerPanel {
         const specWatcher = vscode.workspace.createFileSystemWatcher(cfg.specGlob);
         const reqWatcher = vscode.workspace.createFileSystemWatcher(cfg.requirementsGlob);
         const statusWatcher = vscode.workspace.createFileSystemWatcher(STATUS_GLOB);
+        const claimWatcher = vscode.workspace.createFileSystemWatcher(CLAIM_GLOB);
 
-        progressWatcher.onDidCreate(uri => this.onProgressFileEvent(uri));
-        progressWatcher.onDidChange(uri => this.onProgressFileEvent(uri));
-
-        specWatcher.onDidCreate(uri => this.onSpecFileEvent(uri));
-        specWatcher.onDidChange(uri => this.onSpecFileEvent(uri));
+        this.forwardArtifactEvents(progressWatcher, specWatcher, reqWatcher);
 
-        reqWatcher.onDidCreate(uri => this.onReqFileEvent(uri));
-        reqWatcher.onDidChange(uri => this.onReqFileEvent(uri));
+        statusWatcher.onDidCreate(uri => this.orchestrator.onStatusFile(uri.fsPath));
+        statusWatcher.onDidChange(uri => this.orchestrator.onStatusFile(uri.fsPath));
 
-        statusWatcher.onDidCreate(uri => this.onStatusFileEvent(uri));
-        statusWatcher.onDidChange(uri => this.onStatusFileEvent(uri));
+        claimWatcher.onDidCreate(uri => this.orchestrator.onClaimFile(uri.fsPath));
+        claimWatcher.onDidChange(uri => this.orchestrator.onClaimFile(uri.fsPath));
 
         this.progressWatcher = progressWatcher;
         this.specWatcher = specWatcher;
         this.reqWatcher = reqWatcher;
         this.statusWatcher = statusWatcher;
+        this.claimWatcher = claimWatcher;
 
-        this.disposables.push(progressWatcher, specWatcher, reqWatcher, statusWatcher);
+        this.disposables.push(progressWatcher, specWatcher, reqWatcher, statusWatcher, claimWatcher);
+    }
+
+    private forwardArtifactEvents(progress: vscode.FileSystemWatcher, spec: vscode.FileSystemWatcher, req: vscode.FileSystemWatcher) {
+        progress.onDidCreate(uri => this.orchestrator.onProgressFile(uri.fsPath));
+        progress.onDidChange(uri => this.orchestrator.onProgressFile(uri.fsPath));
+
+        spec.onDidCreate(uri => this.orchestrator.onSpecFile(uri.fsPath));
+        spec.onDidChange(uri => this.orchestrator.onSpecFile(uri.fsPath));
+
+        req.onDidCreate(uri => this.orchestrator.onRequirementsFile(uri.fsPath));
+        req.onDidChange(uri => this.orchestrator.onRequirementsFile(uri.fsPath));
+    }
+
+    /**
+     * Isolated worktrees live outside the workspace (../.agent-worktrees by
+     * default), so the workspace watchers never see them. Watch the same
+     * globs relative to the job's worktree instead.
+     */
+    private watchWorktree(worktreePath: string): vscode.Disposable {
+        const cfg = this.getConfig();
+        const base = vscode.Uri.file(worktreePath);
+        const progress = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(base, cfg.progressGlob));
+        const spec = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(base, cfg.specGlob));
+        const req = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(base, cfg.requirementsGlob));
+
+        this.forwardArtifactEvents(progress, spec, req);
+        return vscode.Disposable.from(progress, spec, req);
     }
 
     private reinitWatchers() {
@@ -196,6 +240,7 @@ class AgentLoopRunnerPanel {
         this.specWatcher?.dispose();
         this.reqWatcher?.dispose();
         this.statusWatcher?.dispose();
+        this.claimWatcher?.dispose();
         this.initWatchers();
     }
 
@@ -204,77 +249,86 @@ class AgentLoopRunnerPanel {
             case 'loadAndRun': {
                 // Reject new runs while one is already in progress to avoid
                 // corrupting the active job list.
-                if (this.running) return;
-
-                const pairs: { url: string; prompt: string }[] = (msg?.pairs ?? [])
-                    .map((p: any) => ({
-                        url: String(p?.url ?? '').trim(),
-                        prompt: String(p?.prompt ?? '').trim(),
-                    }))
-                    .filter((p: { url: string }) => p.url && looksLikeUrl(p.url));
-
-                // Deduplicate by URL, keeping the first occurrence
-                const seen = new Set<string>();
-                const dedupedPairs: { url: string; prompt: string }[] = [];
-                for (const p of pairs) {
-                    if (!seen.has(p.url)) {
-                        seen.add(p.url);
-                        dedupedPairs.push(p);
-                    }
+                if (this.orchestrator.state.running) return;
+                if (this.orchestrator.state.jobs.some(j => j.status === 'AwaitingReview')) {
+                    void vscode.window.showWarningMessage('Approve or reject the jobs awaiting review before starting a new run.');
+                    return;
+                }
+
+                const dedupedPairs = this.pairsFromMessage(msg);
+
+                // Unknown/missing {{tokens}} would reach the agent verbatim —
+                // report them now instead of finding out from a failed run.
+                await this.loadTemplates();
+                const problems = this.checkPromptTokens(dedupedPairs);
+                if (problems.length) {
+                    problems.forEach(p => this.log(`[templates] ${p}`));
+                    this.panel.webview.postMessage({ type: 'templateProblems', problems });
+                    return;
+                }
+
+                // A missing agent file or PR CLI otherwise surfaces hours into the run
+                const mode = this.getConfig().preflight;
+                if (mode !== 'off') {
+                    const checks = await this.preflight(dedupedPairs);
+                    const blocked = preflightBlocks(checks, mode);
+                    this.panel.webview.postMessage({ type: 'preflight', checks, blocked });
+                    if (blocked) return;
                 }
 
                 const globalMaxLoops = msg?.globalMaxLoops as number | undefined;
-                this.buildJobs(dedupedPairs, globalMaxLoops);
-                if (!this.jobs.length) return;
-
-                this.running = true;
-                this.runId = makeRunId();
-                this.queue = this.jobs.map((_, i) => i);
-                this.featureToJob.clear();
-
-                const { maxLoopsPerUrl: maxLoops } = this.getConfig();
-
-                this.jobs = this.jobs.map(j => ({
-                    ...j,
-                    runId: this.runId,
-                    maxLoops: j.maxLoops || maxLoops,
-                    attemptsUsed: 0,
-                    status: 'Queued' as JobStatus,
-                    stopped: false,
-                    failureMessage: undefined,
-                    featureName: undefined,
-                    progressFile: undefined,
-                    specFile: undefined,
-                    requirementsFile: undefined,
-                    finalStatus: undefined,
-                    lastRun: undefined,
-                    reason: undefined,
-                    startedAt: undefined,
-                    mappedAt: undefined,
-                    promptPath: undefined,
-                }));
+                this.resumable = undefined;
+                void this.orchestrator.start(dedupedPairs, { globalMaxLoops, templates: this.templates }).then(() => this.onRunEnded());
+                return;
+            }
 
-                this.postState();
-                await this.ensureStatusDir();
-                void this.pumpQueue();
+            case 'dryRun': {
+                if (this.orchestrator.state.running) return;
+                const pairs = this.pairsFromMessage(msg);
+                if (!pairs.length) return;
+                await this.loadTemplates();
+                const report = await this.dryRun(pairs, msg?.globalMaxLoops as number | undefined);
+                this.panel.webview.postMessage({ type: 'dryRun', ...report });
+                return;
+            }
+
+            case 'listTemplates': {
+                await this.loadTemplates();
                 return;
             }
 
             case 'cancelJob': {
-                const idx = msg?.jobIndex as number;
-                const job = this.jobs[idx];
-                if (job && (job.status === 'Running' || job.status === 'Planning')) {
-                    this.jobs[idx] = {
-                        ...job,
-                        status: 'Failed',
-                        stopped: true,
-                        failureMessage: 'Manually cancelled by user.',
-                        finalStatus: 'FAIL',
-                    };
-                    this.postState();
-
-                    // Cancel the active chat response — equivalent to clicking
-                    // the stop button in the chat panel
+                await this.orchestrator.cancelJob(msg?.jobIndex as number);
+                return;
+            }
+
+            case 'approveJob': {
+                await this.orchestrator.approveJob(msg?.jobIndex as number);
+                return;
+            }
+
+            case 'rejectJob': {
+                const job = this.orchestrator.state.jobs[msg?.jobIndex];
+                if (job?.status !== 'AwaitingReview') return;
+                const reason = await vscode.window.showInputBox({
+                    title: `Reject job ${job.indexLabel}`,
+                    prompt: 'Why is this change rejected? Shown in the job row and the run report.',
+                    ignoreFocusOut: true,
+                });
+                if (reason === undefined) return;
+                await this.orchestrator.rejectJob(msg.jobIndex as number, reason);
+                return;
+            }
+
+            case 'reviewDiff': {
+                await this.openReviewDiffs(msg?.jobIndex as number, msg?.file ? String(msg.file) : undefined);
+                return;
+            }
+
+            case 'stop': {
+                // Cancel every active agent before stopping the runner
+                const cancelled = await this.orchestrator.stop();
+                if (!cancelled) {
                     try {
                         await vscode.commands.executeCommand('workbench.action.chat.cancel');
                     } catch {
@@ -284,26 +338,53 @@ class AgentLoopRunnerPanel {
                 return;
             }
 
-            case 'stop': {
-                // Cancel the active chat response before stopping the runner
-                try {
-                    await vscode.commands.executeCommand('workbench.action.chat.cancel');
-                } catch {
-                    // Best-effort
+            case 'resumeRun': {
+                await this.resumeRun(msg?.runId);
+                return;
+            }
+
+            case 'exportReport': {
+                await this.exportReport();
+                return;
+            }
+
+            case 'importFile': {
+                await this.importUrlFile();
+                return;
+            }
+
+            case 'listHistory': {
+                const runs = await this.listRunHistory();
+                this.panel.webview.postMessage({ type: 'history', runs });
+                return;
+            }
+
+            case 'historyDetail': {
+                const runId = String(msg?.runId ?? '');
+                if (!runId) return;
+                const jobs = await this.getRunHistoryDetail(runId);
+                this.panel.webview.postMessage({ type: 'historyDetail', runId, jobs });
+                return;
+            }
+
+            case 'openPr': {
+                const url = this.orchestrator.state.jobs[msg?.jobIndex]?.pr?.url;
+                if (url && /^https?:\/\//i.test(url)) {
+                    await vscode.env.openExternal(vscode.Uri.parse(url));
                 }
+                return;
+            }
 
-                this.running = false;
-                this.queue = [];
-                for (const j of this.jobs) {
-                    if (j.status === 'Queued') j.status = 'Stopped';
-                    j.stopped = true;
+            case 'openFile': {
+                const uri = this.resolveWorkspaceFile(String(msg?.path ?? ''));
+                if (uri) {
+                    await vscode.commands.executeCommand('vscode.open', uri);
                 }
-                this.postState();
                 return;
             }
 
             case 'openProgress': {
-                const job = this.jobs[msg?.jobIndex];
+                const job = this.orchestrator.state.jobs[msg?.jobIndex];
                 if (job?.progressFile) {
                     await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(job.progressFile));
                 }
@@ -314,28 +395,19 @@ class AgentLoopRunnerPanel {
                 const idx = msg?.jobIndex as number;
                 const raw = msg?.value;
                 if (raw === undefined || raw === null || Number.isNaN(Number(raw))) return;
-                const value = clampInt(Number(raw), 1, 20);
-                const job = this.jobs[idx];
-                if (job) {
-                    this.jobs[idx] = { ...job, maxLoops: value };
-                    this.postState();
-                }
+                this.orchestrator.setMaxLoops(idx, clampInt(Number(raw), 1, 20));
                 return;
             }
 
             case 'setAllMaxLoops': {
                 const raw = msg?.value;
                 if (raw === undefined || raw === null || Number.isNaN(Number(raw))) return;
-                const value = clampInt(Number(raw), 1, 20);
-                for (let i = 0; i < this.jobs.length; i++) {
-                    this.jobs[i] = { ...this.jobs[i], maxLoops: value };
-                }
-                this.postState();
+                this.orchestrator.setAllMaxLoops(clampInt(Number(raw), 1, 20));
                 return;
             }
 
             case 'openArtifacts': {
-                const job = this.jobs[msg?.jobIndex];
+                const job = this.orchestrator.state.jobs[msg?.jobIndex];
                 const folder = job?.specFile ? path.dirname(job.specFile) : undefined;
                 if (folder) {
                     await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(folder));
@@ -361,844 +433,624 @@ class AgentLoopRunnerPanel {
         }
     }
 
-    private buildJobs(pairs: { url: string; prompt: string }[], globalMaxLoops?: number) {
-        const { maxLoopsPerUrl } = this.getConfig();
-        const loops = globalMaxLoops ?? maxLoopsPerUrl;
-
-        this.jobs = pairs.map((pair, idx0) => {
-            const idx = idx0 + 1;
-            return {
-                index: idx,
-                indexLabel: String(idx).padStart(3, '0'),
-                url: pair.url,
-                shortUrl: shortenUrl(pair.url),
-                customPrompt: pair.prompt || undefined,
-                status: 'Queued' as JobStatus,
-                runId: '',
-                maxLoops: loops,
-                attemptsUsed: 0,
-            };
-        });
-    }
-
-    private async pumpQueue() {
-        while (this.running && this.queue.length) {
-            const jobIdx = this.queue.shift()!;
-            const job = this.jobs[jobIdx];
-            if (!job || job.stopped) continue;
+    // ─── Review ────────────────────────────────────────────────────────
 
-            await this.runJob(jobIdx);
-            this.postState();
+    /**
+     * Opens a diff editor per staged file of a job awaiting review (or just
+     * `file`): the file at the review's base ref against the worktree copy.
+     */
+    private async openReviewDiffs(jobIdx: number, file?: string) {
+        const job = this.orchestrator.state.jobs[jobIdx];
+        const review = job?.review;
+        if (!review || !job.worktreePath) return;
+
+        for (const relPath of review.files.filter(f => !file || f === file)) {
+            const base = vscode.Uri.from({ scheme: REVIEW_BASE_SCHEME, path: `/${relPath}`, query: String(jobIdx) });
+            const staged = vscode.Uri.file(path.join(job.worktreePath, relPath));
+            await vscode.commands.executeCommand('vscode.diff', base, staged, `${relPath} (${review.baseRef} ↔ job ${job.indexLabel})`, {
+                preview: false,
+            });
         }
-
-        this.running = false;
-        this.postState();
     }
 
-    private async runJob(jobIdx: number) {
-        const job = this.jobs[jobIdx];
-        if (!job) return;
+    // ─── Prompt Templates ──────────────────────────────────────────────
 
-        // ── Save original branch for branch guard ──
-        this.saveOriginalBranch(jobIdx);
-
-        const maxAttempts = job.maxLoops;
-
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-            // Re-read from this.jobs each iteration so stop mutations are visible
-            const current = this.jobs[jobIdx];
-            if (current?.stopped || !this.running) return;
-
-            try {
-                // Delete stale status file before each attempt so the poller
-                // doesn't immediately re-read a FAIL from the previous attempt.
-                await this.deleteStatusFile(jobIdx);
-
-                this.jobs[jobIdx] = {
-                    ...this.jobs[jobIdx],
-                    status: attempt === 1 ? 'Planning' : 'Running',
-                    startedAt: Date.now(),
-                    attemptsUsed: attempt,
-                    // Reset per-attempt state
-                    finalStatus: undefined,
-                    failureMessage: undefined,
-                };
-                this.postState();
-
-                const promptUri = await this.writePromptFile(jobIdx, attempt);
-                this.jobs[jobIdx] = { ...this.jobs[jobIdx], promptPath: promptUri.fsPath, status: 'Running' };
-                this.postState();
-
-                await this.sendPromptToChat(jobIdx, promptUri);
-
-                // Wait for the agent to complete (watcher + polling driven)
-                const terminalStatus = await this.waitForTerminalStatus(jobIdx);
-
-                // If succeeded, commit/push/PR then we're done
-                if (terminalStatus === 'Done') {
-                    await this.commitPushAndCreatePR(jobIdx);
-                    return;
-                }
-
-                // If failed and we have more attempts, reset for retry
-                if (terminalStatus === 'Failed' && attempt < maxAttempts) {
-                    this.jobs[jobIdx] = {
-                        ...this.jobs[jobIdx],
-                        status: 'Queued',
-                        failureMessage: `Attempt ${attempt} failed, retrying...`,
-                    };
-                    this.postState();
-                    await delay(1000); // Brief pause between retries
-                    continue;
-                }
-
-                // Final attempt failed or stopped — leave as-is
-                return;
-            } catch (e: any) {
-                const msg = e?.message ? String(e.message) : String(e);
-
-                if (attempt < maxAttempts) {
-                    this.jobs[jobIdx] = {
-                        ...this.jobs[jobIdx],
-                        status: 'Queued',
-                        attemptsUsed: attempt,
-                        failureMessage: `Attempt ${attempt} error: ${msg}. Retrying...`,
-                    };
-                    this.postState();
-                    await delay(1000);
-                    continue;
-                }
-
-                // Final attempt
-                this.jobs[jobIdx] = {
-                    ...this.jobs[jobIdx],
-                    status: 'Failed',
-                    failureMessage: msg,
-                    finalStatus: 'FAIL',
-                    attemptsUsed: attempt,
-                };
-                this.postState();
-                return;
-            }
-        }
+    private watchTemplates() {
+        const watcher = vscode.workspace.createFileSystemWatcher(TEMPLATES_GLOB);
+        watcher.onDidCreate(() => this.loadTemplates());
+        watcher.onDidChange(() => this.loadTemplates());
+        watcher.onDidDelete(() => this.loadTemplates());
+        this.disposables.push(watcher);
     }
 
     /**
-     * Deletes the status file for a job so stale FAIL results from a previous
-     * attempt don't immediately poison the next retry.
+     * Reads every .agent-loop-runner/templates/*.md and sends the list to the
+     * webview for the per-row template dropdowns.
      */
-    private async deleteStatusFile(jobIdx: number) {
+    private async loadTemplates() {
         const ws = vscode.workspace.workspaceFolders?.[0];
         if (!ws) return;
 
-        const job = this.jobs[jobIdx];
-        if (!job || !job.runId) return;
-
-        const statusUri = vscode.Uri.joinPath(ws.uri, STATUS_ROOT, job.runId, `${job.indexLabel}.status.md`);
-        try {
-            await vscode.workspace.fs.delete(statusUri);
-        } catch {
-            // File doesn't exist yet — that's fine on attempt 1
+        const dir = vscode.Uri.joinPath(ws.uri, TEMPLATES_ROOT);
+        const templates: PromptTemplate[] = [];
+        for (const [name, type] of await this.listDirectory(dir)) {
+            if (type !== vscode.FileType.File || !name.toLowerCase().endsWith('.md')) continue;
+            const uri = vscode.Uri.joinPath(dir, name);
+            const text = await this.readTextFile(uri);
+            if (text === undefined) continue;
+            const template = parsePromptTemplate(name.replace(/\.md$/i, ''), uri.fsPath, text);
+            template.errors.forEach(e => this.log(`[templates] ${name}: ${e}`));
+            templates.push(template);
         }
+        templates.sort((a, b) => a.name.localeCompare(b.name));
+        this.templates = templates;
+
+        if (this.disposed) return;
+        this.panel.webview.postMessage({
+            type: 'templates',
+            templates: templates.map(t => ({
+                id: t.id,
+                name: t.name,
+                description: t.description,
+                agent: t.agent,
+                variables: t.variables,
+                errors: t.errors,
+            })),
+        });
     }
 
     /**
-     * Writes a per-job prompt file to .agent-loop/prompts/<runId>/<index>-attempt<N>.prompt.md
-     * using the per-job custom prompt (from the UI) or the built-in default prompt.
-     *
-     * Template supports tokens:
-     *   {{URL}}, {{RunId}}, {{Item}}, {{MaxLoopsPerUrl}}, {{Attempt}}
+     * Preflight for loadAndRun: the orchestrator's checks plus, with the chat
+     * executor, the chat commands prompts are sent with.
      */
-    private async writePromptFile(jobIdx: number, attempt: number = 1): Promise<vscode.Uri> {
-        const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) throw new Error('No workspace folder open.');
-
-        const job = this.jobs[jobIdx];
-        const cfg = this.getConfig();
-
-        // Output prompt (what we actually run)
-        const promptsDir = vscode.Uri.joinPath(ws.uri, PROMPTS_ROOT, this.runId);
-        const filename = attempt === 1 ? `${job.indexLabel}.prompt.md` : `${job.indexLabel}-attempt${attempt}.prompt.md`;
-        const outPromptUri = vscode.Uri.joinPath(promptsDir, filename);
-        await vscode.workspace.fs.createDirectory(promptsDir);
-
-        // Use per-job custom prompt if provided in the UI, otherwise use built-in default
-        const strippedTemplate = job.customPrompt
-            ? stripFrontMatter(job.customPrompt)
-            : DEFAULT_PROMPT;
-
-        // Build front matter + RunId/Item/Attempt context
-        // NOTE: The custom agent is selected via the `mode` parameter in
-        // workbench.action.chat.open, NOT via @mention in the body.
-        const gitBlock = cfg.enableWorktree
-            ? `\n**IMPORTANT — Git is managed by the extension. Do NOT run any git commands.**\nDo NOT run: git checkout, git branch, git switch, git worktree, git commit, git push, or az repos pr create.\n`
-            : '';
-
-        const header = `---
-mode: agent
----
-
-RunId: ${this.runId}
-Item: ${job.indexLabel}
-URL: ${job.url}
-Attempt: ${attempt}
-MaxLoopsPerUrl: ${job.maxLoops}
-${gitBlock}
-`;
-
-        // Inject vars into template body
-        const injectedBody = injectTemplate(strippedTemplate, {
-            URL: job.url,
-            RunId: this.runId,
-            Item: job.indexLabel,
-            Attempt: String(attempt),
-            MaxLoopsPerUrl: String(job.maxLoops),
-        });
-
-        // On retries, append context from the previous attempt so the agent
-        // can pick up where it left off instead of starting blind.
-        let retryContext = '';
-        if (attempt > 1) {
-            const parts: string[] = ['', '---', `## Previous Attempt Context (attempt ${attempt - 1} of ${job.maxLoops})`, ''];
-            if (job.failureMessage) {
-                parts.push(`**Failure reason**: ${job.failureMessage}`);
-            }
-            if (job.reason) {
-                parts.push(`**Status reason**: ${job.reason}`);
-            }
-            if (job.progressFile) {
-                parts.push(`**Progress file** (may contain useful locators/context): ${job.progressFile}`);
-            }
-            if (job.specFile) {
-                parts.push(`**Existing spec file** (check before regenerating): ${job.specFile}`);
-            }
-            if (job.requirementsFile) {
-                parts.push(`**Requirements file**: ${job.requirementsFile}`);
-            }
-            parts.push('');
-            parts.push(
-                'Review the artifacts above before starting from scratch. Fix the failing spec if it exists rather than regenerating.'
+    private async preflight(pairs: InputPair[]): Promise<PreflightCheck[]> {
+        const checks = await this.orchestrator.preflight(pairs, this.templates);
+        if (this.getConfig().executor === 'chat') {
+            const available = new Set(await vscode.commands.getCommands(true));
+            const missing = CHAT_COMMANDS.filter(c => !available.has(c));
+            checks.unshift(
+                missing.length
+                    ? { name: 'Chat commands', status: 'fail', detail: `${missing.join(', ')} not available; is Copilot Chat installed and enabled?` }
+                    : { name: 'Chat commands', status: 'pass', detail: 'Copilot Chat is available' }
             );
-            parts.push('');
-            retryContext = parts.join('\n');
         }
+        for (const c of checks) this.log(`[preflight] ${c.status.toUpperCase()} ${c.name}: ${c.detail}`);
+        return checks;
+    }
 
-        const finalText = header + injectedBody + retryContext;
-        await vscode.workspace.fs.writeFile(outPromptUri, Buffer.from(finalText, 'utf8'));
-
-        return outPromptUri;
+    /** The run rows posted by the webview: valid URLs only, the first row per URL. */
+    private pairsFromMessage(msg: any): InputPair[] {
+        const pairs: InputPair[] = (msg?.pairs ?? [])
+            .map((p: any) => ({
+                url: String(p?.url ?? '').trim(),
+                prompt: String(p?.prompt ?? '').trim(),
+                maxLoops: Number.isFinite(Number(p?.maxLoops)) && p?.maxLoops ? clampInt(Number(p.maxLoops), 1, 20) : undefined,
+                vars: p?.vars && typeof p.vars === 'object' ? stringRecord(p.vars) : undefined,
+                template: p?.template ? String(p.template) : undefined,
+            }))
+            .filter((p: InputPair) => p.url && looksLikeUrl(p.url));
+
+        // Deduplicate by URL, keeping the first occurrence
+        const seen = new Set<string>();
+        const dedupedPairs: InputPair[] = [];
+        for (const p of pairs) {
+            if (!seen.has(p.url)) {
+                seen.add(p.url);
+                dedupedPairs.push(p);
+            }
+        }
+        return dedupedPairs;
     }
 
     /**
-     * Sends the prompt to the VS Code chat panel, with the configured custom
-     * agent selected as the active chat mode.
-     *
-     * `workbench.action.chat.open` accepts a `mode` parameter that maps to
-     * a custom agent name (from `.github/agents/<name>.agent.md`).  Passing
-     * `mode: 'PlaywrightLoopPlanning'` selects that agent directly — no @mention
-     * needed.  The command also accepts `isPartialQuery: false` to auto-submit.
+     * Dry run: renders every row's attempt-1 prompt and reports what a run
+     * would trip over — token problems, agents without an agent file — and
+     * what the artifact globs match right now. Nothing is sent to chat and
+     * git isn't run.
      */
-    private async sendPromptToChat(_jobIdx: number, promptUri: vscode.Uri) {
-        const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) throw new Error('No workspace folder open.');
-
-        // Read the generated prompt file content
-        const data = await vscode.workspace.fs.readFile(promptUri);
-        const promptText = Buffer.from(data).toString('utf8');
-
-        // Strip the YAML front matter — the chat panel doesn't use it
-        const body = stripFrontMatter(promptText).trim();
-
+    private async dryRun(pairs: InputPair[], globalMaxLoops: number | undefined) {
         const cfg = this.getConfig();
-        // Use the custom agent name as the chat mode, falling back to 'agent'
-        const chatMode = cfg.agentName || 'agent';
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        const problems = this.checkPromptTokens(pairs);
 
-        // Always open a NEW chat session first so each URL gets its own window.
+        let prompts: PromptPreview[] = [];
         try {
-            await vscode.commands.executeCommand('workbench.action.chat.newChat');
-            await delay(400);
-        } catch {
-            // Best-effort — newChat may not exist in some builds
+            prompts = await this.orchestrator.dryRun(pairs, { globalMaxLoops, templates: this.templates });
+        } catch (e: any) {
+            problems.push(`Could not render the prompts: ${e?.message ?? e}`);
         }
 
-        // ── Approach 1 ── auto-submit with custom agent selected via `mode` ──
-        try {
-            await vscode.commands.executeCommand('workbench.action.chat.open', {
-                query: body,
-                isPartialQuery: false,
-                mode: chatMode,
-            });
-            return;
-        } catch {
-            // Fall through — mode name might not resolve
+        const agents: { name: string; file: string; exists: boolean }[] = [];
+        for (const name of new Set(prompts.map(p => p.agent))) {
+            const file = `${AGENTS_ROOT}/${name}.agent.md`;
+            const exists = !!ws && (await this.readTextFile(vscode.Uri.joinPath(ws.uri, file))) !== undefined;
+            agents.push({ name, file, exists });
         }
 
-        // ── Approach 2 ── fill + manual submit (for older VS Code builds) ──
-        try {
-            await vscode.commands.executeCommand('workbench.action.chat.open', {
-                query: body,
-                isPartialQuery: true,
-                mode: chatMode,
-            });
-            await delay(400);
-            await vscode.commands.executeCommand('workbench.action.chat.acceptInput');
-            return;
-        } catch {
-            // Fall through
-        }
-
-        // ── Approach 3 ── generic agent mode (no custom agent) ──
-        try {
-            await vscode.commands.executeCommand('workbench.action.chat.open', {
-                query: body,
-                isPartialQuery: false,
-                mode: 'agent',
-            });
-            return;
-        } catch {
-            // Fall through
+        const globs: { setting: string; glob: string; count: number; samples: string[] }[] = [];
+        for (const [setting, glob] of [
+            ['progressGlob', cfg.progressGlob],
+            ['specGlob', cfg.specGlob],
+            ['requirementsGlob', cfg.requirementsGlob],
+        ]) {
+            const found = await vscode.workspace.findFiles(glob, '**/node_modules/**', DRY_RUN_GLOB_LIMIT);
+            globs.push({ setting, glob, count: found.length, samples: found.slice(0, 5).map(u => vscode.workspace.asRelativePath(u)) });
         }
 
-        throw new Error(
-            'Failed to send prompt to chat. None of the known VS Code chat commands worked. ' +
-                'Make sure you are running VS Code 1.95+ with GitHub Copilot Chat enabled.'
-        );
+        this.log(`[dry run] ${prompts.length} prompt(s), ${problems.length} problem(s), ${agents.filter(a => !a.exists).length} missing agent file(s)`);
+        return { prompts, problems, agents, globs, globLimit: DRY_RUN_GLOB_LIMIT, executor: cfg.executor };
     }
 
-    private async waitForTerminalStatus(jobIdx: number): Promise<JobStatus> {
-        // The loop exits when: the status file arrives (PASS/FAIL), the job
-        // is cancelled/stopped by the user, this.running becomes false, or
-        // the per-job timeout is exceeded (if configured).
-        const { perJobTimeoutMs } = this.getConfig();
-        const waitStart = Date.now();
-
-        while (this.running) {
-            const job = this.jobs[jobIdx];
-            if (!job) return 'Failed';
-
-            if (job.status === 'Done' || job.status === 'Failed' || job.status === 'Stopped') return job.status;
-
-            // Safety-net timeout: if configured (> 0), fail the job if the
-            // agent hasn't produced a status file within the window.
-            if (perJobTimeoutMs > 0 && Date.now() - waitStart > perJobTimeoutMs) {
-                this.jobs[jobIdx] = {
-                    ...this.jobs[jobIdx],
-                    status: 'Failed',
-                    failureMessage: `Timed out after ${Math.round(perJobTimeoutMs / 1000)}s waiting for agent status file.`,
-                    finalStatus: 'FAIL',
-                };
-                this.postState();
-                return 'Failed';
+    /**
+     * Checks each row's prompt (custom text, template, or the default) for
+     * {{tokens}} nothing will fill and template variables the row has no
+     * value for. Returns one message per problem.
+     */
+    private checkPromptTokens(pairs: InputPair[]): string[] {
+        const problems: string[] = [];
+        pairs.forEach((pair, i) => {
+            const label = `Row ${i + 1} (${shortenUrl(pair.url)})`;
+            const template = pair.template ? this.templates.find(t => t.id === pair.template) : undefined;
+            if (pair.template && !template) {
+                problems.push(`${label}: template "${pair.template}" not found in ${TEMPLATES_ROOT}.`);
+                return;
             }
-
-            // Poll the status file as a safety net (in case watcher events are missed)
-            await this.pollStatusFile(jobIdx);
-            {
-                const updated = this.jobs[jobIdx];
-                if (updated.status === 'Done' || updated.status === 'Failed') return updated.status;
+            for (const err of template?.errors ?? []) {
+                problems.push(`${label}: template "${template!.name}": ${err}`);
             }
 
-            // Branch guard: snap back if the agent switched branches in the main directory
-            this.guardBranch(jobIdx);
-
-            await delay(2000);
-        }
-
-        return 'Stopped';
-    }
-
-    private async onProgressFileEvent(uri: vscode.Uri) {
-        await this.refreshFromProgressFile(uri.fsPath);
-    }
-
-    private async refreshFromProgressFile(progressPath: string) {
-        const featureName = inferFeatureNameFromProgressPath(progressPath);
-        if (!featureName) return;
-
-        // Map progress file to a running job if not mapped
-        if (!this.featureToJob.has(featureName)) {
-            const mappedJobIdx = this.mapFeatureToMostRecentUnmappedRunningJob(featureName);
-            if (mappedJobIdx === undefined) return;
-
-            this.featureToJob.set(featureName, mappedJobIdx);
-            const j = this.jobs[mappedJobIdx];
-            this.jobs[mappedJobIdx] = { ...j, featureName, progressFile: progressPath, mappedAt: Date.now() };
-            this.postState();
-        }
-
-        // NOTE: Completion detection relies on .agent-loop/status/ files written by
-        // the agent (AGENT_STATUS: PASS|FAIL).  The progress
-        // file is only used for feature-name → job mapping above.
-    }
-
-    private mapFeatureToMostRecentUnmappedRunningJob(_featureName: string): number | undefined {
-        const { featureMapWindowMs } = this.getConfig();
-        const now = Date.now();
-
-        let bestIdx: number | undefined;
-        let bestStart = -1;
-
-        for (let i = 0; i < this.jobs.length; i++) {
-            const j = this.jobs[i];
-            if (j.featureName) continue;
-            if (j.runId !== this.runId) continue; // Skip jobs from previous runs
-            if (j.status !== 'Running' && j.status !== 'Planning') continue;
-            if (!j.startedAt) continue;
-
-            const age = now - j.startedAt;
-            if (age > featureMapWindowMs) continue;
-
-            if (j.startedAt > bestStart) {
-                bestStart = j.startedAt;
-                bestIdx = i;
+            const body = stripFrontMatter(pair.prompt || template?.body || DEFAULT_PROMPT);
+            const { unknown, missing } = checkTemplateTokens(body, pair.prompt ? [] : template?.variables ?? [], pair.vars ?? {});
+            if (unknown.length) {
+                problems.push(`${label}: unknown token(s) ${unknown.map(t => `{{${t}}}`).join(', ')}.`);
             }
-        }
-        return bestIdx;
-    }
-
-    private async onSpecFileEvent(uri: vscode.Uri) {
-        const specPath = uri.fsPath;
-        const featureName = inferFeatureNameFromSpecPath(specPath);
-        if (!featureName) return;
-
-        const jobIdx = this.featureToJob.get(featureName);
-        if (jobIdx === undefined) return;
-
-        this.jobs[jobIdx] = { ...this.jobs[jobIdx], specFile: specPath };
-        this.postState();
+            if (missing.length) {
+                problems.push(`${label}: no value for ${missing.map(t => `{{${t}}}`).join(', ')} (required by template "${template!.name}").`);
+            }
+        });
+        return problems;
     }
 
-    private async onReqFileEvent(uri: vscode.Uri) {
-        const reqPath = uri.fsPath;
-        const featureName = inferFeatureNameFromRequirementsPath(reqPath);
-        if (!featureName) return;
+    // ─── Run Manifest / Resume ─────────────────────────────────────────
 
-        const jobIdx = this.featureToJob.get(featureName);
-        if (jobIdx === undefined) return;
-
-        this.jobs[jobIdx] = { ...this.jobs[jobIdx], requirementsFile: reqPath };
+    /**
+     * Finds the most recent run whose manifest was left with running=true and
+     * still has unfinished jobs, and offers it in the panel.
+     */
+    private async refreshResumable() {
+        this.resumable = await this.orchestrator.findResumable();
         this.postState();
     }
 
     /**
-     * Watches for .agent-loop/status/<RunId>/<Item>.status.md files written by the
-     * agent. Parses AGENT_STATUS: PASS|FAIL and maps back to
-     * the corresponding job by matching the Item label (e.g. "001") in the filename.
+     * Continues an interrupted run: the one offered in the panel, or the
+     * given runId from history.
      */
-    private async onStatusFileEvent(uri: vscode.Uri) {
-        const statusPath = uri.fsPath;
+    public async resumeRun(runId?: string) {
+        if (this.orchestrator.state.running) return;
 
-        let content: string;
-        try {
-            const data = await vscode.workspace.fs.readFile(uri);
-            content = Buffer.from(data).toString('utf8');
-        } catch {
+        const manifest = runId ? await this.orchestrator.readRunManifest(runId) : this.resumable;
+        if (!manifest) {
+            vscode.window.showInformationMessage('Agent Loop Runner: no interrupted run to resume.');
             return;
         }
 
-        // Extract <Item> from filename like 001.status.md
-        const base = path.basename(statusPath);
-        const itemMatch = base.match(/^(\d+)\.status\.md$/i);
-        if (!itemMatch) return;
-        const itemLabel = itemMatch[1]; // e.g. "001"
-
-        // Find the job that matches this Item label AND the current runId
-        // (status path should be under .agent-loop/status/<runId>/)
-        const jobIdx = this.jobs.findIndex(j => j.indexLabel === itemLabel && j.runId === this.runId);
-        if (jobIdx < 0) return;
-
-        const job = this.jobs[jobIdx];
-
-        // Parse the status block
-        const statusMarkers = parseStatusFile(content);
-        if (!statusMarkers.agentStatus) return;
-
-        const finalStatus = statusMarkers.agentStatus;
-        const status: JobStatus = finalStatus === 'PASS' ? 'Done' : 'Failed';
-        const featureName = statusMarkers.featureName || job.featureName;
-        const reason = statusMarkers.reason || statusMarkers.summary || job.reason;
-
-        this.jobs[jobIdx] = {
-            ...job,
-            status,
-            finalStatus,
-            featureName,
-            reason,
-            specFile: statusMarkers.specPath || job.specFile,
-        };
-
-        this.postState();
+        this.resumable = undefined;
+        void this.orchestrator.resume(manifest).then(() => this.onRunEnded());
     }
 
-    /**
-     * Creates the .agent-loop/status/<runId>/ directory so the agent can write status files there.
-     */
-    private async ensureStatusDir() {
-        const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
-
-        const statusDir = vscode.Uri.joinPath(ws.uri, STATUS_ROOT, this.runId);
-        try {
-            await vscode.workspace.fs.createDirectory(statusDir);
-        } catch {
-            // Directory may already exist
-        }
+    private onRunEnded() {
+        // A disposed panel leaves the manifest as-is so the run stays resumable
+        if (this.disposed) return;
+        void this.refreshResumable();
     }
 
+    // ─── URL Import ────────────────────────────────────────────────────
+
     /**
-     * Directly reads the status file for a job as a safety net (in case watcher events are missed).
+     * Prompts for a CSV/TSV, JSON or Markdown file, parses it into URL rows
+     * and sends a validation preview to the webview. Rows are only added to
+     * the input list once the user confirms the preview.
      */
-    private async pollStatusFile(jobIdx: number) {
+    public async importUrlFile() {
         const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
-
-        const job = this.jobs[jobIdx];
-        if (!job || !job.runId) return;
+        const picked = await vscode.window.showOpenDialog({
+            defaultUri: ws?.uri,
+            canSelectMany: false,
+            openLabel: 'Import URLs',
+            filters: {
+                'URL lists': ['csv', 'tsv', 'json', 'md', 'markdown', 'txt'],
+                'All files': ['*'],
+            },
+        });
+        const uri = picked?.[0];
+        if (!uri) return;
 
-        const statusUri = vscode.Uri.joinPath(ws.uri, STATUS_ROOT, job.runId, `${job.indexLabel}.status.md`);
-        try {
-            const data = await vscode.workspace.fs.readFile(statusUri);
-            const content = Buffer.from(data).toString('utf8');
-            const statusMarkers = parseStatusFile(content);
-            if (!statusMarkers.agentStatus) return;
-
-            const finalStatus = statusMarkers.agentStatus;
-            const status: JobStatus = finalStatus === 'PASS' ? 'Done' : 'Failed';
-
-            this.jobs[jobIdx] = {
-                ...job,
-                status,
-                finalStatus,
-                featureName: statusMarkers.featureName || job.featureName,
-                reason: statusMarkers.reason || statusMarkers.summary || job.reason,
-                specFile: statusMarkers.specPath || job.specFile,
-            };
-            this.postState();
-        } catch {
-            // File doesn't exist yet — that's normal
+        const text = await this.readTextFile(uri);
+        if (text === undefined) {
+            vscode.window.showErrorMessage(`Agent Loop Runner: could not read ${uri.fsPath}`);
+            return;
         }
-    }
 
-    // ─── Git Worktree Management ───────────────────────────────────────
+        const result = parseImportFile(uri.fsPath, text);
+        const seen = new Set<string>();
+        const rows = result.rows.map(r => {
+            let error: string | undefined;
+            if (!looksLikeUrl(r.url)) error = 'Not an http(s) URL';
+            else if (seen.has(r.url)) error = 'Duplicate URL';
+            seen.add(r.url);
+            return { ...r, valid: !error, error };
+        });
 
-    /**
-     * Executes a git command in the given cwd, returning trimmed stdout.
-     * Returns undefined on failure instead of throwing.
-     */
-    private gitExec(cmd: string, cwd: string): string | undefined {
-        try {
-            return execSync(cmd, { cwd, stdio: ['pipe', 'pipe', 'pipe'], timeout: 30000 })
-                .toString()
-                .trim();
-        } catch {
-            return undefined;
-        }
+        this.log(`[import] ${path.basename(uri.fsPath)} (${result.format}): ${rows.length} row(s), ${result.errors.length} error(s)`);
+        this.panel.webview.postMessage({
+            type: 'importPreview',
+            fileName: path.basename(uri.fsPath),
+            format: result.format,
+            rows,
+            errors: result.errors,
+        });
     }
 
-    /**
-     * Detects the repo's default branch (e.g. dev, main) from origin/HEAD.
-     */
-    private detectMainBranch(cwd: string): string {
-        const ref = this.gitExec('git symbolic-ref refs/remotes/origin/HEAD', cwd);
-        if (ref) return ref.replace(/^refs\/remotes\/origin\//, '');
-        // Fallback: try common names
-        for (const name of ['dev', 'main', 'master']) {
-            const check = this.gitExec(`git rev-parse --verify origin/${name}`, cwd);
-            if (check) return name;
-        }
-        return 'dev';
-    }
+    // ─── Reports ───────────────────────────────────────────────────────
 
     /**
-     * Creates a git worktree + branch for a job before sending the prompt.
-     * The main working directory stays on its current branch.
+     * Writes the current run's jobs as JSON, Markdown and/or JUnit XML to
+     * .agent-loop-runner/runs/<runId>/report.<ext>.
      */
-    private createWorktreeForJob(jobIdx: number): void {
+    public async exportReport() {
         const ws = vscode.workspace.workspaceFolders?.[0];
         if (!ws) return;
-
-        const cfg = this.getConfig();
-        if (!cfg.enableWorktree) return;
-
-        const cwd = ws.uri.fsPath;
-        const job = this.jobs[jobIdx];
-
-        // Fetch latest main
-        const mainBranch = this.detectMainBranch(cwd);
-        this.gitExec(`git fetch origin ${mainBranch}`, cwd);
-
-        // Compute worktree path and branch name
-        const worktreeLabel = `${job.runId}-${job.indexLabel}`;
-        const worktreeBranch = `agent/${worktreeLabel}-test-suite`;
-        const worktreeBase = path.isAbsolute(cfg.worktreeDir)
-            ? cfg.worktreeDir
-            : path.resolve(cwd, cfg.worktreeDir);
-        const worktreePath = path.join(worktreeBase, worktreeLabel);
-
-        // Remove stale worktree / branch if they exist from a previous attempt
-        this.gitExec(`git worktree remove "${worktreePath}" --force`, cwd);
-        this.gitExec(`git branch -D "${worktreeBranch}"`, cwd);
-
-        // Also delete remote branch if agent already pushed an empty one
-        this.gitExec(`git push origin --delete "${worktreeBranch}"`, cwd);
-
-        // Create the worktree
-        const result = this.gitExec(
-            `git worktree add -b "${worktreeBranch}" "${worktreePath}" origin/${mainBranch}`,
-            cwd
-        );
-
-        if (result === undefined) {
-            this.log(`[worktree] Failed to create worktree for job ${job.indexLabel}`);
+        const { runId, runStartedAt, jobs } = this.orchestrator.state;
+        if (!runId || !jobs.length) {
+            vscode.window.showInformationMessage('Agent Loop Runner: no run to export yet.');
             return;
         }
 
-        this.log(`[worktree] Created ${worktreePath} on branch ${worktreeBranch}`);
-        this.jobs[jobIdx] = {
-            ...this.jobs[jobIdx],
-            worktreePath,
-            worktreeBranch,
-        };
-    }
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: 'All formats', formats: ['json', 'markdown', 'junit'] as ReportFormat[] },
+                { label: 'JSON', formats: ['json'] as ReportFormat[] },
+                { label: 'Markdown summary', formats: ['markdown'] as ReportFormat[] },
+                { label: 'JUnit XML', formats: ['junit'] as ReportFormat[] },
+            ],
+            { placeHolder: `Export report for run ${runId}` }
+        );
+        if (!picked) return;
 
-    /**
-     * Records the current branch at the start of a job so the branch guard
-     * can snap back if the agent switches branches during its run.
-     */
-    private saveOriginalBranch(jobIdx: number): void {
-        const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
+        const report = buildRunReport(runId, runStartedAt, [...jobs]);
+        const dir = vscode.Uri.joinPath(ws.uri, RUNS_ROOT, runId);
+        await vscode.workspace.fs.createDirectory(dir);
 
-        const cfg = this.getConfig();
-        if (!cfg.enableWorktree) return;
+        const written: vscode.Uri[] = [];
+        for (const format of picked.formats) {
+            const uri = vscode.Uri.joinPath(dir, `report.${REPORT_EXTENSIONS[format]}`);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(renderReport(report, format), 'utf8'));
+            written.push(uri);
+        }
+        this.log(`[report] Wrote ${written.map(u => u.fsPath).join(', ')}`);
 
-        const cwd = ws.uri.fsPath;
-        const originalBranch = this.gitExec('git rev-parse --abbrev-ref HEAD', cwd) || 'unknown';
-        this.jobs[jobIdx] = { ...this.jobs[jobIdx], originalBranch };
+        const open = await vscode.window.showInformationMessage(
+            `Agent Loop Runner: exported ${written.length} report file(s) to ${path.relative(ws.uri.fsPath, dir.fsPath)}`,
+            'Open'
+        );
+        if (open) {
+            await vscode.commands.executeCommand('vscode.open', written[0]);
+        }
     }
 
-    /**
-     * Branch guard: if the agent switched branches in the main directory, snap back.
-     * Called periodically during the poll loop.
-     */
-    private guardBranch(jobIdx: number): void {
-        const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
+    // ─── Run History ───────────────────────────────────────────────────
 
-        const cfg = this.getConfig();
-        if (!cfg.enableWorktree) return;
-
-        const job = this.jobs[jobIdx];
-        if (!job.originalBranch || job.originalBranch === 'unknown') return;
+    private async listDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        try {
+            return await vscode.workspace.fs.readDirectory(uri);
+        } catch {
+            return [];
+        }
+    }
 
-        const cwd = ws.uri.fsPath;
-        const current = this.gitExec('git rev-parse --abbrev-ref HEAD', cwd);
-        if (current && current !== job.originalBranch) {
-            this.log(`[worktree] Branch drifted to '${current}', restoring '${job.originalBranch}'`);
-            this.gitExec(`git checkout "${job.originalBranch}"`, cwd);
+    private async readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const data = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(data).toString('utf8');
+        } catch {
+            return undefined;
         }
     }
 
     /**
-     * After AGENT_STATUS: PASS, create a fresh worktree, copy agent-created
-     * files from the main workspace into it, commit, push, create a PR,
-     * then clean up both the worktree and the agent files from the main dir.
-     *
-     * The worktree is created HERE (not before the agent run) so the agent
-     * never sees it and can't push an empty branch.
+     * Lists every past run found under PROMPTS_ROOT / STATUS_ROOT, newest first,
+     * with PASS/FAIL tallies parsed from the status files.
      */
-    private async commitPushAndCreatePR(jobIdx: number): Promise<void> {
+    private async listRunHistory(): Promise<RunHistorySummary[]> {
         const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
-
-        const cfg = this.getConfig();
-        if (!cfg.enableWorktree) return;
-
-        const cwd = ws.uri.fsPath;
-        const job = this.jobs[jobIdx];
-        const featureName = job.featureName || `${job.runId}-${job.indexLabel}`;
+        if (!ws) return [];
 
-        // ── Step 0: Create the worktree now (agent is finished) ──
-        this.createWorktreeForJob(jobIdx);
-
-        // Re-read job after createWorktreeForJob mutated it
-        const updatedJob = this.jobs[jobIdx];
-        if (!updatedJob.worktreePath || !updatedJob.worktreeBranch) {
-            this.log(`[worktree] Worktree creation failed for job ${job.indexLabel}, skipping commit.`);
-            return;
+        const runIds = new Set<string>();
+        for (const root of [PROMPTS_ROOT, STATUS_ROOT, RUNS_ROOT]) {
+            for (const [name, type] of await this.listDirectory(vscode.Uri.joinPath(ws.uri, root))) {
+                if (type === vscode.FileType.Directory) runIds.add(name);
+            }
         }
 
-        const wt = updatedJob.worktreePath;
-
-        try {
-            // ── Step 1: Copy new/modified files from main workspace → worktree ──
-            const copied = this.copyNewFilesToWorktree(cwd, wt, featureName);
-            this.log(`[worktree] Copied ${copied} file(s) from main workspace to worktree for job ${job.indexLabel}`);
+        const out: RunHistorySummary[] = [];
+        for (const runId of [...runIds].sort().reverse()) {
+            const jobs = await this.getRunHistoryDetail(runId);
+            const manifest = await this.orchestrator.readRunManifest(runId);
+            out.push({
+                runId,
+                startedAt: manifest?.startedAt || parseRunIdTimestamp(runId),
+                urlCount: jobs.length,
+                pass: jobs.filter(j => j.agentStatus === 'PASS').length,
+                fail: jobs.filter(j => j.agentStatus === 'FAIL').length,
+                pending: jobs.filter(j => !j.agentStatus).length,
+            });
+        }
+        return out;
+    }
 
-            if (copied === 0) {
-                this.log(`[worktree] No files to copy for job ${job.indexLabel}, skipping commit.`);
-                return;
+    /**
+     * Collects per-job prompts (one per attempt), status file content and the
+     * produced spec for a past run. The run manifest is used when present;
+     * older runs fall back to the URL header in the first prompt file.
+     */
+    private async getRunHistoryDetail(runId: string): Promise<RunHistoryJob[]> {
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        if (!ws) return [];
+
+        const manifest = await this.orchestrator.readRunManifest(runId);
+        const byItem = new Map<string, RunHistoryJob>();
+        const getEntry = (item: string) => {
+            let entry = byItem.get(item);
+            if (!entry) {
+                entry = { item, prompts: [] };
+                byItem.set(item, entry);
             }
+            return entry;
+        };
 
-            // ── Step 2: Stage files in the worktree ──
-            const addGlob = cfg.commitGlob.endsWith('/')
-                ? `${cfg.commitGlob}${featureName}/`
-                : cfg.commitGlob;
+        for (const job of manifest?.jobs ?? []) {
+            const entry = getEntry(job.indexLabel);
+            entry.url = job.url;
+            entry.featureName = job.featureName;
+            entry.specFile = job.specFile;
+        }
 
-            // Try specific glob first, fall back to git add -A for any new files
-            const addResult = this.gitExec(`git add "${addGlob}"`, wt);
-            if (addResult === undefined) {
-                this.gitExec('git add -A', wt);
-            }
+        // Prompts: <Item>.prompt.md for attempt 1, <Item>-attempt<N>.prompt.md after
+        const promptsDir = vscode.Uri.joinPath(ws.uri, PROMPTS_ROOT, runId);
+        for (const [name] of await this.listDirectory(promptsDir)) {
+            const m = name.match(/^(\d+)(?:-attempt(\d+))?\.prompt\.md$/i);
+            if (!m) continue;
+            getEntry(m[1]).prompts.push({
+                attempt: m[2] ? Number(m[2]) : 1,
+                path: vscode.Uri.joinPath(promptsDir, name).fsPath,
+            });
+        }
 
-            // Check if there's anything to commit
-            const diff = this.gitExec('git diff --cached --name-only', wt);
-            if (!diff) {
-                this.log(`[worktree] No staged changes in worktree for job ${job.indexLabel}, skipping commit.`);
-                return;
-            }
+        const statusDir = vscode.Uri.joinPath(ws.uri, STATUS_ROOT, runId);
+        for (const [name] of await this.listDirectory(statusDir)) {
+            const m = name.match(/^(\d+)\.status\.md$/i);
+            if (!m) continue;
+            const statusUri = vscode.Uri.joinPath(statusDir, name);
+            const content = await this.readTextFile(statusUri);
+            if (content === undefined) continue;
+
+            const markers = parseStatusFile(content);
+            const entry = getEntry(m[1]);
+            entry.statusPath = statusUri.fsPath;
+            entry.statusContent = content;
+            entry.agentStatus = markers.agentStatus;
+            entry.featureName = markers.featureName || entry.featureName;
+            entry.specFile = markers.specPath || entry.specFile;
+        }
 
-            this.log(`[worktree] Staged files:\n${diff}`);
-
-            // ── Step 3: Commit ──
-            const commitMsg = `test(playwright): add ${featureName} spec [AgentLoop ${job.runId}/${job.indexLabel}]`;
-            this.gitExec(`git commit -m "${commitMsg}"`, wt);
-
-            // ── Step 4: Push ──
-            this.gitExec(`git push -u origin "${updatedJob.worktreeBranch}"`, wt);
-            this.log(`[worktree] Pushed ${updatedJob.worktreeBranch}`);
-
-            // ── Step 5: Create PR (if configured) ──
-            if (cfg.prCreateCommand) {
-                const prCmd = cfg.prCreateCommand
-                    .replace(/\{FeatureName\}/gi, featureName)
-                    .replace(/\{RunId\}/gi, job.runId)
-                    .replace(/\{Item\}/gi, job.indexLabel);
-                const prResult = this.gitExec(prCmd, wt);
-                if (prResult !== undefined) {
-                    this.log(`[worktree] PR created: ${prResult}`);
-                } else {
-                    this.log(`[worktree] PR creation command failed (non-fatal).`);
-                }
+        for (const entry of byItem.values()) {
+            entry.prompts.sort((a, b) => a.attempt - b.attempt);
+            if (!entry.url && entry.prompts.length) {
+                const text = await this.readTextFile(vscode.Uri.file(entry.prompts[0].path));
+                entry.url = text?.match(/^URL:\s*(.+)$/m)?.[1].trim();
             }
-
-            // ── Step 6: Clean up agent files from main workspace ──
-            this.cleanAgentFilesFromMain(cwd, featureName);
-        } finally {
-            // ── Always clean up the worktree ──
-            this.cleanupWorktree(jobIdx);
         }
+
+        return [...byItem.values()].sort((a, b) => a.item.localeCompare(b.item));
     }
 
     /**
-     * Detects new/modified files in the main workspace via `git status`
-     * and copies them to the equivalent relative path inside the worktree.
-     * Skips .agent-loop-runner/ artefacts (status & progress files must stay
-     * in the main workspace for the extension's file watchers).
-     * Returns the number of files copied.
+     * Resolves a path sent from the webview, accepting absolute paths inside
+     * the workspace and workspace-relative paths (as written in SpecPath).
      */
-    private copyNewFilesToWorktree(cwd: string, worktreePath: string, _featureName: string): number {
-        const status = this.gitExec('git status --porcelain', cwd);
-        if (!status) return 0;
-
-        let copied = 0;
-        const lines = status.split('\n').filter(Boolean);
-        for (const line of lines) {
-            // git status --porcelain format: XY <path>
-            const code = line.substring(0, 2);
-            let relPath = line.substring(3).trim();
-
-            // Handle renamed files ("R  old -> new")
-            if (relPath.includes(' -> ')) {
-                relPath = relPath.split(' -> ')[1].trim();
-            }
+    private resolveWorkspaceFile(p: string): vscode.Uri | undefined {
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        if (!ws || !p) return undefined;
 
-            // Skip agent-loop-runner internal artefacts
-            if (relPath.startsWith('.agent-loop-runner/')) continue;
-            if (relPath.startsWith('.agent-loop/')) continue;
-            // Skip agent definition files
-            if (relPath.startsWith('.github/agents/')) continue;
+        const abs = resolveInside(ws.uri.fsPath, p);
+        return abs ? vscode.Uri.file(abs) : undefined;
+    }
 
-            // Only copy untracked (?), modified (M), or added (A) files
-            if (!code.includes('?') && !code.includes('M') && !code.includes('A')) continue;
+    // ─── Chat ──────────────────────────────────────────────────────────
 
-            const srcAbs = path.join(cwd, relPath);
-            const destAbs = path.join(worktreePath, relPath);
+    /**
+     * The chat executor for a job: sends the prompt to Copilot Chat and relies
+     * on the status file alone to know when the attempt is over.
+     */
+    private chatExecutor(jobIdx: number): JobExecutor {
+        return {
+            kind: 'chat',
+            start: async req => {
+                await this.sendPromptToChat(jobIdx, vscode.Uri.file(req.promptPath), req.agent);
+                return { cancel: () => this.cancelJobChat(jobIdx), nudge: text => this.nudgeJobChat(jobIdx, text) };
+            },
+        };
+    }
 
-            try {
-                // Ensure destination directory exists
-                fs.mkdirSync(path.dirname(destAbs), { recursive: true });
-                fs.copyFileSync(srcAbs, destAbs);
-                copied++;
-            } catch (err) {
-                this.log(`[worktree] Failed to copy ${relPath}: ${err}`);
+    /**
+     * Sends a job's prompt to chat. Chat UI automation is serialized across
+     * jobs; in concurrent mode the new session is then moved into its own
+     * editor tab so the chat view is free for the next job and the tab can be
+     * focused later to cancel exactly this session.
+     */
+    private async sendPromptToChat(jobIdx: number, promptUri: vscode.Uri, agent: string) {
+        const run = this.chatLock.then(async () => {
+            await this.submitPromptToChat(promptUri, agent);
+            if (this.orchestrator.state.jobs[jobIdx]?.worktreeIsolated) {
+                await this.moveChatToEditor(jobIdx);
             }
-        }
+        });
+        // Keep the lock chain alive even if this submit fails
+        this.chatLock = run.catch(() => undefined);
+        await run;
+    }
 
-        return copied;
+    private async moveChatToEditor(jobIdx: number) {
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.openInEditor');
+            await delay(400);
+            const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
+            if (tab) this.chatTabs.set(jobIdx, tab);
+        } catch {
+            this.log(`[chat] Could not move chat for job ${this.orchestrator.state.jobs[jobIdx]?.indexLabel} into an editor; cancel will target the focused chat.`);
+        }
     }
 
     /**
-     * After committing to the worktree, clean up the files the agent created
-     * in the main workspace so the next job starts fresh.
+     * Cancels the chat response for one job. When the job has its own chat
+     * editor tab, that tab is focused first so `workbench.action.chat.cancel`
+     * stops this session rather than whichever chat happens to be focused.
      */
-    private cleanAgentFilesFromMain(cwd: string, _featureName: string): void {
-        const status = this.gitExec('git status --porcelain', cwd);
-        if (!status) return;
-
-        const lines = status.split('\n').filter(Boolean);
-        for (const line of lines) {
-            const code = line.substring(0, 2);
-            let relPath = line.substring(3).trim();
-            if (relPath.includes(' -> ')) {
-                relPath = relPath.split(' -> ')[1].trim();
+    private async cancelJobChat(jobIdx: number) {
+        const tab = this.chatTabs.get(jobIdx);
+        if (tab) {
+            await this.chatLock;
+            const focused = await this.focusTab(tab);
+            if (!focused) {
+                this.log(`[chat] Chat tab for job ${this.orchestrator.state.jobs[jobIdx]?.indexLabel} is gone; nothing to cancel.`);
+                return;
             }
+        }
 
-            // Only clean test artefact files — leave .agent-loop-runner/ etc.
-            if (relPath.startsWith('.agent-loop-runner/')) continue;
-            if (relPath.startsWith('.agent-loop/')) continue;
-            if (relPath.startsWith('.github/agents/')) continue;
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.cancel');
+        } catch {
+            // Best-effort
+        }
+    }
 
-            const absPath = path.join(cwd, relPath);
+    /**
+     * Sends a follow-up message into a job's existing chat session (a stall
+     * nudge). Like cancel, a job with its own chat editor tab has that tab
+     * focused first; otherwise the message goes to the chat view.
+     */
+    private async nudgeJobChat(jobIdx: number, text: string) {
+        const run = this.chatLock.then(async () => {
+            const tab = this.chatTabs.get(jobIdx);
+            if (tab && !(await this.focusTab(tab))) throw new Error('its chat tab is gone');
+            await vscode.commands.executeCommand('workbench.action.chat.open', { query: text, isPartialQuery: false });
+        });
+        this.chatLock = run.catch(() => undefined);
+        await run;
+    }
 
-            if (code.includes('?')) {
-                // Untracked file — delete it
-                try { fs.unlinkSync(absPath); } catch { /* ignore */ }
-            } else if (code.includes('M')) {
-                // Modified tracked file — restore original
-                this.gitExec(`git checkout -- "${relPath}"`, cwd);
+    private async focusTab(tab: vscode.Tab): Promise<boolean> {
+        const groupCommands = [
+            'workbench.action.focusFirstEditorGroup',
+            'workbench.action.focusSecondEditorGroup',
+            'workbench.action.focusThirdEditorGroup',
+            'workbench.action.focusFourthEditorGroup',
+            'workbench.action.focusFifthEditorGroup',
+            'workbench.action.focusSixthEditorGroup',
+            'workbench.action.focusSeventhEditorGroup',
+            'workbench.action.focusEighthEditorGroup',
+        ];
+
+        for (const group of vscode.window.tabGroups.all) {
+            const index = group.tabs.indexOf(tab);
+            if (index < 0) continue;
+            try {
+                const focusGroup = groupCommands[group.viewColumn - 1];
+                if (focusGroup) await vscode.commands.executeCommand(focusGroup);
+                await vscode.commands.executeCommand('workbench.action.openEditorAtIndex', index);
+                await delay(200);
+                return true;
+            } catch {
+                return false;
             }
         }
-
-        this.log(`[worktree] Cleaned agent files from main workspace.`);
+        return false;
     }
 
     /**
-     * Removes the worktree and ensures the main working directory is on the original branch.
+     * Submits the prompt to the VS Code chat panel, with the attempt's custom
+     * agent selected as the active chat mode.
+     *
+     * `workbench.action.chat.open` accepts a `mode` parameter that maps to
+     * a custom agent name (from `.github/agents/<name>.agent.md`).  Passing
+     * `mode: 'PlaywrightLoopPlanning'` selects that agent directly — no @mention
+     * needed.  The command also accepts `isPartialQuery: false` to auto-submit.
      */
-    private cleanupWorktree(jobIdx: number): void {
+    private async submitPromptToChat(promptUri: vscode.Uri, agent: string) {
         const ws = vscode.workspace.workspaceFolders?.[0];
-        if (!ws) return;
+        if (!ws) throw new Error('No workspace folder open.');
 
-        const cfg = this.getConfig();
-        if (!cfg.enableWorktree) return;
+        // Read the generated prompt file content
+        const data = await vscode.workspace.fs.readFile(promptUri);
+        const promptText = Buffer.from(data).toString('utf8');
 
-        const job = this.jobs[jobIdx];
-        const cwd = ws.uri.fsPath;
+        // Strip the YAML front matter — the chat panel doesn't use it
+        const body = stripFrontMatter(promptText).trim();
 
-        // Restore original branch if drifted
-        if (job.originalBranch && job.originalBranch !== 'unknown') {
-            const current = this.gitExec('git rev-parse --abbrev-ref HEAD', cwd);
-            if (current && current !== job.originalBranch) {
-                this.gitExec(`git checkout "${job.originalBranch}"`, cwd);
-            }
+        // Use the custom agent name as the chat mode, falling back to 'agent'
+        const chatMode = agent || 'agent';
+
+        // Always open a NEW chat session first so each URL gets its own window.
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.newChat');
+            await delay(400);
+        } catch {
+            // Best-effort — newChat may not exist in some builds
+        }
+
+        // ── Approach 1 ── auto-submit with custom agent selected via `mode` ──
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', {
+                query: body,
+                isPartialQuery: false,
+                mode: chatMode,
+            });
+            return;
+        } catch {
+            // Fall through — mode name might not resolve
         }
 
-        // Remove the worktree
-        if (job.worktreePath) {
-            this.gitExec(`git worktree remove "${job.worktreePath}" --force`, cwd);
-            this.log(`[worktree] Removed worktree ${job.worktreePath}`);
+        // ── Approach 2 ── fill + manual submit (for older VS Code builds) ──
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', {
+                query: body,
+                isPartialQuery: true,
+                mode: chatMode,
+            });
+            await delay(400);
+            await vscode.commands.executeCommand('workbench.action.chat.acceptInput');
+            return;
+        } catch {
+            // Fall through
+        }
+
+        // ── Approach 3 ── generic agent mode (no custom agent) ──
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', {
+                query: body,
+                isPartialQuery: false,
+                mode: 'agent',
+            });
+            return;
+        } catch {
+            // Fall through
         }
+
+        throw new Error(
+            'Failed to send prompt to chat. None of the known VS Code chat commands worked. ' +
+                'Make sure you are running VS Code 1.95+ with GitHub Copilot Chat enabled.'
+        );
     }
 
     private log(msg: string) {
@@ -1212,13 +1064,23 @@ ${gitBlock}
     private static _outputChannel?: vscode.OutputChannel;
 
     private postState() {
+        if (this.disposed) return;
+
+        const { running, runId, jobs, queuedCount } = this.orchestrator.state;
         this.panel.webview.postMessage({
             type: 'state',
-            running: this.running,
-            runId: this.runId,
+            running,
+            runId,
             config: this.getConfig(),
-            jobs: this.jobs,
-            queuedCount: this.queue.length,
+            jobs,
+            queuedCount,
+            resumable: this.resumable
+                ? {
+                      runId: this.resumable.runId,
+                      total: this.resumable.jobs.length,
+                      remaining: this.resumable.jobs.filter(j => !isJobFinished(j)).length,
+                  }
+                : undefined,
         });
     }
 
@@ -1238,6 +1100,9 @@ ${gitBlock}
     th { font-weight: 600; }
     .badge { display: inline-block; padding: 2px 8px; border-radius: 999px; border: 1px solid rgba(127,127,127,0.35); font-size: 12px; }
     .actions button { margin-right: 6px; }
+    .status-error { color: var(--vscode-errorForeground, #f14c4c); font-size: 12px; margin-top: 4px; }
+    .progress-bar { width: 140px; height: 4px; margin-top: 4px; border-radius: 2px; background: rgba(127,127,127,0.25); }
+    .progress-bar > div { height: 100%; border-radius: 2px; background: var(--vscode-progressBar-background, #0e70c0); }
     .mono { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; font-size: 12px; }
 
     /* Paired input rows */
@@ -1247,9 +1112,14 @@ ${gitBlock}
     .input-row input.url-field { flex: 1; padding: 5px 8px; font-size: 13px; font-family: inherit; }
     .input-row textarea.prompt-field { flex: 1; padding: 5px 8px; font-size: 12px; font-family: inherit; height: 32px; resize: vertical; }
     .input-row button.remove-btn { padding: 4px 8px; font-size: 12px; }
+    .input-row .row-meta { min-width: 0; padding-top: 6px; font-size: 11px; opacity: 0.8; }
+    .input-row select.template-field { width: 160px; padding: 4px; font-size: 12px; }
+    .input-row .row-vars { display: flex; flex-direction: column; gap: 2px; }
+    .input-row .row-vars input { width: 140px; padding: 3px 6px; font-size: 12px; }
     .input-header { display: flex; gap: 8px; align-items: center; margin-bottom: 4px; font-weight: 600; font-size: 13px; }
     .input-header .hdr-num { min-width: 24px; text-align: right; }
     .input-header .hdr-url { flex: 1; }
+    .input-header .hdr-template { width: 160px; }
     .input-header .hdr-prompt { flex: 1; }
     .input-header .hdr-remove { min-width: 58px; }
   </style>
@@ -1259,28 +1129,66 @@ ${gitBlock}
 
   <div class="muted">
     Add URL + optional custom prompt pairs below. Empty prompt fields use the built-in default prompt.
+    Pick a template to use a prompt from <span class="mono">.agent-loop-runner/templates/</span> instead.
   </div>
 
   <div class="row">
     <button id="run">Run</button>
+    <button id="dryRun" title="Render the prompts and check agents and globs without contacting the agent or running git">Dry run</button>
     <button id="stop">Stop</button>
+    <button id="resume" style="display:none;">Resume run</button>
+    <button id="exportReport" title="Export the current run as JSON, Markdown or JUnit XML">Export report</button>
     <label style="margin-left:12px;font-size:13px;">Attempts for all:
       <input type="number" id="globalAttempts" min="1" max="20" value="3" style="width:48px;text-align:center;" />
     </label>
     <button id="applyAttempts">Apply</button>
     <span style="margin-left:12px;"><button id="addRow">+ Add Row</button></span>
+    <button id="importFile" title="Import URLs from a CSV, TSV, JSON or Markdown file">Import…</button>
     <span class="muted" id="summary"></span>
   </div>
 
   <div class="input-header">
     <span class="hdr-num">#</span>
     <span class="hdr-url">URL (required)</span>
+    <span class="hdr-template">Template</span>
     <span class="hdr-prompt">Custom Prompt (optional)</span>
     <span class="hdr-remove"></span>
   </div>
   <div id="inputRows"></div>
 
   <div class="row muted" id="validation"></div>
+  <div id="preflight" style="display:none;margin:6px 0;"></div>
+
+  <div id="dryRunPreview" style="display:none;margin:10px 0;">
+    <div class="row">
+      <strong id="dryRunTitle"></strong>
+      <button id="dryRunClose">Close</button>
+    </div>
+    <div id="dryRunChecks"></div>
+    <div id="dryRunPrompts"></div>
+  </div>
+
+  <div id="importPreview" style="display:none;margin:10px 0;">
+    <div class="row">
+      <strong id="importTitle"></strong>
+      <button id="importLoad">Load valid rows</button>
+      <button id="importCancel">Cancel</button>
+    </div>
+    <div class="muted" id="importErrors"></div>
+    <table>
+      <thead>
+        <tr>
+          <th>Line</th>
+          <th>URL</th>
+          <th>Prompt</th>
+          <th>Max loops</th>
+          <th>Extra columns</th>
+          <th>Valid</th>
+        </tr>
+      </thead>
+      <tbody id="importBody"></tbody>
+    </table>
+  </div>
 
   <details style="margin: 10px 0;">
     <summary style="cursor:pointer;font-size:13px;font-weight:600;">File Watcher Globs</summary>
@@ -1298,6 +1206,26 @@ ${gitBlock}
     </div>
   </details>
 
+  <details id="historySection" style="margin: 10px 0;">
+    <summary style="cursor:pointer;font-size:13px;font-weight:600;">Run History</summary>
+    <div class="row"><button id="refreshHistory">Refresh</button></div>
+    <table>
+      <thead>
+        <tr>
+          <th>RunId</th>
+          <th>Started</th>
+          <th>URLs</th>
+          <th>PASS</th>
+          <th>FAIL</th>
+          <th>Pending</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody id="historyBody"></tbody>
+    </table>
+    <div id="historyDetail"></div>
+  </details>
+
   <table>
     <thead>
       <tr>
@@ -1321,8 +1249,11 @@ ${gitBlock}
 
   const elRun = document.getElementById('run');
   const elStop = document.getElementById('stop');
+  const elResume = document.getElementById('resume');
+  const elExportReport = document.getElementById('exportReport');
   const elTbody = document.getElementById('tbody');
   const elValidation = document.getElementById('validation');
+  const elPreflight = document.getElementById('preflight');
   const elSummary = document.getElementById('summary');
   const elGlobalAttempts = document.getElementById('globalAttempts');
   const elApplyAttempts = document.getElementById('applyAttempts');
@@ -1332,29 +1263,106 @@ ${gitBlock}
   const elGlobSpec = document.getElementById('globSpec');
   const elGlobReq = document.getElementById('globReq');
   const elApplyGlobs = document.getElementById('applyGlobs');
+  const elDryRun = document.getElementById('dryRun');
+  const elDryRunPreview = document.getElementById('dryRunPreview');
+  const elDryRunTitle = document.getElementById('dryRunTitle');
+  const elDryRunChecks = document.getElementById('dryRunChecks');
+  const elDryRunPrompts = document.getElementById('dryRunPrompts');
+  const elDryRunClose = document.getElementById('dryRunClose');
+  let dryRunPrompts = [];
+  const elImportFile = document.getElementById('importFile');
+  const elImportPreview = document.getElementById('importPreview');
+  const elImportTitle = document.getElementById('importTitle');
+  const elImportErrors = document.getElementById('importErrors');
+  const elImportBody = document.getElementById('importBody');
+  const elImportLoad = document.getElementById('importLoad');
+  const elImportCancel = document.getElementById('importCancel');
+  let importRows = [];
+  let templates = [];
+
+  const elHistorySection = document.getElementById('historySection');
+  const elRefreshHistory = document.getElementById('refreshHistory');
+  const elHistoryBody = document.getElementById('historyBody');
+  const elHistoryDetail = document.getElementById('historyDetail');
 
   // Track user edits so state sync doesn't overwrite in-progress typing
   [elGlobProgress, elGlobSpec, elGlobReq].forEach(function(el) {
     el.addEventListener('input', function() { el.dataset.touched = '1'; });
   });
 
-  function addRow(url, prompt) {
+  function addRow(url, prompt, extra) {
     rowCount++;
     const idx = rowCount;
     const div = document.createElement('div');
     div.className = 'input-row';
     div.dataset.rowId = String(idx);
+
+    // Imported rows carry per-row max loops and extra template vars
+    const maxLoops = extra && extra.maxLoops;
+    const vars = extra && extra.vars && Object.keys(extra.vars).length ? extra.vars : undefined;
+    if (maxLoops) div.dataset.maxLoops = String(maxLoops);
+    if (vars) div.dataset.vars = JSON.stringify(vars);
+    const meta = [
+      maxLoops ? maxLoops + ' loops' : '',
+      vars ? Object.keys(vars).map(k => '{{' + k + '}}').join(' ') : ''
+    ].filter(Boolean).join(' \u2022 ');
+
     div.innerHTML = '<span class="row-num">' + idx + '</span>' +
       '<input class="url-field" type="text" placeholder="https://portal.azure.com/..." value="' + escapeAttr(url || '') + '" />' +
+      '<select class="template-field"></select>' +
       '<textarea class="prompt-field" placeholder="Leave empty for base prompt\u2026">' + escapeHtml(prompt || '') + '</textarea>' +
+      '<span class="row-vars"></span>' +
+      (meta ? '<span class="row-meta mono">' + escapeHtml(meta) + '</span>' : '') +
       '<button class="remove-btn" title="Remove row">\u2715</button>';
     div.querySelector('.remove-btn').addEventListener('click', () => {
       div.remove();
       renumberRows();
     });
+    const select = div.querySelector('.template-field');
+    if (extra && extra.template) select.dataset.value = extra.template;
+    select.addEventListener('change', () => {
+      select.dataset.value = select.value;
+      updateRowTemplate(div);
+    });
+    fillTemplateSelect(select);
+    updateRowTemplate(div);
     elInputRows.appendChild(div);
   }
 
+  function fillTemplateSelect(select) {
+    const current = select.dataset.value || '';
+    select.innerHTML = '<option value="">(custom / default)</option>' + templates.map(t =>
+      '<option value="' + escapeAttr(t.id) + '" title="' + escapeAttr(t.description || '') + '">' +
+        escapeHtml(t.name) + (t.errors.length ? ' \u26a0' : '') +
+      '</option>'
+    ).join('');
+    // A template that disappeared stays selected so the run reports it
+    if (current && !templates.some(t => t.id === current)) {
+      select.innerHTML += '<option value="' + escapeAttr(current) + '">' + escapeHtml(current) + ' (missing)</option>';
+    }
+    select.value = current;
+  }
+
+  // Shows the selected template's description and an input per variable
+  function updateRowTemplate(row) {
+    const select = row.querySelector('.template-field');
+    const prompt = row.querySelector('.prompt-field');
+    const varsEl = row.querySelector('.row-vars');
+    const t = templates.find(t => t.id === select.value);
+
+    prompt.disabled = !!select.value || elInputRows.dataset.disabled === '1';
+    prompt.placeholder = t ? 'Using template: ' + (t.description || t.name) : 'Leave empty for base prompt\u2026';
+    prompt.title = t && t.agent ? 'Default agent: ' + t.agent : '';
+
+    const rowVars = row.dataset.vars ? JSON.parse(row.dataset.vars) : {};
+    const typed = {};
+    varsEl.querySelectorAll('input[data-var]').forEach(i => { typed[i.dataset.var] = i.value; });
+    varsEl.innerHTML = (t ? t.variables : []).map(v =>
+      '<input type="text" data-var="' + escapeAttr(v) + '" placeholder="' + escapeAttr(v) + '" title="{{' + escapeAttr(v) + '}}" value="' +
+        escapeAttr(typed[v] !== undefined ? typed[v] : (rowVars[v] || '')) + '" />'
+    ).join('');
+  }
+
   function renumberRows() {
     const rows = elInputRows.querySelectorAll('.input-row');
     rows.forEach((r, i) => {
@@ -1368,7 +1376,13 @@ ${gitBlock}
     rows.forEach(r => {
       const url = r.querySelector('.url-field').value.trim();
       const prompt = r.querySelector('.prompt-field').value.trim();
-      pairs.push({ url, prompt });
+      const maxLoops = r.dataset.maxLoops ? Number(r.dataset.maxLoops) : undefined;
+      const template = r.querySelector('.template-field').value || undefined;
+      let vars = r.dataset.vars ? JSON.parse(r.dataset.vars) : undefined;
+      r.querySelectorAll('.row-vars input[data-var]').forEach(i => {
+        if (i.value.trim()) vars = Object.assign(vars || {}, { [i.dataset.var]: i.value.trim() });
+      });
+      pairs.push({ url, prompt: template ? '' : prompt, template, maxLoops, vars });
     });
     return pairs;
   }
@@ -1377,17 +1391,67 @@ ${gitBlock}
     const rows = elInputRows.querySelectorAll('.input-row');
     rows.forEach(r => {
       r.querySelector('.url-field').disabled = disabled;
-      r.querySelector('.prompt-field').disabled = disabled;
+      r.querySelector('.prompt-field').disabled = disabled || !!r.querySelector('.template-field').value;
+      r.querySelector('.template-field').disabled = disabled;
+      r.querySelectorAll('.row-vars input').forEach(i => { i.disabled = disabled; });
       r.querySelector('.remove-btn').disabled = disabled;
     });
+    elInputRows.dataset.disabled = disabled ? '1' : '';
     elAddRow.disabled = disabled;
+    elImportFile.disabled = disabled;
   }
 
   // Seed default rows
   for (let i = 0; i < DEFAULT_ROWS; i++) addRow('', '');
+  vscode.postMessage({ type: 'listTemplates' });
 
   elAddRow.addEventListener('click', () => addRow('', ''));
 
+  elImportFile.addEventListener('click', () => vscode.postMessage({ type: 'importFile' }));
+
+  elImportCancel.addEventListener('click', () => {
+    importRows = [];
+    elImportPreview.style.display = 'none';
+  });
+
+  elImportLoad.addEventListener('click', () => {
+    // Replace blank seed rows, keep anything the user already typed
+    elInputRows.querySelectorAll('.input-row').forEach(r => {
+      if (!r.querySelector('.url-field').value.trim() && !r.querySelector('.prompt-field').value.trim()) r.remove();
+    });
+    for (const r of importRows.filter(r => r.valid)) {
+      // A "template" column picks the row's template instead of becoming a var
+      const vars = Object.assign({}, r.vars);
+      const templateKey = Object.keys(vars).find(k => k.toLowerCase() === 'template');
+      const template = templateKey ? vars[templateKey] : undefined;
+      if (templateKey) delete vars[templateKey];
+      addRow(r.url, r.prompt, { maxLoops: r.maxLoops, vars, template });
+    }
+    renumberRows();
+    importRows = [];
+    elImportPreview.style.display = 'none';
+  });
+
+  function renderImportPreview(msg) {
+    importRows = msg.rows || [];
+    const validCount = importRows.filter(r => r.valid).length;
+    elImportTitle.textContent = 'Import ' + msg.fileName + ' (' + msg.format + '): ' + validCount + '/' + importRows.length + ' valid';
+    elImportLoad.textContent = 'Load ' + validCount + ' valid row(s)';
+    elImportLoad.disabled = validCount === 0;
+    elImportErrors.innerHTML = (msg.errors || []).map(e => '<div>' + escapeHtml(e) + '</div>').join('');
+    elImportBody.innerHTML = importRows.map(r =>
+      '<tr>' +
+        '<td class="mono">' + r.line + '</td>' +
+        '<td class="mono">' + escapeHtml(r.url) + '</td>' +
+        '<td>' + escapeHtml(r.prompt.length > 80 ? r.prompt.slice(0, 80) + '\u2026' : r.prompt) + '</td>' +
+        '<td class="mono">' + (r.maxLoops || '') + '</td>' +
+        '<td class="mono">' + escapeHtml(Object.entries(r.vars || {}).map(([k, v]) => k + '=' + v).join(', ')) + '</td>' +
+        '<td>' + (r.valid ? '\u2713' : '<span title="' + escapeAttr(r.error || '') + '">\u2715 ' + escapeHtml(r.error || '') + '</span>') + '</td>' +
+      '</tr>'
+    ).join('');
+    elImportPreview.style.display = '';
+  }
+
   elRun.addEventListener('click', () => {
     const pairs = getInputPairs();
     // Validate: at least one non-empty URL
@@ -1408,6 +1472,107 @@ ${gitBlock}
 
   elStop.addEventListener('click', () => vscode.postMessage({ type: 'stop' }));
 
+  elDryRun.addEventListener('click', () => {
+    const pairs = getInputPairs().filter(p => p.url.length > 0);
+    if (pairs.length === 0) {
+      elValidation.textContent = 'Please enter at least one URL.';
+      return;
+    }
+    elValidation.textContent = '';
+    vscode.postMessage({ type: 'dryRun', pairs });
+  });
+
+  elDryRunClose.addEventListener('click', () => {
+    dryRunPrompts = [];
+    elDryRunPreview.style.display = 'none';
+  });
+
+  elDryRunPrompts.addEventListener('click', (e) => {
+    const btn = e.target.closest('button');
+    if (!btn) return;
+    const p = dryRunPrompts[Number(btn.dataset.index)];
+    if (!p) return;
+    if (btn.dataset.action === 'open') {
+      vscode.postMessage({ type: 'openFile', path: p.promptPath });
+    } else if (btn.dataset.action === 'edit') {
+      editRowPrompt(p);
+    }
+  });
+
+  // "Edit before run": the row gets the prompt as its own custom text, so
+  // the edit is what the run sends. Template variables typed so far are kept.
+  function editRowPrompt(p) {
+    const row = Array.from(elInputRows.querySelectorAll('.input-row')).find(r => r.querySelector('.url-field').value.trim() === p.url);
+    if (!row) return;
+    const select = row.querySelector('.template-field');
+    if (select.value) {
+      const vars = row.dataset.vars ? JSON.parse(row.dataset.vars) : {};
+      row.querySelectorAll('.row-vars input[data-var]').forEach(i => { if (i.value.trim()) vars[i.dataset.var] = i.value.trim(); });
+      if (Object.keys(vars).length) row.dataset.vars = JSON.stringify(vars);
+      select.value = '';
+      select.dataset.value = '';
+      updateRowTemplate(row);
+    }
+    const prompt = row.querySelector('.prompt-field');
+    if (!prompt.value.trim()) prompt.value = p.body;
+    prompt.focus();
+    prompt.scrollIntoView({ block: 'center' });
+  }
+
+  // Pass/warn/fail checklist from the last Run; a blocked run didn't start
+  function renderPreflight(checks, blocked) {
+    const icon = { pass: '\u2713', warn: '\u26a0', fail: '\u2715' };
+    const failed = checks.filter(c => c.status === 'fail').length;
+    const warned = checks.filter(c => c.status === 'warn').length;
+    elPreflight.innerHTML =
+      '<details' + (failed || warned ? ' open' : '') + '><summary class="' + (blocked ? 'status-error' : 'muted') + '" style="cursor:pointer;">Preflight: ' +
+        (blocked ? 'run not started, ' : '') + failed + ' failed, ' + warned + ' warning(s), ' + (checks.length - failed - warned) + ' passed</summary>' +
+      checks.map(c =>
+        '<div class="' + (c.status === 'fail' ? 'status-error' : 'muted') + '">' + icon[c.status] + ' <strong>' + escapeHtml(c.name) + '</strong> \u2014 ' + escapeHtml(c.detail) + '</div>'
+      ).join('') +
+      '</details>';
+    elPreflight.style.display = '';
+  }
+
+  function renderDryRun(msg) {
+    dryRunPrompts = msg.prompts || [];
+    const problems = msg.problems || [];
+    const missing = (msg.agents || []).filter(a => !a.exists);
+    elDryRunTitle.textContent = 'Dry run: ' + dryRunPrompts.length + ' prompt(s)' +
+      (problems.length || missing.length ? ', ' + (problems.length + missing.length) + ' problem(s)' : ', no problems') +
+      ' \u2014 nothing was sent and git was not run';
+
+    const checks = [];
+    problems.forEach(p => checks.push('<div class="status-error">' + escapeHtml(p) + '</div>'));
+    (msg.agents || []).forEach(a => checks.push(a.exists
+      ? '<div class="muted">\u2713 agent ' + escapeHtml(a.name) + ' (' + escapeHtml(a.file) + ')</div>'
+      : '<div class="status-error">\u2715 agent ' + escapeHtml(a.name) + ': ' + escapeHtml(a.file) + ' not found' +
+          (msg.executor === 'chat' ? '' : ' (only chat uses it)') + '</div>'));
+    (msg.globs || []).forEach(g => checks.push(
+      '<div class="muted" title="' + escapeAttr(g.samples.join('\\n')) + '">' + escapeHtml(g.setting) + ' <span class="mono">' + escapeHtml(g.glob) + '</span> matches ' +
+        (g.count >= msg.globLimit ? g.count + '+' : g.count) + ' existing file(s)' +
+        (g.samples.length ? ': <span class="mono">' + escapeHtml(g.samples.join(', ')) + (g.count > g.samples.length ? ', \u2026' : '') + '</span>' : '') +
+      '</div>'));
+    elDryRunChecks.innerHTML = checks.join('');
+
+    elDryRunPrompts.innerHTML = dryRunPrompts.map((p, i) =>
+      '<details><summary class="mono" style="cursor:pointer;">' + escapeHtml(p.indexLabel + '  ' + p.url + '  \u2192 ' + p.agent + (p.stage ? ' (' + p.stage + ')' : '') + (p.template ? ' [' + p.template + ']' : '')) + '</summary>' +
+        '<div class="row">' +
+          '<button data-action="edit" data-index="' + i + '" title="Copy the prompt into the Custom Prompt field of this row to edit it before running">Edit before run</button>' +
+          '<button data-action="open" data-index="' + i + '">Open rendered file</button>' +
+        '</div>' +
+        '<pre class="mono">' + escapeHtml(p.text) + '</pre>' +
+      '</details>'
+    ).join('');
+    elDryRunPreview.style.display = '';
+  }
+
+  elExportReport.addEventListener('click', () => vscode.postMessage({ type: 'exportReport' }));
+
+  elResume.addEventListener('click', () => {
+    if (elResume.dataset.runId) vscode.postMessage({ type: 'resumeRun', runId: elResume.dataset.runId });
+  });
+
   elApplyAttempts.addEventListener('click', () => {
     const val = parseInt(elGlobalAttempts.value, 10);
     if (val >= 1 && val <= 20) {
@@ -1426,6 +1591,11 @@ ${gitBlock}
     });
   });
 
+  elHistorySection.addEventListener('toggle', () => {
+    if (elHistorySection.open) vscode.postMessage({ type: 'listHistory' });
+  });
+  elRefreshHistory.addEventListener('click', () => vscode.postMessage({ type: 'listHistory' }));
+
   window.addEventListener('message', (event) => {
     const msg = event.data;
     if (!msg) return;
@@ -1434,8 +1604,116 @@ ${gitBlock}
       render(msg);
       return;
     }
+
+    if (msg.type === 'templates') {
+      templates = msg.templates || [];
+      elInputRows.querySelectorAll('.input-row').forEach(r => {
+        fillTemplateSelect(r.querySelector('.template-field'));
+        updateRowTemplate(r);
+      });
+      return;
+    }
+
+    if (msg.type === 'templateProblems') {
+      elValidation.innerHTML = '<div class="status-error">Fix these before running:<br>' +
+        (msg.problems || []).map(escapeHtml).join('<br>') + '</div>';
+      return;
+    }
+
+    if (msg.type === 'preflight') {
+      renderPreflight(msg.checks || [], msg.blocked);
+      return;
+    }
+
+    if (msg.type === 'dryRun') {
+      renderDryRun(msg);
+      return;
+    }
+
+    if (msg.type === 'importPreview') {
+      renderImportPreview(msg);
+      return;
+    }
+
+    if (msg.type === 'history') {
+      renderHistory(msg.runs || []);
+      return;
+    }
+
+    if (msg.type === 'historyDetail') {
+      renderHistoryDetail(msg.runId, msg.jobs || []);
+      return;
+    }
   });
 
+  function renderHistory(runs) {
+    elHistoryBody.innerHTML = '';
+    if (!runs.length) {
+      elHistoryBody.innerHTML = '<tr><td colspan="7" class="muted">No past runs found.</td></tr>';
+      return;
+    }
+    for (const r of runs) {
+      const tr = document.createElement('tr');
+      tr.innerHTML = \`
+        <td class="mono">\${escapeHtml(r.runId)}</td>
+        <td>\${r.startedAt ? escapeHtml(new Date(r.startedAt).toLocaleString()) : ''}</td>
+        <td class="mono">\${r.urlCount}</td>
+        <td class="mono">\${r.pass}</td>
+        <td class="mono">\${r.fail}</td>
+        <td class="mono">\${r.pending}</td>
+        <td class="actions"><button data-history-run="\${escapeAttr(r.runId)}">Details</button></td>
+      \`;
+      tr.querySelector('[data-history-run]').addEventListener('click', () => {
+        vscode.postMessage({ type: 'historyDetail', runId: r.runId });
+      });
+      elHistoryBody.appendChild(tr);
+    }
+  }
+
+  function renderHistoryDetail(runId, jobs) {
+    let html = '<h4 class="mono">' + escapeHtml(runId) + '</h4>';
+    if (!jobs.length) html += '<div class="muted">No jobs recorded for this run.</div>';
+    for (const j of jobs) {
+      const prompts = j.prompts.map(p =>
+        '<button data-open-file="' + escapeAttr(p.path) + '">Prompt #' + p.attempt + '</button>'
+      ).join('');
+      html += '<div style="margin:8px 0;">' +
+        '<div><span class="mono">' + escapeHtml(j.item) + '</span> ' +
+        '<span class="badge">' + escapeHtml(j.agentStatus || 'no status') + '</span> ' +
+        '<span class="mono">' + escapeHtml(j.featureName || '') + '</span> ' +
+        '<span class="mono muted" title="' + escapeAttr(j.url || '') + '">' + escapeHtml(j.url || '') + '</span></div>' +
+        '<div class="actions" style="margin-top:4px;">' + prompts +
+        (j.statusPath ? '<button data-open-file="' + escapeAttr(j.statusPath) + '">Status file</button>' : '') +
+        (j.specFile ? '<button data-open-file="' + escapeAttr(j.specFile) + '">Spec</button>' : '') +
+        '</div>' +
+        (j.statusContent ? '<details><summary class="muted" style="cursor:pointer;">Status content</summary><pre class="mono">' + escapeHtml(j.statusContent) + '</pre></details>' : '') +
+        '</div>';
+    }
+    elHistoryDetail.innerHTML = html;
+    elHistoryDetail.querySelectorAll('[data-open-file]').forEach(btn => {
+      btn.addEventListener('click', () => vscode.postMessage({ type: 'openFile', path: btn.getAttribute('data-open-file') }));
+    });
+  }
+
+  // "last activity N min ago" for a running job; refreshed by the timer below
+  function activityText(at) {
+    const mins = Math.floor((Date.now() - Number(at)) / 60000);
+    return 'last activity ' + (mins < 1 ? 'just now' : mins + ' min ago');
+  }
+  // Phase, batch and validated capabilities parsed from the progress file
+  function progressText(p) {
+    const batch = p.batch ? ' (batch ' + p.batch + (p.batchCount ? ' of ' + p.batchCount : '') + ')' : '';
+    const steps = p.steps || p.capabilities
+      ? ' \u2022 ' + p.validated + (p.capabilities ? '/' + p.capabilities : '') + ' capabilities validated' + (p.failed ? ', ' + p.failed + ' failed' : '')
+      : '';
+    return p.phase + batch + steps;
+  }
+  setInterval(() => {
+    document.querySelectorAll('[data-activity-at]').forEach(el => {
+      el.textContent = activityText(el.getAttribute('data-activity-at'));
+    });
+  }, 30000);
+
   function render(state) {
     const { running, runId, jobs, queuedCount } = state;
 
@@ -1444,6 +1722,15 @@ ${gitBlock}
 
     elRun.disabled = running;
     elStop.disabled = !running;
+    elExportReport.disabled = !jobs.length;
+
+    // Offer to resume an interrupted run left behind by a reload/crash
+    const resumable = state.resumable;
+    elResume.style.display = resumable && !running ? '' : 'none';
+    if (resumable) {
+      elResume.dataset.runId = resumable.runId;
+      elResume.textContent = 'Resume run ' + resumable.runId + ' (' + resumable.remaining + '/' + resumable.total + ' left)';
+    }
     elApplyAttempts.disabled = running;
     elGlobalAttempts.disabled = running;
     setInputsDisabled(running);
@@ -1473,33 +1760,165 @@ ${gitBlock}
         j.requirementsFile ? 'req' : ''
       ].filter(Boolean).join(', ');
 
+      // v2 status payload: phase, test counts, artifacts, warnings
+      const d = j.statusDetails || {};
+      const t = d.tests;
+      const statusInfo = [
+        d.phase ? 'phase: ' + d.phase : '',
+        t && t.total !== undefined ? (t.passed || 0) + '/' + t.total + ' tests passed' : '',
+        t && t.total === undefined && (t.passed || t.failed) ? (t.passed || 0) + ' passed, ' + (t.failed || 0) + ' failed' : '',
+        d.artifacts && d.artifacts.length ? d.artifacts.length + ' artifact(s)' : '',
+        d.warnings && d.warnings.length ? d.warnings.length + ' warning(s)' : ''
+      ].filter(Boolean).join(' \u2022 ');
+      const activeNow = j.status === 'Running' || j.status === 'Planning' || j.status === 'Stalled';
+      const activity = !activeNow ? ''
+        : j.lastActivityAt
+          ? '<div class="' + (j.status === 'Stalled' ? 'status-error' : 'muted') + '" data-activity-at="' + j.lastActivityAt + '" title="Newest progress, spec or requirements change">' + activityText(j.lastActivityAt) + '</div>'
+          : '<div class="' + (j.status === 'Stalled' ? 'status-error' : 'muted') + '">no activity yet</div>';
+      const prog = j.progress;
+      const progress = !prog || prog.phaseIndex < 0 ? ''
+        : '<div title="' + escapeAttr('Phase ' + (prog.phaseIndex + 1) + ' of ' + prog.phaseCount + ' \u2014 ' + prog.percent + '%') + '">' +
+          '<div class="progress-bar"><div style="width:' + prog.percent + '%"></div></div>' +
+          '<div class="muted">' + escapeHtml(progressText(prog)) + '</div></div>';
+      const statusTitle = [j.failureMessage || '', ...(d.warnings || []).map(w => 'Warning: ' + w)].filter(Boolean).join('\\n');
+      const gitErrors = (j.gitFailures || []).length
+        ? '<div class="status-error">' + j.gitFailures.map(f =>
+            '<span title="' + escapeAttr(f.command + (f.exitCode !== null ? ' (exit ' + f.exitCode + ')' : '')) + '">' +
+            escapeHtml(f.step) + ' failed: ' + escapeHtml(f.message) + '</span>'
+          ).join('<br>') + '</div>'
+        : '';
+      const mappingConflict = j.mappingConflict ? '<div class="status-error">' + escapeHtml(j.mappingConflict) + '</div>' : '';
+      const statusErrors = (j.statusErrors || []).length
+        ? '<div class="status-error">Invalid status file (v' + (j.statusVersion || '?') + '):<br>' + j.statusErrors.map(escapeHtml).join('<br>') + '</div>'
+        : '';
+      // Test run after PASS (verifyOnPass): per-test errors in the tooltip
+      const v = j.verification;
+      const verification = v
+        ? '<div class="' + (v.passed ? 'muted' : 'status-error') + '" title="' + escapeAttr((v.tests || []).map(t =>
+            t.outcome + ': ' + t.title + (t.error ? ' \u2014 ' + t.error : '')).join('\\n')) + '">Verification: ' + escapeHtml(v.message) + '</div>'
+        : '';
+      // Stability check (stabilityRuns): per-test pass ratios in the tooltip
+      const st = j.stability;
+      const stability = st
+        ? '<div class="' + (st.stable ? 'muted' : 'status-error') + '" title="' + escapeAttr((st.tests || []).map(t =>
+            t.passed + '/' + t.runs + ' ' + t.title).join('\\n')) + '">Stability: ' + escapeHtml(st.message) + '</div>'
+        : '';
+      // What the commit step took from the main workspace, and what it left
+      const f = j.files;
+      const fileList = f ? [
+        ...f.copied.map(p => 'committed: ' + p),
+        ...f.leftInWorkspace.map(p => 'left (outside commitGlob): ' + p),
+        ...f.refused.map(p => 'refused (dirty before the job): ' + p)
+      ].join('\\n') : '';
+      const files = f
+        ? '<div class="' + (f.refused.length ? 'status-error' : 'muted') + '" title="' + escapeAttr(fileList) + '">files: ' +
+            escapeHtml([f.copied.length + ' committed', f.leftInWorkspace.length ? f.leftInWorkspace.length + ' left' : '', f.refused.length ? f.refused.length + ' refused' : ''].filter(Boolean).join(', ')) +
+          '</div>'
+        : '';
+      // failedJobCleanup: what happened to the changes of a job that wasn't committed
+      const c = j.cleanup;
+      const cleanup = c
+        ? '<div class="' + (c.error ? 'status-error' : 'muted') + '" title="' + escapeAttr((c.error ? c.error + '\\n' : '') + c.files.join('\\n')) + '">leftovers: ' +
+            escapeHtml(c.error ? 'kept (stash failed)' : c.policy === 'keep' ? 'kept' : c.branch ? 'on ' + c.branch : c.patchPath ? 'saved as patch' : 'rolled back') +
+            ' (' + c.files.length + ')</div>'
+        : '';
+      // prStrategy perRun/batched: which consolidated PR the job's commit went into
+      const b = j.batch;
+      const batch = !b ? '' : b.conflicts
+        ? '<div class="status-error" title="' + escapeAttr(b.conflicts.join('\\n')) + '">batch: conflicts (' + b.conflicts.length + '), own PR</div>'
+        : '<div class="muted">' + escapeHtml(b.pending ? 'batch PR: pending' : 'batch: ' + (b.branch || '')) + '</div>';
+      // syncWithMain: the files that kept the branch from catching up with main
+      const mc = j.conflict;
+      const mainConflict = !mc ? '' :
+        '<div class="' + (j.status === 'NeedsAttention' ? 'status-error' : 'muted') + '" title="' + escapeAttr(mc.paths.join('\\n')) + '">' +
+          escapeHtml((j.status === 'NeedsAttention' ? 'Conflicts with ' + mc.baseRef + ', ' + mc.branch + ' not pushed' : 'Conflicted with ' + mc.baseRef + ', retrying') + ':') +
+          mc.paths.map(f => '<div class="mono">' + escapeHtml(f) + '</div>').join('') +
+        '</div>';
+      // approvalMode: staged files (each opens its diff) while awaiting review, then the decision
+      const r = j.review;
+      const review = !r ? '' : j.status === 'AwaitingReview'
+        ? '<div class="muted">Review against ' + escapeHtml(r.baseRef) + ':</div>' +
+          r.files.map(f => '<div><a href="#" data-review-diff="' + i + '" data-file="' + escapeAttr(f) + '">' + escapeHtml(f) + '</a></div>').join('')
+        : r.decision
+          ? '<div class="' + (r.decision === 'rejected' ? 'status-error' : 'muted') + '">Review: ' + escapeHtml(r.decision + (r.reason ? ' \u2014 ' + r.reason : '')) + '</div>'
+          : '';
+
       const tr = document.createElement('tr');
       tr.innerHTML = \`
         <td class="mono">\${j.indexLabel}</td>
         <td title="\${escapeHtml(j.url)}" class="mono">\${escapeHtml(j.shortUrl)}</td>
-        <td><span class="badge" title="\${escapeHtml(j.failureMessage || '')}">\${escapeHtml(j.status)}\${j.failureMessage ? ' ⚠' : ''}</span></td>
+        <td>
+          <span class="badge" title="\${escapeHtml(statusTitle)}">\${escapeHtml(j.status)}\${j.failureMessage ? ' ⚠' : ''}</span>
+          \${statusInfo ? '<div class="muted">' + escapeHtml(statusInfo) + '</div>' : ''}
+          \${activity}
+          \${progress}
+          \${statusErrors}
+          \${verification}
+          \${stability}
+          \${review}
+          \${mainConflict}
+          \${mappingConflict}
+          \${gitErrors}
+        </td>
         <td class="mono">
           \${(j.attemptsUsed || 0)}/
           <input type="number" min="1" max="20" value="\${j.maxLoops}" data-set-loops="\${i}" style="width:42px;text-align:center;" \${running ? 'disabled' : ''} />
+          \${j.agent ? '<div class="muted" title="' + escapeAttr(j.stage ? 'Stage: ' + j.stage : 'Default agent') + '">' + escapeHtml(j.agent) + '</div>' : ''}
+        </td>
+        <td class="mono" title="\${j.featureSource ? 'Mapped by ' + escapeAttr(j.featureSource) : ''}">
+          \${escapeHtml(j.featureName || '')}\${j.featureSource === 'heuristic' ? ' <span class="muted">(guessed)</span>' : ''}
+        </td>
+        <td class="mono">
+          \${escapeHtml(signals)}
+          \${files}
+          \${cleanup}
+          \${batch}
+          \${j.pr && j.pr.url ? '<div><a href="#" data-open-pr="' + i + '" title="' + escapeAttr(j.pr.url) + '">PR' + (j.pr.id ? ' #' + escapeHtml(j.pr.id) : '') + '</a>' + (j.pr.state ? ' <span class="muted">(' + escapeHtml(j.pr.state) + ')</span>' : '') + '</div>' : ''}
         </td>
-        <td class="mono">\${escapeHtml(j.featureName || '')}</td>
-        <td class="mono">\${escapeHtml(signals)}</td>
         <td class="actions">
           <button \${j.progressFile ? '' : 'disabled'} data-open-progress="\${i}">Open progress</button>
           <button \${j.specFile ? '' : 'disabled'} data-open-artifacts="\${i}">Open spec folder</button>
-          <button \${(j.status === 'Running' || j.status === 'Planning') ? '' : 'disabled'} data-cancel-job="\${i}" title="Force-fail this job">Cancel</button>
+          \${j.logPath ? '<button data-open-file="' + escapeAttr(j.logPath) + '" title="Output of the agent process">Open log</button>' : ''}
+          \${v && v.logPath ? '<button data-open-file="' + escapeAttr(v.logPath) + '" title="Output of the verification run">Open test log</button>' : ''}
+          \${c && c.patchPath ? '<button data-open-file="' + escapeAttr(c.patchPath) + '" title="Uncommitted changes of this job">Open patch</button>' : ''}
+          \${st && st.logPaths && st.logPaths.length ? '<button data-open-file="' + escapeAttr(st.logPaths[st.logPaths.length - 1]) + '" title="Output of the last stability run">Open stability log</button>' : ''}
+          \${j.status === 'AwaitingReview' ? '<button data-review-diff="' + i + '" title="Open a diff editor for each staged file">Open diffs</button>' +
+            '<button data-approve-job="' + i + '" title="Commit, push and open the PR">Approve</button>' +
+            '<button data-reject-job="' + i + '" title="Discard the staged change">Reject</button>' : ''}
+          <button \${(j.status === 'Running' || j.status === 'Planning' || j.status === 'Stalled' || j.status === 'Verifying') ? '' : 'disabled'} data-cancel-job="\${i}" title="Force-fail this job">Cancel</button>
         </td>
       \`;
 
       tr.querySelectorAll('[data-open-progress]').forEach(btn => {
         btn.addEventListener('click', () => vscode.postMessage({ type: 'openProgress', jobIndex: Number(btn.getAttribute('data-open-progress')) }));
       });
+      tr.querySelectorAll('[data-open-pr]').forEach(a => {
+        a.addEventListener('click', (e) => {
+          e.preventDefault();
+          vscode.postMessage({ type: 'openPr', jobIndex: Number(a.getAttribute('data-open-pr')) });
+        });
+      });
       tr.querySelectorAll('[data-open-artifacts]').forEach(btn => {
         btn.addEventListener('click', () => vscode.postMessage({ type: 'openArtifacts', jobIndex: Number(btn.getAttribute('data-open-artifacts')) }));
       });
+      tr.querySelectorAll('[data-open-file]').forEach(btn => {
+        btn.addEventListener('click', () => vscode.postMessage({ type: 'openFile', path: btn.getAttribute('data-open-file') }));
+      });
       tr.querySelectorAll('[data-cancel-job]').forEach(btn => {
         btn.addEventListener('click', () => vscode.postMessage({ type: 'cancelJob', jobIndex: Number(btn.getAttribute('data-cancel-job')) }));
       });
+      tr.querySelectorAll('[data-review-diff]').forEach(el => {
+        el.addEventListener('click', e => {
+          e.preventDefault();
+          vscode.postMessage({ type: 'reviewDiff', jobIndex: Number(el.getAttribute('data-review-diff')), file: el.getAttribute('data-file') || undefined });
+        });
+      });
+      tr.querySelectorAll('[data-approve-job]').forEach(btn => {
+        btn.addEventListener('click', () => vscode.postMessage({ type: 'approveJob', jobIndex: Number(btn.getAttribute('data-approve-job')) }));
+      });
+      tr.querySelectorAll('[data-reject-job]').forEach(btn => {
+        btn.addEventListener('click', () => vscode.postMessage({ type: 'rejectJob', jobIndex: Number(btn.getAttribute('data-reject-job')) }));
+      });
       tr.querySelectorAll('[data-set-loops]').forEach(inp => {
         inp.addEventListener('change', () => vscode.postMessage({ type: 'setMaxLoops', jobIndex: Number(inp.getAttribute('data-set-loops')), value: Number(inp.value) }));
       });
@@ -1532,22 +1951,25 @@ ${gitBlock}
 
 // ---------------------------- helpers ----------------------------
 
-function clampInt(n: number, min: number, max: number) {
-    n = Math.floor(Number(n));
-    if (Number.isNaN(n)) return min;
-    return Math.max(min, Math.min(max, n));
-}
-
-function delay(ms: number) {
-    return new Promise(r => setTimeout(r, ms));
+/**
+ * Recovers the start time encoded in a runId (yyyymmdd-hhmmss-xxxxxx).
+ */
+function parseRunIdTimestamp(runId: string): number | undefined {
+    const m = runId.match(/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})/);
+    if (!m) return undefined;
+    const [, y, mo, d, h, mi, se] = m.map(Number);
+    return new Date(y, mo - 1, d, h, mi, se).getTime();
 }
 
-function makeRunId() {
-    const d = new Date();
-    const pad = (x: number) => String(x).padStart(2, '0');
-    const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
-    const rand = Math.random().toString(36).slice(2, 8);
-    return `${stamp}-${rand}`;
+/**
+ * Coerces an untyped object from the webview into a string → string map.
+ */
+function stringRecord(obj: Record<string, unknown>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(obj)) {
+        if (v !== undefined && v !== null) out[k] = String(v);
+    }
+    return out;
 }
 
 function dedupe(urls: string[]) {
@@ -1571,103 +1993,3 @@ function looksLikeUrl(u: string) {
         return false;
     }
 }
-
-function shortenUrl(u: string, max = 70) {
-    if (u.length <= max) return u;
-    return u.slice(0, Math.floor(max * 0.6)) + '…' + u.slice(-Math.floor(max * 0.35));
-}
-
-/**
- * Replaces tokens like {{URL}} in the template.
- */
-function injectTemplate(template: string, vars: Record<string, string>) {
-    let out = template;
-    for (const [k, v] of Object.entries(vars)) {
-        out = out.replaceAll(`{{${k}}}`, v);
-    }
-    return out;
-}
-
-/**
- * Strips YAML front matter (--- ... ---) from the beginning of a markdown file.
- */
-function stripFrontMatter(text: string): string {
-    const match = text.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/);
-    if (match) {
-        return text.slice(match[0].length);
-    }
-    return text;
-}
-
-function inferFeatureNameFromProgressPath(progressPath: string): string | undefined {
-    const base = path.basename(progressPath);
-    const m = base.match(/^(.*)-progress\.md$/i);
-    return m?.[1];
-}
-
-function inferFeatureNameFromSpecPath(specPath: string): string | undefined {
-    const base = path.basename(specPath);
-    const m = base.match(/^(.*)\.spec\.ts$/i);
-    return m?.[1];
-}
-
-function inferFeatureNameFromRequirementsPath(reqPath: string): string | undefined {
-    const base = path.basename(reqPath);
-    const m = base.match(/^(.*)-requirements\.md$/i);
-    return m?.[1];
-}
-
-interface StatusFileMarkers {
-    agentStatus?: 'PASS' | 'FAIL';
-    featureName?: string;
-    timestamp?: string;
-    summary?: string;
-    specPath?: string;
-    reason?: string;
-}
-
-/**
- * Parses a .agent-loop/status/<RunId>/<Item>.status.md file.
- * Expected format (from the agent):
- *   AGENT_STATUS: PASS|FAIL
- *   FeatureName: <name>
- *   Timestamp: <iso>
- *   Summary: <text>
- *   SpecPath: <path>        (optional, on PASS)
- *   Reason: <text>          (optional, on FAIL)
- */
-function parseStatusFile(text: string): StatusFileMarkers {
-    const lines = text.split(/\r?\n/g);
-    const out: StatusFileMarkers = {};
-
-    for (const line of lines) {
-        const trimmed = line.trim();
-
-        {
-            const m = trimmed.match(/^AGENT_STATUS:\s*(PASS|FAIL)\s*$/i);
-            if (m) out.agentStatus = m[1].toUpperCase() as 'PASS' | 'FAIL';
-        }
-        {
-            const m = trimmed.match(/^FeatureName:\s*(.+)\s*$/i);
-            if (m) out.featureName = m[1].trim();
-        }
-        {
-            const m = trimmed.match(/^Timestamp:\s*(.+)\s*$/i);
-            if (m) out.timestamp = m[1].trim();
-        }
-        {
-            const m = trimmed.match(/^Summary:\s*(.+)\s*$/i);
-            if (m) out.summary = m[1].trim();
-        }
-        {
-            const m = trimmed.match(/^SpecPath:\s*(.+)\s*$/i);
-            if (m) out.specPath = m[1].trim();
-        }
-        {
-            const m = trimmed.match(/^Reason:\s*(.+)\s*$/i);
-            if (m) out.reason = m[1].trim();
-        }
-    }
-
-    return out;
-}
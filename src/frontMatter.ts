@@ -0,0 +1,106 @@
+/**
+ * Splits a markdown file into its YAML front matter (parsed with the subset
+ * below) and the body after it. Returns undefined when there is no front
+ * matter block.
+ */
+export function splitFrontMatter(text: string): { data: Record<string, unknown>; errors: string[]; body: string } | undefined {
+    const m = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    if (!m) return undefined;
+    const parsed = parseYamlSubset(m[1]);
+    return { ...parsed, body: text.slice(m[0].length) };
+}
+
+/**
+ * Just enough YAML for front matter: `key: scalar`, quoted strings,
+ * `[a, b]` inline lists, and one level of nesting — either a `- item` list
+ * or indented `key: value` pairs under a `key:` line.
+ */
+export function parseYamlSubset(text: string): { data: Record<string, unknown>; errors: string[] } {
+    const data: Record<string, unknown> = {};
+    const errors: string[] = [];
+    const lines = text.split(/\r?\n/);
+
+    let parentKey: string | undefined;
+    for (let i = 0; i < lines.length; i++) {
+        const raw = lines[i];
+        if (!raw.trim() || raw.trim().startsWith('#')) continue;
+
+        const indented = /^\s+/.test(raw);
+        const line = raw.trim();
+
+        if (indented && parentKey) {
+            const listItem = line.match(/^-\s*(.*)$/);
+            if (listItem) {
+                const list = Array.isArray(data[parentKey]) ? (data[parentKey] as unknown[]) : [];
+                list.push(parseScalar(listItem[1]));
+                data[parentKey] = list;
+                continue;
+            }
+            const pair = line.match(/^([A-Za-z0-9_.-]+)\s*:\s*(.*)$/);
+            if (pair) {
+                const map = isPlainObject(data[parentKey]) ? (data[parentKey] as Record<string, unknown>) : {};
+                map[pair[1]] = parseScalar(pair[2]);
+                data[parentKey] = map;
+                continue;
+            }
+            errors.push(`Front matter line ${i + 1} could not be parsed: ${line}`);
+            continue;
+        }
+
+        const pair = line.match(/^([A-Za-z0-9_.-]+)\s*:\s*(.*)$/);
+        if (!pair) {
+            errors.push(`Front matter line ${i + 1} could not be parsed: ${line}`);
+            parentKey = undefined;
+            continue;
+        }
+        if (pair[2] === '') {
+            parentKey = pair[1];
+            data[parentKey] = undefined;
+        } else {
+            parentKey = undefined;
+            data[pair[1]] = parseScalar(pair[2]);
+        }
+    }
+
+    return { data, errors };
+}
+
+function parseScalar(raw: string): unknown {
+    const s = stripComment(raw).trim();
+    if (s === '') return '';
+    if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) {
+        return s.slice(1, -1);
+    }
+    if (s.startsWith('[') && s.endsWith(']')) {
+        const inner = s.slice(1, -1).trim();
+        return inner ? inner.split(',').map(x => parseScalar(x)) : [];
+    }
+    if (s === 'true' || s === 'false') return s === 'true';
+    if (s === 'null' || s === '~') return null;
+    if (/^-?\d+(\.\d+)?$/.test(s)) return Number(s);
+    return s;
+}
+
+/**
+ * Drops a trailing ` # comment`. A # inside a quoted scalar is text; a quote
+ * only opens one at the start of a value or inline list item, so an
+ * apostrophe in plain text doesn't.
+ */
+function stripComment(raw: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < raw.length; i++) {
+        const c = raw[i];
+        if (quote) {
+            if (c === quote) quote = undefined;
+        } else if ((c === '"' || c === "'") && /(^|[[,])\s*$/.test(raw.slice(0, i))) {
+            quote = c;
+        } else if (c === '#' && /\s/.test(raw[i - 1] ?? '')) {
+            return raw.slice(0, i);
+        }
+    }
+    return raw;
+}
+
+function isPlainObject(v: unknown): boolean {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
@@ -0,0 +1,240 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+
+/** Default timeout for local git commands. */
+export const GIT_TIMEOUT_MS = 30000;
+/** fetch / push / remote branch deletes talk to the server and get longer. */
+export const GIT_NETWORK_TIMEOUT_MS = 180000;
+
+/**
+ * Outcome of a spawned command. Failures are returned, not thrown, so callers
+ * can decide whether a non-zero exit matters (e.g. deleting a branch that
+ * doesn't exist is fine) and can show stderr to the user when it does.
+ */
+export interface CommandResult {
+    ok: boolean;
+    command: string; // display form, for logs and the UI
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    timedOut?: boolean;
+    cancelled?: boolean; // stopped through RunOptions.signal
+    error?: string; // spawn error (binary not found, cwd missing, ...)
+}
+
+export type OutputListener = (line: string, stream: 'stdout' | 'stderr') => void;
+
+export interface RunOptions {
+    timeoutMs?: number;
+    onOutput?: OutputListener;
+    env?: NodeJS.ProcessEnv;
+    signal?: AbortSignal; // kills the process when aborted
+}
+
+/**
+ * Spawns `file` with `args` and collects its output. Arguments are passed
+ * straight to the process — no shell, so quotes and `$` in values are safe.
+ * Set `shell` only for user-configured command lines.
+ */
+export function runCommand(
+    file: string,
+    args: string[],
+    cwd: string,
+    opts: RunOptions & { shell?: boolean; windowsVerbatimArguments?: boolean } = {}
+): Promise<CommandResult> {
+    const command = [file, ...args.map(displayArg)].join(' ');
+    const timeoutMs = opts.timeoutMs ?? GIT_TIMEOUT_MS;
+
+    return new Promise(resolve => {
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+        let cancelled = false;
+        let settled = false;
+
+        const finish = (result: Omit<CommandResult, 'command' | 'stdout' | 'stderr'>) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            opts.signal?.removeEventListener('abort', onAbort);
+            resolve({ command, stdout, stderr, ...result });
+        };
+        const onAbort = () => {
+            cancelled = true;
+            child.kill();
+        };
+
+        let child: ReturnType<typeof spawn>;
+        try {
+            child = spawn(file, args, {
+                cwd,
+                shell: opts.shell ?? false,
+                windowsVerbatimArguments: opts.windowsVerbatimArguments,
+                env: opts.env ?? { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+                windowsHide: true,
+            });
+        } catch (e: any) {
+            resolve({ ok: false, command, exitCode: null, stdout, stderr, error: e?.message ?? String(e) });
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill();
+        }, timeoutMs);
+        if (opts.signal?.aborted) onAbort();
+        else opts.signal?.addEventListener('abort', onAbort);
+
+        const pipe = (stream: 'stdout' | 'stderr') => {
+            let pending = '';
+            return (chunk: Buffer) => {
+                const text = chunk.toString('utf8');
+                if (stream === 'stdout') stdout += text;
+                else stderr += text;
+                if (!opts.onOutput) return;
+
+                // Emit whole lines as they arrive
+                pending += text;
+                const lines = pending.split(/\r?\n/);
+                pending = lines.pop() ?? '';
+                for (const line of lines) if (line) opts.onOutput(line, stream);
+            };
+        };
+        child.stdout?.on('data', pipe('stdout'));
+        child.stderr?.on('data', pipe('stderr'));
+
+        child.on('error', err => finish({ ok: false, exitCode: null, error: err.message }));
+        child.on('close', code => {
+            if (opts.onOutput) {
+                // Flush a trailing line without newline
+                const tail = (s: string) => s.split(/\r?\n/).pop();
+                const outTail = tail(stdout);
+                const errTail = tail(stderr);
+                if (outTail) opts.onOutput(outTail, 'stdout');
+                if (errTail) opts.onOutput(errTail, 'stderr');
+            }
+            finish({ ok: code === 0 && !timedOut && !cancelled, exitCode: code, timedOut: timedOut || undefined, cancelled: cancelled || undefined });
+        });
+    });
+}
+
+/**
+ * Runs a CLI without a shell. On Windows, .exe tools start directly too; tools
+ * like az are .cmd shims that only start through cmd.exe, so for those every
+ * argument is quoted and its cmd metacharacters escaped (twice, since the shim
+ * hands %* to a second cmd parse). cmd.exe ends the command at a line break,
+ * so there line breaks become spaces — pass multi-line text by file instead.
+ */
+export async function runExecutable(bin: string, args: string[], cwd: string, opts: RunOptions = {}): Promise<CommandResult> {
+    if (process.platform !== 'win32') return runCommand(bin, args, cwd, opts);
+
+    const direct = await runCommand(bin, args, cwd, opts);
+    if (!direct.error?.includes('ENOENT')) return direct;
+    const line = [bin, ...args.map(quoteForCmdShim)].join(' ');
+    return runCommand(line, [], cwd, { ...opts, shell: true });
+}
+
+const CMD_META = /([()\][%!^"`<>&|;, *?])/g;
+
+function quoteForCmdShim(arg: string): string {
+    // Backslashes before a quote (or the closing quote) are doubled, as the
+    // program's own argument parser expects
+    const escaped = arg
+        .replace(/\r?\n/g, ' ')
+        .replace(/(\\*)"/g, '$1$1\\"')
+        .replace(/(\\*)$/, '$1$1');
+    return `"${escaped}"`.replace(CMD_META, '^$1').replace(CMD_META, '^$1');
+}
+
+/**
+ * Async git runner. Commands that could race each other wait their turn:
+ * each takes the locks gitLocks lists and starts once the commands queued
+ * before it on any of them have finished. Worktrees of the same repo share
+ * refs, config and lock files, so `worktree add` / `branch -D` queue
+ * repo-wide; everything else only queues behind commands in the same
+ * working tree, and network commands don't hold a working tree at all — a
+ * slow push of one job doesn't stall the others' branch guard and commits.
+ */
+export class GitService {
+    private readonly tails = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly onOutput?: (line: string) => void) {}
+
+    /**
+     * Queues a git command. `quiet` skips logging entirely, for frequent
+     * read-only probes like the branch guard. `env` adds variables such as
+     * GIT_INDEX_FILE to the environment.
+     */
+    public run(args: string[], cwd: string, opts: { timeoutMs?: number; quiet?: boolean; env?: NodeJS.ProcessEnv } = {}): Promise<CommandResult> {
+        const locks = gitLocks(args, cwd);
+        const next = Promise.all(locks.map(l => this.tails.get(l))).then(() => this.exec(args, cwd, opts.timeoutMs, opts.quiet, opts.env));
+        const settled = next.catch(() => undefined);
+        for (const l of locks) this.tails.set(l, settled);
+        void settled.then(() => {
+            for (const l of locks) if (this.tails.get(l) === settled) this.tails.delete(l);
+        });
+        return next;
+    }
+
+    /** Runs quietly and returns trimmed stdout, or undefined on any failure. */
+    public async output(args: string[], cwd: string): Promise<string | undefined> {
+        const result = await this.run(args, cwd, { quiet: true });
+        return result.ok ? result.stdout.trim() : undefined;
+    }
+
+    private async exec(args: string[], cwd: string, timeoutMs?: number, quiet?: boolean, env?: NodeJS.ProcessEnv): Promise<CommandResult> {
+        const log = this.onOutput;
+        if (!quiet) log?.(`$ git ${args.map(displayArg).join(' ')}  (cwd: ${cwd})`);
+
+        const result = await runCommand('git', args, cwd, {
+            timeoutMs,
+            env: env && { ...process.env, GIT_TERMINAL_PROMPT: '0', ...env },
+            onOutput: log && !quiet ? (line, stream) => log(`  ${stream === 'stderr' ? '!' : '|'} ${line}`) : undefined,
+        });
+
+        if (!result.ok && !quiet) {
+            const why = result.timedOut ? `timed out after ${Math.round((timeoutMs ?? GIT_TIMEOUT_MS) / 1000)}s` : result.error ?? `exit ${result.exitCode}`;
+            log?.(`  git ${args[0]} failed: ${why}`);
+        }
+        return result;
+    }
+}
+
+// Subcommands that write refs, config or worktree metadata shared by every worktree
+const SHARED_STATE_COMMANDS = new Set(['worktree', 'branch', 'config', 'remote', 'update-ref', 'tag', 'stash', 'pack-refs', 'gc', 'prune', 'reflog']);
+
+/**
+ * The locks a git command holds while it runs: `repo` for shared refs and
+ * config, `worktree:<path>` for the index and HEAD of the working tree it
+ * runs in. fetch only queues behind other fetches (they update the same
+ * remote-tracking refs); push and ls-remote hold nothing — if a concurrent
+ * config write wins the lock, `push -u` just warns that it couldn't record
+ * the upstream.
+ */
+export function gitLocks(args: string[], cwd: string): string[] {
+    const command = args[0];
+    if (command === 'fetch') return ['fetch'];
+    if (command === 'push' || command === 'ls-remote') return [];
+
+    const worktree = `worktree:${path.resolve(cwd)}`;
+    return command && SHARED_STATE_COMMANDS.has(command) ? ['repo', worktree] : [worktree];
+}
+
+/**
+ * First non-empty stderr line (or the spawn error) — a short failure reason
+ * for the job row.
+ */
+export function describeFailure(result: CommandResult): string {
+    if (result.timedOut) return 'timed out';
+    if (result.cancelled) return 'cancelled';
+    if (result.error) return result.error;
+    const line = result.stderr
+        .split(/\r?\n/)
+        .map(l => l.trim())
+        .find(l => l && !/^hint:/i.test(l));
+    return line ?? `exit code ${result.exitCode}`;
+}
+
+function displayArg(a: string): string {
+    return /^[\w@%+=:,./-]+$/.test(a) ? a : JSON.stringify(a);
+}
@@ -0,0 +1,123 @@
+import { Job, stripFrontMatter } from './jobModel';
+import { fillTemplate } from './prProviders';
+
+export const DEFAULT_BRANCH_TEMPLATE = 'agent/{RunId}-{Item}-test-suite';
+export const DEFAULT_COMMIT_MESSAGE_TEMPLATE = 'test(playwright): add {FeatureName} spec [AgentLoop {RunId}/{Item}]';
+export const DEFAULT_PR_DESCRIPTION_TEMPLATE = [
+    'Playwright spec for {FeatureName}, generated by Agent Loop Runner (run {RunId}, item {Item}).',
+    '',
+    'URL: {URL}',
+    'Attempts: {Attempts}/{MaxAttempts}',
+    'Tests: {Tests}',
+    '',
+    '{Summary}',
+    '',
+    '{Requirements}',
+].join('\n');
+
+// Longest requirements text put into a PR body; PR APIs cap descriptions
+const MAX_REQUIREMENTS_CHARS = 20000;
+
+/**
+ * Values for the branch, commit message and PR templates: {FeatureName},
+ * {RunId}, {Item}, {URL}, {Summary}, {Status}, {Attempts}, {MaxAttempts},
+ * {SpecPath}, the status file's test counts ({Tests}, {TestsTotal},
+ * {TestsPassed}, {TestsFailed}, {TestsSkipped}) and, when the requirements
+ * file was read, {Requirements}.
+ */
+export function gitTemplateVars(job: Job, requirements?: string): Record<string, string> {
+    const tests = job.statusDetails?.tests;
+    const count = (n: number | undefined) => (n === undefined ? '' : String(n));
+    const testSummary = tests
+        ? [
+              tests.passed !== undefined ? `${tests.passed} passed` : '',
+              tests.failed ? `${tests.failed} failed` : '',
+              tests.skipped ? `${tests.skipped} skipped` : '',
+          ]
+              .filter(Boolean)
+              .join(', ') + (tests.total !== undefined ? ` of ${tests.total}` : '')
+        : '';
+
+    let req = requirements ? stripFrontMatter(requirements).trim() : '';
+    if (req.length > MAX_REQUIREMENTS_CHARS) req = `${req.slice(0, MAX_REQUIREMENTS_CHARS)}\n\n… (truncated)`;
+
+    return {
+        FeatureName: job.featureName || `${job.runId}-${job.indexLabel}`,
+        RunId: job.runId,
+        Item: job.indexLabel,
+        URL: job.url,
+        Summary: job.reason ?? '',
+        Status: job.finalStatus ?? '',
+        Attempts: String(job.attemptsUsed),
+        MaxAttempts: String(job.maxLoops),
+        SpecPath: job.specFile ?? '',
+        Tests: testSummary.trim(),
+        TestsTotal: count(tests?.total),
+        TestsPassed: count(tests?.passed),
+        TestsFailed: count(tests?.failed),
+        TestsSkipped: count(tests?.skipped),
+        Requirements: req,
+    };
+}
+
+/**
+ * Fills a multi-line template (commit message, PR body). A line whose
+ * placeholders all came out empty is dropped, and blank lines left behind
+ * are collapsed, so optional parts don't leave "Tests: " stubs.
+ */
+export function renderTextTemplate(template: string, vars: Record<string, string>): string {
+    const lower = new Map(Object.entries(vars).map(([k, v]) => [k.toLowerCase(), v]));
+    const lines: string[] = [];
+    for (const line of template.split(/\r?\n/)) {
+        const tokens = [...line.matchAll(/\{(\w+)\}/g)].map(m => m[1].toLowerCase());
+        if (tokens.length && tokens.every(t => lower.has(t) && !lower.get(t))) continue;
+        lines.push(fillTemplate(line, vars));
+    }
+    return lines
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Fills the branch template. Values are made ref-safe first (a feature name
+ * with spaces becomes "My-Feature"); the result must still pass git's ref
+ * rules, otherwise the error says why.
+ */
+export function renderBranchName(template: string, vars: Record<string, string>): { branch: string } | { error: string } {
+    const safe = Object.fromEntries(Object.entries(vars).map(([k, v]) => [k, refSafe(v)]));
+    const branch = fillTemplate(template.trim(), safe);
+    const error = checkBranchName(branch);
+    return error ? { error: `Branch name "${branch}" from branchTemplate is invalid: ${error}` } : { branch };
+}
+
+/**
+ * git check-ref-format rules for a branch name. Returns what is wrong, or
+ * undefined for a valid name.
+ */
+export function checkBranchName(name: string): string | undefined {
+    if (!name) return 'it is empty';
+    if (/\{\w+\}/.test(name)) return `unknown placeholder ${name.match(/\{\w+\}/)![0]}`;
+    if (name.startsWith('-')) return 'it starts with "-"';
+    if (name === '@') return 'it is "@"';
+    if (/[\x00-\x20\x7f~^:?*[\\]/.test(name)) return 'it contains a space, control character or one of ~ ^ : ? * [ \\';
+    if (name.includes('..')) return 'it contains ".."';
+    if (name.includes('@{')) return 'it contains "@{"';
+    if (name.includes('//') || name.startsWith('/') || name.endsWith('/')) return 'it has an empty path component';
+    if (name.endsWith('.')) return 'it ends with "."';
+    for (const part of name.split('/')) {
+        if (part.startsWith('.')) return `component "${part}" starts with "."`;
+        if (part.endsWith('.lock')) return `component "${part}" ends with ".lock"`;
+    }
+    return undefined;
+}
+
+/** Replaces characters git doesn't allow in refs (and "/") with "-". */
+function refSafe(value: string): string {
+    return value
+        .replace(/[\x00-\x20\x7f~^:?*[\\/@{}]+/g, '-')
+        .replace(/\.{2,}/g, '.')
+        .replace(/-{2,}/g, '-')
+        .replace(/^[-.]+|[-.]+$/g, '')
+        .replace(/\.lock$/i, '-lock');
+}
@@ -0,0 +1,282 @@
+import * as path from 'path';
+
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'markdown';
+
+/**
+ * A single URL row read from an import file. Columns other than url / prompt /
+ * maxLoops are kept in `vars` and injected into the prompt as {{Column}} tokens.
+ */
+export interface ImportedRow {
+    line: number; // 1-based line (or array index for JSON) for error reporting
+    url: string;
+    prompt: string;
+    maxLoops?: number;
+    vars: Record<string, string>;
+}
+
+export interface ImportResult {
+    format: ImportFormat;
+    rows: ImportedRow[];
+    errors: string[];
+}
+
+/** Header aliases (lower-cased, non-alphanumerics stripped) for the known columns. */
+const URL_HEADERS = ['url', 'link', 'href', 'targeturl', 'bladeurl'];
+const PROMPT_HEADERS = ['prompt', 'customprompt', 'instructions'];
+const MAX_LOOPS_HEADERS = ['maxloops', 'maxloopsperurl', 'attempts', 'maxattempts', 'loops'];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'|)\]]+/i;
+
+/**
+ * Parses a URL list file, picking the format from the file extension.
+ * Unknown extensions are sniffed: JSON if it starts with `[`, Markdown if it
+ * has a table or bullet list, otherwise CSV/TSV.
+ */
+export function parseImportFile(fileName: string, text: string): ImportResult {
+    const format = detectImportFormat(fileName, text);
+    switch (format) {
+        case 'json':
+            return parseJsonImport(text);
+        case 'markdown':
+            return parseMarkdownImport(text);
+        case 'tsv':
+            return rowsFromTable('tsv', parseDelimited(text, '\t'));
+        default:
+            return rowsFromTable('csv', parseDelimited(text, ','));
+    }
+}
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+    const ext = path.extname(fileName).toLowerCase();
+    if (ext === '.json') return 'json';
+    if (ext === '.md' || ext === '.markdown') return 'markdown';
+    if (ext === '.tsv' || ext === '.tab') return 'tsv';
+    if (ext === '.csv') return 'csv';
+
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('[')) return 'json';
+    if (/^\s*\|.*\|\s*$/m.test(text) || /^\s*(?:[-*+]|\d+\.)\s+/m.test(text)) return 'markdown';
+    const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? '';
+    return firstLine.includes('\t') ? 'tsv' : 'csv';
+}
+
+// ---------------------------- CSV / TSV ----------------------------
+
+/**
+ * Splits delimited text into cells, honouring double-quoted fields with
+ * embedded delimiters, newlines and "" escapes. Returns [line, cells] pairs
+ * where line is where the record started.
+ */
+function parseDelimited(text: string, delimiter: string): [number, string[]][] {
+    const records: [number, string[]][] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        cells.push(cell);
+        if (cells.some(c => c.trim())) records.push([recordLine, cells.map(c => c.trim())]);
+        cells = [];
+        cell = '';
+        recordLine = line;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                if (ch === '\n') line++;
+                cell += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"' && !cell.trim()) {
+            inQuotes = true;
+            cell = '';
+        } else if (ch === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else if (ch === '\n') {
+            line++;
+            endRecord();
+        } else if (ch !== '\r') {
+            cell += ch;
+        }
+    }
+    endRecord();
+
+    return records;
+}
+
+/**
+ * Maps table records to rows. A first record without a URL in it is treated
+ * as the header; otherwise columns are positional: url, prompt, maxLoops.
+ */
+function rowsFromTable(format: ImportFormat, records: [number, string[]][]): ImportResult {
+    const result: ImportResult = { format, rows: [], errors: [] };
+    if (!records.length) return result;
+
+    let headers = ['url', 'prompt', 'maxLoops'];
+    let body = records;
+    if (!records[0][1].some(c => URL_PATTERN.test(c))) {
+        headers = records[0][1];
+        body = records.slice(1);
+        if (!headers.some(h => URL_HEADERS.includes(normalizeHeader(h)))) {
+            result.errors.push(`No URL column found in header (expected one of: ${URL_HEADERS.join(', ')}).`);
+            return result;
+        }
+    }
+
+    for (const [line, cells] of body) {
+        const record: Record<string, string> = {};
+        headers.forEach((h, i) => {
+            if (h) record[h] = cells[i] ?? '';
+        });
+        const row = rowFromRecord(record, line, result.errors);
+        if (row) result.rows.push(row);
+    }
+    return result;
+}
+
+// ---------------------------- JSON ----------------------------
+
+/**
+ * Accepts an array of URL strings or of objects keyed like the CSV header.
+ */
+function parseJsonImport(text: string): ImportResult {
+    const result: ImportResult = { format: 'json', rows: [], errors: [] };
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        result.errors.push(`Invalid JSON: ${e?.message ?? e}`);
+        return result;
+    }
+    if (!Array.isArray(data)) {
+        result.errors.push('Expected a JSON array of URLs or objects.');
+        return result;
+    }
+
+    data.forEach((item, i) => {
+        if (typeof item === 'string') {
+            result.rows.push({ line: i + 1, url: item.trim(), prompt: '', vars: {} });
+            return;
+        }
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            result.errors.push(`Item ${i + 1}: expected a string or object.`);
+            return;
+        }
+        const record: Record<string, string> = {};
+        for (const [k, v] of Object.entries(item as Record<string, unknown>)) {
+            if (v === null || v === undefined) continue;
+            record[k] = typeof v === 'object' ? JSON.stringify(v) : String(v);
+        }
+        const row = rowFromRecord(record, i + 1, result.errors);
+        if (row) result.rows.push(row);
+    });
+
+    return result;
+}
+
+// ---------------------------- Markdown ----------------------------
+
+/**
+ * Reads the first Markdown table if the file has one, otherwise every bullet
+ * or numbered list item containing a URL. In list items the text after the
+ * URL (minus separators like `—`, `-` or `:`) becomes the prompt.
+ */
+function parseMarkdownImport(text: string): ImportResult {
+    const lines = text.split(/\r?\n/);
+
+    const tableRecords: [number, string[]][] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        if (!/^\|.*\|$/.test(trimmed)) {
+            if (tableRecords.length) break;
+            continue;
+        }
+        // Skip the |---|:---:| separator row
+        if (/^\|(\s*:?-+:?\s*\|)+$/.test(trimmed)) continue;
+        const cells = trimmed.slice(1, -1).split('|').map(c => c.trim());
+        tableRecords.push([i + 1, cells]);
+    }
+    if (tableRecords.length) {
+        const result = rowsFromTable('markdown', tableRecords);
+        for (const row of result.rows) row.url = unwrapMarkdownLink(row.url);
+        return result;
+    }
+
+    const result: ImportResult = { format: 'markdown', rows: [], errors: [] };
+    lines.forEach((raw, i) => {
+        const m = raw.match(/^\s*(?:[-*+]|\d+\.)\s+(.*)$/);
+        if (!m) return;
+        const item = m[1].replace(/^\[[ xX]\]\s+/, '');
+        const urlMatch = item.match(URL_PATTERN);
+        if (!urlMatch) return;
+
+        const url = urlMatch[0];
+        const prompt = item
+            .replace(/\[([^\]]*)\]\([^)]*\)/, '')
+            .replace(url, '')
+            .replace(/^[\s<>()`]+/, '')
+            .replace(/^(?:—|–|-|:|\|)\s*/, '')
+            .trim();
+        result.rows.push({ line: i + 1, url, prompt, vars: {} });
+    });
+    return result;
+}
+
+function unwrapMarkdownLink(cell: string): string {
+    const link = cell.match(/\[[^\]]*\]\(([^)\s]+)\)/);
+    if (link) return link[1];
+    return cell.replace(/^<(.+)>$/, '$1');
+}
+
+// ---------------------------- shared ----------------------------
+
+function normalizeHeader(h: string): string {
+    return h.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Maps a header-keyed record onto an ImportedRow. Unknown columns become
+ * template vars; the header text is kept as-is for the {{token}} name.
+ */
+function rowFromRecord(record: Record<string, string>, line: number, errors: string[]): ImportedRow | undefined {
+    const row: ImportedRow = { line, url: '', prompt: '', vars: {} };
+
+    for (const [key, rawValue] of Object.entries(record)) {
+        const value = String(rawValue ?? '').trim();
+        const norm = normalizeHeader(key);
+        if (URL_HEADERS.includes(norm)) {
+            row.url = value;
+        } else if (PROMPT_HEADERS.includes(norm)) {
+            row.prompt = value;
+        } else if (MAX_LOOPS_HEADERS.includes(norm)) {
+            if (!value) continue;
+            const n = Number(value);
+            if (!Number.isInteger(n) || n < 1 || n > 20) {
+                errors.push(`Line ${line}: maxLoops "${value}" must be a whole number between 1 and 20; using the default.`);
+            } else {
+                row.maxLoops = n;
+            }
+        } else if (value) {
+            row.vars[key.trim()] = value;
+        }
+    }
+
+    if (!row.url) {
+        errors.push(`Line ${line}: no URL, row skipped.`);
+        return undefined;
+    }
+    return row;
+}
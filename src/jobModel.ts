@@ -0,0 +1,311 @@
+import * as path from 'path';
+import { AttemptFailure, FailureCategory } from './attemptStrategy';
+import { MappingSource } from './correlation';
+import { ExecutorKind } from './executors';
+import { ProgressSummary } from './progressParser';
+import { PullRequestInfo } from './prProviders';
+import { StatusDetails, StatusFileMarkers } from './statusFile';
+import { StabilityResult, VerificationResult } from './verification';
+import { JobCleanup, JobFileManifest, WorkspaceSnapshot } from './workspaceSnapshot';
+
+export type JobStatus =
+    | 'Queued'
+    | 'Planning'
+    | 'Running'
+    | 'Stalled'
+    | 'Verifying'
+    | 'AwaitingReview'
+    | 'NeedsAttention'
+    | 'Done'
+    | 'Flaky'
+    | 'Failed'
+    | 'Rejected'
+    | 'Stopped';
+
+export interface Job {
+    index: number; // 1-based
+    indexLabel: string; // 001, 002, ...
+    url: string;
+    shortUrl: string;
+    status: JobStatus;
+
+    runId: string;
+    promptPath?: string;
+
+    // Per-job custom prompt (overrides template file when non-empty)
+    customPrompt?: string;
+    template?: string; // prompt template id, when the row picked one
+    templateAgent?: string; // the template's default agent
+
+    // Extra {{tokens}} for the prompt, from imported extra columns
+    vars?: Record<string, string>;
+
+    // Agent-derived
+    featureName?: string;
+    progressFile?: string;
+    progress?: ProgressSummary; // phase and validated capabilities read from progressFile
+    specFile?: string;
+    requirementsFile?: string;
+
+    // Status markers
+    attemptsUsed: number;
+    maxLoops: number;
+    lastRun?: 'PASS' | 'FAIL';
+    finalStatus?: 'PASS' | 'FAIL';
+    reason?: string;
+    statusVersion?: number;
+    statusDetails?: StatusDetails; // v2 status payload
+    statusErrors?: string[]; // validation problems in the status file
+    verification?: VerificationResult; // the spec's test run after PASS (verifyOnPass)
+    stability?: StabilityResult; // per-test pass ratios over repeated runs (stabilityRuns)
+    commitPending?: boolean; // PASS read, but verification and the commit step haven't finished
+
+    // Timing / mapping
+    startedAt?: number; // current attempt
+    mappedAt?: number;
+    featureSource?: MappingSource; // how featureName was tied to this job
+    mappingConflict?: string; // another job claims the same featureName
+    firstStartedAt?: number; // first attempt
+    lastActivityAt?: number; // newest progress/spec/requirements change (stallIdleMs heartbeat)
+    stalledAt?: number; // when the current attempt went idle and the agent was nudged
+    finishedAt?: number;
+
+    // Git worktree
+    originalBranch?: string;
+    worktreePath?: string;
+    worktreeBranch?: string;
+    // True when the worktree was created before the agent ran (concurrent
+    // mode) and the agent writes its artifacts straight into it
+    worktreeIsolated?: boolean;
+    prResult?: string; // PR URL, or the PR command's output
+    pr?: PullRequestInfo;
+    gitFailures?: GitFailure[]; // git/PR commands that failed for this job
+    // Dirty files in the main workspace when the job started (non-isolated
+    // jobs), and which files the commit step took, left or refused
+    workspaceSnapshot?: WorkspaceSnapshot;
+    files?: JobFileManifest;
+    cleanup?: JobCleanup; // what failedJobCleanup did when the job ended without a commit
+    review?: JobReview; // approvalMode: the staged change waiting for (or given) a decision
+    batch?: JobBatch; // prStrategy perRun/batched: the consolidated PR this job's commit goes into
+    conflict?: MainConflict; // the branch didn't rebase/merge cleanly onto the latest main
+    baseCommit?: string; // syncWithMain: main commit the shared workspace was at when the job started
+
+    // Attempt routing
+    executor?: ExecutorKind; // backend that ran the current attempt
+    logPath?: string; // command executor output for the current attempt
+    agent?: string; // chat agent the current attempt was sent to
+    stage?: string; // attemptStrategy stage that picked it
+    failureCategory?: FailureCategory; // why the current attempt failed
+    lastFailure?: AttemptFailure; // carried into the next attempt's prompt
+
+    // Control
+    stopped?: boolean;
+    failureMessage?: string;
+}
+
+export const PROMPTS_ROOT = '.agent-loop-runner/prompts';
+export const STATUS_ROOT = '.agent-loop-runner/status';
+export const RUNS_ROOT = '.agent-loop-runner/runs';
+// Custom chat agents, one <name>.agent.md per agent
+export const AGENTS_ROOT = '.github/agents';
+// RunId of a dry run: its prompts go to PROMPTS_ROOT/dry-run, replaced each time
+export const DRY_RUN_ID = 'dry-run';
+
+/** Job fields that hold a watched artifact's path. */
+export type ArtifactKind = 'progressFile' | 'specFile' | 'requirementsFile';
+
+/** A failed git (or PR) command, shown in the job's row. */
+export interface GitFailure {
+    step: string;
+    command: string;
+    exitCode: number | null;
+    message: string; // first meaningful stderr line
+    at: number;
+}
+
+/**
+ * A PASSing job held before commit under approvalMode. Its changes are
+ * staged in the job's worktree until it is approved or rejected.
+ */
+export interface JobReview {
+    files: string[]; // staged paths, relative to the worktree
+    baseRef: string; // what the diffs compare against, e.g. origin/main
+    passStatus: 'Done' | 'Flaky'; // status the job returns to when approved
+    stagedAt: number;
+    decision?: 'approved' | 'rejected';
+    reason?: string; // why it was rejected
+    decidedAt?: number;
+}
+
+/** A job's commit under prStrategy perRun or batched. */
+export interface JobBatch {
+    commit: string; // on the job's local branch
+    pending: boolean; // waiting for its consolidated PR
+    branch?: string; // the consolidated branch it was picked onto
+    conflicts?: string[]; // paths that kept it out of the batch; it got its own PR
+}
+
+/** Files that kept a job's branch from syncing with the latest main before its push. */
+export interface MainConflict {
+    paths: string[];
+    baseRef: string; // e.g. origin/main
+    branch: string; // the job's local branch, left unpushed
+    at: number;
+}
+
+/** A URL row as submitted from the webview input rows. */
+export interface InputPair {
+    url: string;
+    prompt: string;
+    template?: string;
+    maxLoops?: number;
+    vars?: Record<string, string>;
+}
+
+/**
+ * Snapshot of a run written to .agent-loop-runner/runs/<runId>/run.json on
+ * every state transition, so an interrupted run can be resumed after a reload.
+ */
+export interface RunManifest {
+    version: 1;
+    runId: string;
+    startedAt: number;
+    updatedAt: number;
+    // True while the queue is being pumped. A manifest left with running=true
+    // means the extension host went away mid-run.
+    running: boolean;
+    queue: number[];
+    featureToJob: Record<string, number>;
+    jobs: Job[];
+}
+
+/** Built-in default prompt used when no custom prompt is provided in the UI. */
+export const DEFAULT_PROMPT = `Please create a test plan and test for all possible configurations, platforms, and tabs. Make sure you test all crud operations.`;
+
+
+export function clampInt(n: number, min: number, max: number) {
+    n = Math.floor(Number(n));
+    if (Number.isNaN(n)) return min;
+    return Math.max(min, Math.min(max, n));
+}
+
+export function delay(ms: number) {
+    return new Promise(r => setTimeout(r, ms));
+}
+
+export function makeRunId() {
+    const d = new Date();
+    const pad = (x: number) => String(x).padStart(2, '0');
+    const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+    const rand = Math.random().toString(36).slice(2, 8);
+    return `${stamp}-${rand}`;
+}
+
+export function shortenUrl(u: string, max = 70) {
+    if (u.length <= max) return u;
+    return u.slice(0, Math.floor(max * 0.6)) + '…' + u.slice(-Math.floor(max * 0.35));
+}
+
+/**
+ * Replaces tokens like {{URL}} in the template.
+ */
+export function injectTemplate(template: string, vars: Record<string, string>) {
+    let out = template;
+    for (const [k, v] of Object.entries(vars)) {
+        out = out.replaceAll(`{{${k}}}`, v);
+    }
+    return out;
+}
+
+/**
+ * Strips YAML front matter (--- ... ---) from the beginning of a markdown file.
+ */
+export function stripFrontMatter(text: string): string {
+    const match = text.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/);
+    if (match) {
+        return text.slice(match[0].length);
+    }
+    return text;
+}
+
+export function inferFeatureNameFromProgressPath(progressPath: string): string | undefined {
+    const base = path.basename(progressPath);
+    const m = base.match(/^(.*)-progress\.md$/i);
+    return m?.[1];
+}
+
+export function inferFeatureNameFromSpecPath(specPath: string): string | undefined {
+    const base = path.basename(specPath);
+    const m = base.match(/^(.*)\.spec\.ts$/i);
+    return m?.[1];
+}
+
+export function inferFeatureNameFromRequirementsPath(reqPath: string): string | undefined {
+    const base = path.basename(reqPath);
+    const m = base.match(/^(.*)-requirements\.md$/i);
+    return m?.[1];
+}
+
+/** Resets a job's feature mapping after a guess turned out to be wrong. */
+export function clearedMapping(): Partial<Job> {
+    return {
+        featureName: undefined,
+        featureSource: undefined,
+        mappingConflict: undefined,
+        mappedAt: undefined,
+        progressFile: undefined,
+        progress: undefined,
+        specFile: undefined,
+        requirementsFile: undefined,
+    };
+}
+
+/** The job's current attempt is with the agent, so its status file and artifacts count. */
+export function isAwaitingAgent(job: Job): boolean {
+    return job.status === 'Planning' || job.status === 'Running' || job.status === 'Stalled';
+}
+
+/**
+ * A job is finished when it has reached a terminal state that a resume should
+ * not re-run: passed, waiting for review or for conflicts to be resolved,
+ * rejected, cancelled, stopped, or failed with no attempts left. A PASS whose
+ * commit step was cut off isn't, so resume runs that step again.
+ */
+export function isJobFinished(job: Job): boolean {
+    if (job.commitPending) return false;
+    if (job.status === 'Done' || job.status === 'Flaky' || job.status === 'Stopped') return true;
+    if (job.status === 'AwaitingReview' || job.status === 'Rejected' || job.status === 'NeedsAttention') return true;
+    if (job.status === 'Failed') return !!job.stopped || job.attemptsUsed >= job.maxLoops;
+    return false;
+}
+
+/**
+ * Maps parsed status markers onto the job fields they resolve.
+ */
+export function statusFieldsFromMarkers(job: Job, markers: StatusFileMarkers): Partial<Job> {
+    const finalStatus = markers.agentStatus;
+    return {
+        status: finalStatus === 'PASS' ? 'Done' : 'Failed',
+        finalStatus,
+        featureName: markers.featureName || job.featureName,
+        reason: markers.reason || markers.summary || job.reason,
+        specFile: markers.specPath || job.specFile,
+        statusVersion: markers.version,
+        statusDetails: markers.statusDetails,
+        statusErrors: markers.validationErrors.length ? markers.validationErrors : undefined,
+        failureCategory: finalStatus === 'FAIL' ? 'agentFail' : undefined,
+        commitPending: finalStatus === 'PASS' || undefined,
+    };
+}
+
+/**
+ * Resolves an absolute or root-relative path, or undefined when it points
+ * outside `root` (paths can come from the webview or an agent's files).
+ */
+export function resolveInside(root: string, p: string): string | undefined {
+    if (!root || !p) return undefined;
+    const abs = path.isAbsolute(p) ? path.normalize(p) : path.resolve(root, p);
+    const rel = path.relative(root, abs);
+    if (rel.startsWith('..') || path.isAbsolute(rel)) return undefined;
+    return abs;
+}
@@ -0,0 +1,2834 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AttemptFailure, DEFAULT_RETRY_TEMPLATE, parseAttemptStrategy, renderRetryTemplate, resolveAttempt } from './attemptStrategy';
+import { RunnerConfig } from './config';
+import { MappingSource, isDeterministic, normalizeItem, parseClaimFile, parseCorrelationStamp } from './correlation';
+import { CommandExecutor, Execution, ExecutionExit, JobExecutor } from './executors';
+import { CommandResult, GIT_NETWORK_TIMEOUT_MS, GitService, describeFailure } from './gitService';
+import { DEFAULT_COMMIT_MESSAGE_TEMPLATE, gitTemplateVars, renderBranchName, renderTextTemplate } from './gitTemplates';
+import {
+    ArtifactKind,
+    AGENTS_ROOT,
+    DEFAULT_PROMPT,
+    DRY_RUN_ID,
+    GitFailure,
+    InputPair,
+    Job,
+    JobStatus,
+    MainConflict,
+    PROMPTS_ROOT,
+    RUNS_ROOT,
+    RunManifest,
+    STATUS_ROOT,
+    clearedMapping,
+    delay,
+    inferFeatureNameFromProgressPath,
+    inferFeatureNameFromRequirementsPath,
+    inferFeatureNameFromSpecPath,
+    injectTemplate,
+    isAwaitingAgent,
+    isJobFinished,
+    makeRunId,
+    resolveInside,
+    shortenUrl,
+    statusFieldsFromMarkers,
+    stripFrontMatter,
+} from './jobModel';
+import { PreflightCheck, checkAgentFile, checkWritableDir, findExecutable, prBinary } from './preflight';
+import { parseProgressFile, parseProgressRules, progressRulesFor } from './progressParser';
+import { PromptTemplate } from './promptTemplates';
+import { createPrProvider, fillTemplate } from './prProviders';
+import { StatusFileMarkers, parseStatusFile } from './statusFile';
+import { VerificationRequest, VerificationResult, runStabilityCheck, runVerification } from './verification';
+import { JobCleanup, StatusEntry, buildFileManifest, changedSince, parsePorcelainZ, takeSnapshot } from './workspaceSnapshot';
+
+// Command agents run until they exit; this caps them when perJobTimeoutMs is 0
+const EXECUTOR_MAX_RUNTIME_MS = 24 * 60 * 60 * 1000;
+// How long to wait for a command agent to exit after its status file arrived
+const EXECUTOR_EXIT_GRACE_MS = 30000;
+// Added to the PR of a spec committed with onFlaky "commit"
+const FLAKY_PR_LABEL = 'flaky';
+// Preflight's remote probe; a run would wait GIT_NETWORK_TIMEOUT_MS
+const PREFLIGHT_REMOTE_TIMEOUT_MS = 20000;
+
+/**
+ * What the orchestrator needs from whoever drives it: the VS Code panel, or
+ * a test running it in plain Node.
+ */
+export interface OrchestratorHost {
+    // Undefined when no workspace folder is open
+    readonly workspaceRoot: string | undefined;
+    getConfig(): RunnerConfig;
+    log(message: string): void;
+    // Called after every job / queue transition
+    onStateChanged(): void;
+    // Sends attempts to chat; only a host with a chat UI provides it
+    chatExecutor?(jobIdx: number): JobExecutor;
+    // Stops a job's chat session when no execution is tracked for it
+    cancelChat?(jobIdx: number): Promise<void>;
+    // Watches an isolated worktree's artifact globs and forwards the events
+    watchWorktree?(jobIdx: number, worktreePath: string): { dispose(): void };
+    // A job's attempts are over; drop per-job UI state
+    onJobSettled?(jobIdx: number): void;
+}
+
+export interface RunState {
+    runId: string;
+    runStartedAt: number;
+    running: boolean;
+    queuedCount: number;
+    jobs: readonly Job[];
+}
+
+/** A dry run's attempt-1 prompt for one row. */
+export interface PromptPreview {
+    indexLabel: string;
+    url: string;
+    agent: string;
+    stage?: string; // attemptStrategy stage that picked the agent
+    template?: string;
+    body: string; // the prompt before rendering: the row's own, its template's, or the default
+    promptPath: string;
+    text: string; // as the agent would receive it
+}
+
+/** A job's changes staged in its worktree, ready to commit. */
+interface StagedChanges {
+    wt: string;
+    branch: string;
+    featureName: string;
+    copiedFiles: string[]; // copied from the main workspace, cleaned there after the push
+    files: string[]; // staged paths
+}
+
+export interface OrchestratorOptions {
+    pollIntervalMs?: number; // status file safety-net poll (default 2000)
+    retryDelayMs?: number; // pause between attempts (default 1000)
+}
+
+/**
+ * Runs the job queue: prompts, executors, status/artifact mapping, the run
+ * manifest, and the git worktree / commit / PR flow. It has no VS Code
+ * dependency; file watcher events are forwarded in through the on*File
+ * methods, and the status file is also polled so a run works without them.
+ */
+export class Orchestrator {
+    private jobs: Job[] = [];
+    private runId = '';
+    private runStartedAt = 0;
+    private running = false;
+    private disposed = false;
+    // A dry run has swapped its own jobs in while it renders their prompts
+    private previewing = false;
+
+    // Serializes run.json writes so an older snapshot never lands last
+    private manifestWrite: Promise<void> = Promise.resolve();
+
+    // Queue
+    private queue: number[] = [];
+
+    // featureName -> jobIdx
+    private featureToJob = new Map<string, number>();
+
+    // Per-job watchers on isolated worktrees (concurrent mode)
+    private jobWatchers = new Map<number, { dispose(): void }>();
+
+    // Async git runner; output is streamed to the host log
+    private readonly gitService: GitService;
+
+    // The running attempt of each active job, and how it ended if it did
+    private executions = new Map<number, Execution>();
+    private executionExits = new Map<number, ExecutionExit>();
+    // Verification runs in flight, so cancel and stop can kill them
+    private verifications = new Map<number, AbortController>();
+
+    // prStrategy perRun/batched: committed jobs waiting for their
+    // consolidated PR, in commit order
+    private pendingBatch: number[] = [];
+    private batchTail: Promise<void> = Promise.resolve();
+    private batchCount = 0;
+
+    // Mapping messages already logged, so file change bursts don't repeat them
+    private mappingNotes = new Set<string>();
+
+    private readonly pollIntervalMs: number;
+    private readonly retryDelayMs: number;
+
+    constructor(private readonly host: OrchestratorHost, opts: OrchestratorOptions = {}) {
+        this.gitService = new GitService(line => this.log(`[git] ${line}`));
+        this.pollIntervalMs = opts.pollIntervalMs ?? 2000;
+        this.retryDelayMs = opts.retryDelayMs ?? 1000;
+    }
+
+    /** The current run, for the host's display and reports. */
+    public get state(): RunState {
+        return {
+            runId: this.runId,
+            runStartedAt: this.runStartedAt,
+            running: this.running,
+            queuedCount: this.queue.length,
+            jobs: this.jobs,
+        };
+    }
+
+    /**
+     * Starts a new run over the given rows. Resolves once the queue has
+     * drained (or the run was stopped); does nothing while a run is active.
+     */
+    public async start(pairs: InputPair[], opts: { globalMaxLoops?: number; templates?: PromptTemplate[] } = {}) {
+        if (this.running || this.previewing) return;
+
+        this.buildJobs(pairs, opts.globalMaxLoops, opts.templates ?? []);
+        if (!this.jobs.length) return;
+
+        this.running = true;
+        this.runId = makeRunId();
+        this.runStartedAt = Date.now();
+        this.queue = this.jobs.map((_, i) => i);
+        this.featureToJob.clear();
+        this.mappingNotes.clear();
+        this.pendingBatch = [];
+        this.batchCount = 0;
+
+        const { maxLoopsPerUrl: maxLoops } = this.getConfig();
+
+        this.jobs = this.jobs.map(j => ({
+            ...j,
+            runId: this.runId,
+            maxLoops: j.maxLoops || maxLoops,
+            attemptsUsed: 0,
+            status: 'Queued' as JobStatus,
+            stopped: false,
+            failureMessage: undefined,
+            featureName: undefined,
+            progressFile: undefined,
+            progress: undefined,
+            specFile: undefined,
+            requirementsFile: undefined,
+            finalStatus: undefined,
+            lastRun: undefined,
+            reason: undefined,
+            startedAt: undefined,
+            mappedAt: undefined,
+            featureSource: undefined,
+            mappingConflict: undefined,
+            firstStartedAt: undefined,
+            finishedAt: undefined,
+            prResult: undefined,
+            pr: undefined,
+            gitFailures: undefined,
+            promptPath: undefined,
+            agent: undefined,
+            stage: undefined,
+            failureCategory: undefined,
+            lastFailure: undefined,
+        }));
+
+        for (const err of parseAttemptStrategy(this.getConfig().attemptStrategy).errors) {
+            this.log(`[agent] ${err} Stage ignored.`);
+        }
+        for (const err of parseProgressRules(this.getConfig().progressRules).errors) {
+            this.log(`[progress] ${err} Default rules used.`);
+        }
+
+        this.changed();
+        await this.ensureStatusDir();
+        await this.pumpQueue();
+    }
+
+    /**
+     * Dry run: builds the jobs a run would have and writes each one's
+     * attempt-1 prompt to PROMPTS_ROOT/dry-run, with the agent the attempt
+     * strategy picks for it. Nothing is sent to an agent and git isn't
+     * touched; the current jobs are left as they are.
+     */
+    public async dryRun(pairs: InputPair[], opts: { globalMaxLoops?: number; templates?: PromptTemplate[] } = {}): Promise<PromptPreview[]> {
+        const root = this.host.workspaceRoot;
+        if (!root) throw new Error('No workspace folder open.');
+        if (this.running || this.previewing) return [];
+
+        const saved = { jobs: this.jobs, runId: this.runId };
+        this.previewing = true;
+        try {
+            this.buildJobs(pairs, opts.globalMaxLoops, opts.templates ?? []);
+            this.runId = DRY_RUN_ID;
+            await fs.promises.rm(path.join(root, PROMPTS_ROOT, DRY_RUN_ID), { recursive: true, force: true });
+
+            const previews: PromptPreview[] = [];
+            for (let i = 0; i < this.jobs.length; i++) {
+                this.jobs[i] = { ...this.jobs[i], runId: DRY_RUN_ID };
+                const job = this.jobs[i];
+                const route = await this.resolveAttemptRoute(i, 1);
+                const promptPath = await this.writePromptFile(i, 1, route.retryTemplate);
+                previews.push({
+                    indexLabel: job.indexLabel,
+                    url: job.url,
+                    agent: route.agent,
+                    stage: route.stage,
+                    template: job.template,
+                    body: job.customPrompt ?? DEFAULT_PROMPT,
+                    promptPath,
+                    text: await fs.promises.readFile(promptPath, 'utf8'),
+                });
+            }
+            this.log(`[dry run] Rendered ${previews.length} prompt(s) to ${path.join(PROMPTS_ROOT, DRY_RUN_ID)}`);
+            return previews;
+        } finally {
+            this.jobs = saved.jobs;
+            this.runId = saved.runId;
+            this.previewing = false;
+        }
+    }
+
+    /**
+     * Checks what a run over these rows needs before it starts: the agent
+     * files, the agent command, and with enableWorktree the git state, the
+     * main branch and its remote, the PR program and the worktree folder.
+     * Chat commands are the host's to check.
+     */
+    public async preflight(pairs: InputPair[], templates: PromptTemplate[] = []): Promise<PreflightCheck[]> {
+        const root = this.host.workspaceRoot;
+        if (!root) return [{ name: 'Workspace', status: 'fail', detail: 'No workspace folder open.' }];
+
+        const cfg = this.getConfig();
+        const checks: PreflightCheck[] = [];
+
+        const agents = new Set([cfg.agentName || 'agent', ...parseAttemptStrategy(cfg.attemptStrategy).stages.map(s => s.agent)]);
+        for (const pair of pairs) {
+            const agent = templates.find(t => t.id === pair.template)?.agent;
+            if (agent) agents.add(agent);
+        }
+        for (const agent of agents) {
+            if (!agent) continue;
+            const file = `${AGENTS_ROOT}/${agent}.agent.md`;
+            checks.push(checkAgentFile(agent, file, await readTextFile(path.join(root, file)), cfg.executor === 'chat'));
+        }
+
+        if (cfg.executor === 'command') {
+            const found = cfg.executorCommand ? await findExecutable(cfg.executorCommand, root) : undefined;
+            checks.push(
+                found
+                    ? { name: 'Agent command', status: 'pass', detail: found }
+                    : { name: 'Agent command', status: 'fail', detail: cfg.executorCommand ? `${cfg.executorCommand} not found` : 'executorCommand is empty' }
+            );
+        }
+
+        if (cfg.enableWorktree) checks.push(...(await this.gitPreflight(root)));
+        return checks;
+    }
+
+    /** The git half of preflight: repo state, main branch, remote, PR program, worktree folder. */
+    private async gitPreflight(root: string): Promise<PreflightCheck[]> {
+        const cfg = this.getConfig();
+        if ((await this.gitService.output(['rev-parse', '--is-inside-work-tree'], root)) !== 'true') {
+            return [{ name: 'Git repository', status: 'fail', detail: `${root} is not a git work tree (or git is not installed)` }];
+        }
+        const checks: PreflightCheck[] = [];
+
+        const busy: string[] = [];
+        for (const [marker, op] of [['MERGE_HEAD', 'merge'], ['rebase-merge', 'rebase'], ['rebase-apply', 'rebase'], ['CHERRY_PICK_HEAD', 'cherry-pick']]) {
+            const gitPath = await this.gitService.output(['rev-parse', '--git-path', marker], root);
+            if (gitPath && fs.existsSync(path.resolve(root, gitPath)) && !busy.includes(op)) busy.push(op);
+        }
+        const branch = await this.gitService.output(['rev-parse', '--abbrev-ref', 'HEAD'], root);
+        const dirty = (await this.workspaceStatus(root)) ?? [];
+        const inGlob = dirty.length ? (await this.workspaceStatus(root, cfg.commitGlob)) ?? [] : [];
+        if (busy.length) {
+            checks.push({ name: 'Git state', status: 'fail', detail: `A ${busy.join('/')} is in progress; finish or abort it first` });
+        } else if (!branch || branch === 'HEAD') {
+            checks.push({ name: 'Git state', status: 'warn', detail: 'HEAD is detached; the branch guard has no branch to restore' });
+        } else if (dirty.length) {
+            checks.push({
+                name: 'Git state',
+                status: 'warn',
+                detail: `${dirty.length} uncommitted file(s) on ${branch}${inGlob.length ? `, ${inGlob.length} in commitGlob` : ''}: they are left alone, but a job can't commit its own edits to them`,
+            });
+        } else {
+            checks.push({ name: 'Git state', status: 'pass', detail: `${branch}, clean` });
+        }
+
+        const mainBranch = await this.detectMainBranch(root);
+        const hasMain = await this.gitService.output(['rev-parse', '--verify', '--quiet', `origin/${mainBranch}`], root);
+        checks.push(
+            hasMain
+                ? { name: 'Main branch', status: 'pass', detail: `origin/${mainBranch}` }
+                : { name: 'Main branch', status: 'fail', detail: `origin/${mainBranch} not found; fetch origin or set origin/HEAD (git remote set-head origin --auto)` }
+        );
+
+        const remote = await this.gitService.run(['ls-remote', '--exit-code', '--heads', 'origin', mainBranch], root, { timeoutMs: PREFLIGHT_REMOTE_TIMEOUT_MS, quiet: true });
+        checks.push(
+            remote.ok
+                ? { name: 'Remote', status: 'pass', detail: `origin has ${mainBranch}` }
+                : { name: 'Remote', status: 'fail', detail: `Can't reach ${mainBranch} on origin: ${describeFailure(remote)}` }
+        );
+
+        const bin = prBinary(cfg.prProvider, cfg.prCreateCommand);
+        if (cfg.prProvider === 'command' && !bin) {
+            checks.push({ name: 'PR command', status: 'fail', detail: 'prCreateCommand is empty' });
+        } else if (bin) {
+            const found = await findExecutable(bin, root);
+            checks.push(
+                found
+                    ? { name: 'PR command', status: 'pass', detail: found }
+                    : { name: 'PR command', status: 'fail', detail: `${bin} not found on PATH (prProvider ${cfg.prProvider})` }
+            );
+        }
+
+        const worktreeBase = path.isAbsolute(cfg.worktreeDir) ? cfg.worktreeDir : path.resolve(root, cfg.worktreeDir);
+        const unwritable = await checkWritableDir(worktreeBase);
+        checks.push(
+            unwritable
+                ? { name: 'Worktree folder', status: 'fail', detail: unwritable }
+                : { name: 'Worktree folder', status: 'pass', detail: worktreeBase }
+        );
+        return checks;
+    }
+
+    /** Cancels one running job; the queue moves on to the next. */
+    public async cancelJob(jobIdx: number) {
+        const job = this.jobs[jobIdx];
+        if (!job || (job.status !== 'Running' && job.status !== 'Planning' && job.status !== 'Stalled' && job.status !== 'Verifying')) return;
+
+        this.jobs[jobIdx] = {
+            ...job,
+            status: 'Failed',
+            stopped: true,
+            failureMessage: 'Manually cancelled by user.',
+            finalStatus: 'FAIL',
+            finishedAt: Date.now(),
+        };
+        this.changed();
+
+        // Cancel this job's agent — for chat, equivalent to clicking
+        // the stop button in its chat session
+        await this.cancelExecution(jobIdx);
+    }
+
+    /**
+     * Cancels every active agent and stops the run. Returns false when no
+     * job was active, so the host can fall back to its own cancel.
+     */
+    public async stop(): Promise<boolean> {
+        const active = this.jobs
+            .map((j, i) => (j.status === 'Running' || j.status === 'Planning' || j.status === 'Stalled' || j.status === 'Verifying' ? i : -1))
+            .filter(i => i >= 0);
+        for (const i of active) await this.cancelExecution(i);
+
+        this.running = false;
+        this.queue = [];
+        for (const j of this.jobs) {
+            if (j.status === 'Queued') j.status = 'Stopped';
+            j.stopped = true;
+        }
+        this.changed();
+        return active.length > 0;
+    }
+
+    public setMaxLoops(jobIdx: number, value: number) {
+        const job = this.jobs[jobIdx];
+        if (!job) return;
+        this.jobs[jobIdx] = { ...job, maxLoops: value };
+        this.changed();
+    }
+
+    public setAllMaxLoops(value: number) {
+        for (let i = 0; i < this.jobs.length; i++) {
+            this.jobs[i] = { ...this.jobs[i], maxLoops: value };
+        }
+        this.changed();
+    }
+
+    /**
+     * Stops pumping without persisting: the manifest keeps running=true so
+     * the run can be resumed later.
+     */
+    public dispose() {
+        this.disposed = true;
+        this.running = false;
+        for (const watcher of this.jobWatchers.values()) watcher.dispose();
+        this.jobWatchers.clear();
+        for (const verification of this.verifications.values()) verification.abort();
+    }
+
+    private getConfig() {
+        return this.host.getConfig();
+    }
+
+    private log(message: string) {
+        this.host.log(message);
+    }
+
+    /** Persists the manifest and tells the host; nothing after dispose. */
+    private changed() {
+        // A dry run's jobs are never shown or persisted
+        if (this.disposed || this.previewing) return;
+        this.saveRunManifest();
+        this.host.onStateChanged();
+    }
+
+    private buildJobs(pairs: InputPair[], globalMaxLoops: number | undefined, templates: PromptTemplate[]) {
+        const { maxLoopsPerUrl } = this.getConfig();
+        const loops = globalMaxLoops ?? maxLoopsPerUrl;
+
+        this.jobs = pairs.map((pair, idx0) => {
+            const idx = idx0 + 1;
+            // The template body is copied into the job so a resumed run uses
+            // the prompt it started with, even if the file changed since.
+            const template = pair.template ? templates.find(t => t.id === pair.template) : undefined;
+            return {
+                index: idx,
+                indexLabel: String(idx).padStart(3, '0'),
+                url: pair.url,
+                shortUrl: shortenUrl(pair.url),
+                customPrompt: pair.prompt || template?.body || undefined,
+                template: template?.id,
+                templateAgent: template?.agent,
+                vars: pair.vars && Object.keys(pair.vars).length ? pair.vars : undefined,
+                status: 'Queued' as JobStatus,
+                runId: '',
+                maxLoops: pair.maxLoops ?? loops,
+                attemptsUsed: 0,
+            };
+        });
+    }
+
+    /**
+     * Drains the queue with up to `maxConcurrentJobs` workers. Concurrency
+     * needs per-job worktrees so agents don't overwrite each other's files in
+     * the main workspace; without enableWorktree it falls back to one job.
+     */
+    private async pumpQueue(startAttempts: Map<number, number> = new Map()) {
+        const cfg = this.getConfig();
+        let limit = cfg.maxConcurrentJobs;
+        if (limit > 1 && !cfg.enableWorktree) {
+            this.log(`[queue] maxConcurrentJobs=${limit} requires enableWorktree; running one job at a time.`);
+            limit = 1;
+        }
+
+        const workers: Promise<void>[] = [];
+        for (let w = 0; w < limit; w++) {
+            workers.push(this.runQueueWorker(startAttempts));
+            // Stagger starts so chat sessions and worktrees are set up one at a time
+            if (limit > 1) await delay(500);
+        }
+        await Promise.all(workers);
+
+        // A disposed host leaves the manifest as-is so the run stays resumable
+        if (this.disposed) return;
+
+        await this.flushBatches(true);
+        this.running = false;
+        this.changed();
+    }
+
+    private async runQueueWorker(startAttempts: Map<number, number>) {
+        while (this.running && this.queue.length) {
+            const jobIdx = this.queue.shift()!;
+            const job = this.jobs[jobIdx];
+            if (!job || job.stopped) continue;
+
+            await this.runJob(jobIdx, startAttempts.get(jobIdx) ?? 1);
+            const finished = this.jobs[jobIdx];
+            if (!this.disposed && finished && isJobFinished(finished)) {
+                this.jobs[jobIdx] = { ...finished, finishedAt: finished.finishedAt ?? Date.now() };
+            }
+            this.changed();
+        }
+    }
+
+    private async runJob(jobIdx: number, startAttempt = 1) {
+        const job = this.jobs[jobIdx];
+        if (!job) return;
+
+        // ── Save original branch for branch guard ──
+        await this.saveOriginalBranch(jobIdx);
+
+        // ── Concurrent mode: the agent works inside its own worktree ──
+        const cfg = this.getConfig();
+        const isolated = cfg.enableWorktree && cfg.maxConcurrentJobs > 1;
+        if (isolated) {
+            if (!job.worktreePath || !fs.existsSync(job.worktreePath)) {
+                await this.createWorktreeForJob(jobIdx);
+                if (!this.jobs[jobIdx].worktreePath) {
+                    this.jobs[jobIdx] = {
+                        ...this.jobs[jobIdx],
+                        status: 'Failed',
+                        finalStatus: 'FAIL',
+                        failureMessage: 'Could not create an isolated worktree for this job.',
+                    };
+                    this.changed();
+                    return;
+                }
+            }
+            this.jobs[jobIdx] = { ...this.jobs[jobIdx], worktreeIsolated: true };
+            this.watchJobWorktree(jobIdx);
+        } else {
+            // The agent shares the main workspace: remember what was already
+            // dirty so the commit step only takes what this job produced, and
+            // a failed job's cleanup only touches its own changes
+            if (!job.workspaceSnapshot) await this.takeWorkspaceSnapshot(jobIdx);
+            if (!job.baseCommit) await this.recordBaseCommit(jobIdx);
+        }
+
+        try {
+            await this.runJobAttempts(jobIdx, startAttempt);
+        } finally {
+            this.disposeJobWatchers(jobIdx);
+            this.host.onJobSettled?.(jobIdx);
+
+            // A committed job's changes are cleaned by the commit step; those
+            // of a failed or cancelled one go through failedJobCleanup here.
+            // Interrupted runs keep everything for resume.
+            const after = this.jobs[jobIdx];
+            if (!this.disposed && after && after.finalStatus !== 'PASS' && (isJobFinished(after) || after.stopped)) {
+                const cleanup = await this.cleanupUncommittedJob(jobIdx, isolated);
+                if (isolated && cleanup?.rolledBack !== false) await this.cleanupWorktree(jobIdx);
+            }
+        }
+    }
+
+    private async runJobAttempts(jobIdx: number, startAttempt: number) {
+        const maxAttempts = this.jobs[jobIdx].maxLoops;
+
+        for (let attempt = startAttempt; attempt <= maxAttempts; attempt++) {
+            // Re-read from this.jobs each iteration so stop mutations are visible
+            const current = this.jobs[jobIdx];
+            if (current?.stopped || !this.running) return;
+
+            try {
+                // Delete stale status file before each attempt so the poller
+                // doesn't immediately re-read a FAIL from the previous attempt.
+                await this.deleteStatusFile(jobIdx);
+
+                this.jobs[jobIdx] = {
+                    ...this.jobs[jobIdx],
+                    status: attempt === 1 ? 'Planning' : 'Running',
+                    startedAt: Date.now(),
+                    firstStartedAt: this.jobs[jobIdx].firstStartedAt ?? Date.now(),
+                    attemptsUsed: attempt,
+                    // Reset per-attempt state
+                    finalStatus: undefined,
+                    failureMessage: undefined,
+                    failureCategory: undefined,
+                    statusErrors: undefined,
+                    verification: undefined,
+                    stability: undefined,
+                    conflict: undefined,
+                    stalledAt: undefined,
+                    commitPending: undefined,
+                };
+                this.changed();
+
+                const route = await this.resolveAttemptRoute(jobIdx, attempt);
+                const promptPath = await this.writePromptFile(jobIdx, attempt, route.retryTemplate);
+                this.jobs[jobIdx] = { ...this.jobs[jobIdx], promptPath, status: 'Running', agent: route.agent, stage: route.stage };
+                this.changed();
+
+                // Wait for the agent to complete (watcher + polling driven)
+                let terminalStatus: JobStatus;
+                try {
+                    await this.startExecution(jobIdx, attempt, promptPath, route.agent);
+                    terminalStatus = await this.waitForTerminalStatus(jobIdx);
+                } finally {
+                    await this.endExecution(jobIdx);
+                }
+
+                // If succeeded, verify then commit/push/PR and we're done
+                if (terminalStatus === 'Done') {
+                    const pass = await this.finishPass(jobIdx, attempt);
+                    if (pass.committed) return;
+                    terminalStatus = pass.status;
+                }
+
+                // A flaky spec sent back to the agent is retried like a failure
+                if (terminalStatus === 'Failed' || terminalStatus === 'Flaky') {
+                    const failed = this.jobs[jobIdx];
+                    this.jobs[jobIdx] = { ...failed, lastFailure: attemptFailureOf(failed, attempt) };
+                }
+
+                // If failed and we have more attempts, reset for retry
+                if ((terminalStatus === 'Failed' || terminalStatus === 'Flaky') && attempt < maxAttempts) {
+                    this.jobs[jobIdx] = {
+                        ...this.jobs[jobIdx],
+                        status: 'Queued',
+                        failureMessage: `Attempt ${attempt} failed, retrying...`,
+                    };
+                    this.changed();
+                    await delay(this.retryDelayMs); // Brief pause between retries
+                    continue;
+                }
+
+                // Final attempt failed or stopped — leave as-is
+                return;
+            } catch (e: any) {
+                const msg = e?.message ? String(e.message) : String(e);
+
+                if (attempt < maxAttempts) {
+                    this.jobs[jobIdx] = {
+                        ...this.jobs[jobIdx],
+                        status: 'Queued',
+                        attemptsUsed: attempt,
+                        failureMessage: `Attempt ${attempt} error: ${msg}. Retrying...`,
+                        failureCategory: 'error',
+                        lastFailure: { attempt, category: 'error', message: msg },
+                    };
+                    this.changed();
+                    await delay(this.retryDelayMs);
+                    continue;
+                }
+
+                // Final attempt
+                this.jobs[jobIdx] = {
+                    ...this.jobs[jobIdx],
+                    status: 'Failed',
+                    failureMessage: msg,
+                    failureCategory: 'error',
+                    lastFailure: { attempt, category: 'error', message: msg },
+                    finalStatus: 'FAIL',
+                    attemptsUsed: attempt,
+                };
+                this.changed();
+                return;
+            }
+        }
+    }
+
+    // ─── Run Manifest / Resume ─────────────────────────────────────────
+
+    private manifestPath(runId: string): string | undefined {
+        const root = this.host.workspaceRoot;
+        if (!root || !runId) return undefined;
+        return path.join(root, RUNS_ROOT, runId, 'run.json');
+    }
+
+    /**
+     * Writes the current run to .agent-loop-runner/runs/<runId>/run.json.
+     * Called from changed() so every transition is captured.
+     */
+    private saveRunManifest() {
+        const file = this.manifestPath(this.runId);
+        if (!file) return;
+
+        const manifest: RunManifest = {
+            version: 1,
+            runId: this.runId,
+            startedAt: this.runStartedAt,
+            updatedAt: Date.now(),
+            running: this.running,
+            queue: [...this.queue],
+            featureToJob: Object.fromEntries(this.featureToJob),
+            jobs: this.jobs,
+        };
+        const data = JSON.stringify(manifest, null, 2);
+
+        this.manifestWrite = this.manifestWrite.then(async () => {
+            try {
+                await fs.promises.mkdir(path.dirname(file), { recursive: true });
+                await fs.promises.writeFile(file, data, 'utf8');
+            } catch (err) {
+                this.log(`[manifest] Failed to write ${file}: ${err}`);
+            }
+        });
+    }
+
+    /** Resolves once every manifest write queued so far has landed. */
+    public flushManifest(): Promise<void> {
+        return this.manifestWrite;
+    }
+
+    public async readRunManifest(runId: string): Promise<RunManifest | undefined> {
+        const file = this.manifestPath(runId);
+        if (!file) return undefined;
+        try {
+            const manifest = JSON.parse(await fs.promises.readFile(file, 'utf8')) as RunManifest;
+            if (manifest?.version !== 1 || !Array.isArray(manifest.jobs)) return undefined;
+            return manifest;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Finds the most recent run whose manifest was left with running=true and
+     * still has unfinished jobs.
+     */
+    public async findResumable(): Promise<RunManifest | undefined> {
+        const root = this.host.workspaceRoot;
+        if (!root) return undefined;
+
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = await fs.promises.readdir(path.join(root, RUNS_ROOT), { withFileTypes: true });
+        } catch {
+            // No runs yet
+        }
+
+        // RunIds start with a yyyymmdd-hhmmss stamp, so a reverse sort is newest-first
+        const runIds = entries
+            .filter(e => e.isDirectory())
+            .map(e => e.name)
+            .sort()
+            .reverse();
+
+        for (const runId of runIds) {
+            if (this.running && runId === this.runId) continue;
+            const manifest = await this.readRunManifest(runId);
+            if (manifest?.running && manifest.jobs.some(j => !isJobFinished(j))) return manifest;
+        }
+        return undefined;
+    }
+
+    /**
+     * Rehydrates an interrupted run from its manifest and continues the queue
+     * from the first unfinished job. Status files already written by the agent
+     * under STATUS_ROOT/<runId> are re-read so completed work isn't repeated.
+     * Resolves once the queue has drained.
+     */
+    public async resume(manifest: RunManifest) {
+        if (this.running || this.previewing) return;
+
+        this.runId = manifest.runId;
+        this.runStartedAt = manifest.startedAt;
+        this.jobs = manifest.jobs.map(j => ({ ...j, runId: manifest.runId }));
+        this.featureToJob = new Map(Object.entries(manifest.featureToJob ?? {}));
+        for (let i = 0; i < this.jobs.length; i++) {
+            const featureName = this.jobs[i].featureName;
+            if (featureName && !this.featureToJob.has(featureName)) this.featureToJob.set(featureName, i);
+        }
+
+        this.running = true;
+        await this.ensureStatusDir();
+
+        // Committed jobs still waiting for their consolidated PR
+        this.pendingBatch = this.jobs.map((j, i) => (j.batch?.pending ? i : -1)).filter(i => i >= 0);
+
+        // Work out where each unfinished job picks up again
+        const startAttempts = new Map<number, number>();
+        const toCommit: number[] = [];
+        this.queue = [];
+
+        for (let i = 0; i < this.jobs.length; i++) {
+            const job = this.jobs[i];
+            if (isJobFinished(job)) continue;
+
+            const markers = job.attemptsUsed > 0 ? await this.readStatusFile(job) : undefined;
+            if (markers?.agentStatus === 'PASS' && job.failureCategory !== 'verification') {
+                // The agent finished while we were away — only verification and the commit step are left
+                this.jobs[i] = {
+                    ...job,
+                    ...statusFieldsFromMarkers(job, markers),
+                };
+                toCommit.push(i);
+                continue;
+            }
+
+            // An attempt cut off mid-flight is re-sent; a failed one moves on
+            let nextAttempt = Math.max(job.attemptsUsed, 1);
+            if (markers?.agentStatus === 'FAIL' || job.status === 'Failed') {
+                this.jobs[i] = {
+                    ...job,
+                    reason: markers?.reason || markers?.summary || job.reason,
+                    lastFailure: attemptFailureOf(job, job.attemptsUsed),
+                };
+                nextAttempt = job.attemptsUsed + 1;
+            }
+
+            if (nextAttempt > job.maxLoops) {
+                this.jobs[i] = {
+                    ...this.jobs[i],
+                    status: 'Failed',
+                    finalStatus: 'FAIL',
+                    failureMessage: this.jobs[i].failureMessage || 'Run was interrupted after the final attempt.',
+                };
+                continue;
+            }
+
+            this.jobs[i] = {
+                ...this.jobs[i],
+                status: 'Queued',
+                stopped: false,
+                failureMessage: job.attemptsUsed > 0 ? `Resumed at attempt ${nextAttempt} after interruption.` : undefined,
+            };
+            startAttempts.set(i, nextAttempt);
+            this.queue.push(i);
+        }
+
+        this.log(`[manifest] Resuming run ${this.runId}: ${this.queue.length} job(s) queued, ${toCommit.length} awaiting commit`);
+        this.changed();
+
+        for (const jobIdx of toCommit) {
+            const attempt = this.jobs[jobIdx].attemptsUsed;
+            const pass = await this.finishPass(jobIdx, attempt);
+            this.changed();
+            if (pass.committed) continue;
+
+            const job = this.jobs[jobIdx];
+            if ((pass.status === 'Failed' || pass.status === 'Flaky') && attempt < job.maxLoops) {
+                this.jobs[jobIdx] = { ...job, status: 'Queued', lastFailure: attemptFailureOf(job, attempt) };
+                startAttempts.set(jobIdx, attempt + 1);
+                this.queue.push(jobIdx);
+                this.changed();
+            }
+        }
+
+        await this.pumpQueue(startAttempts);
+    }
+
+    /**
+     * Deletes the status file for a job so stale FAIL results from a previous
+     * attempt don't immediately poison the next retry.
+     */
+    private async deleteStatusFile(jobIdx: number) {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const job = this.jobs[jobIdx];
+        if (!job || !job.runId) return;
+
+        try {
+            await fs.promises.unlink(path.join(root, STATUS_ROOT, job.runId, `${job.indexLabel}.status.md`));
+        } catch {
+            // File doesn't exist yet — that's fine on attempt 1
+        }
+    }
+
+    /**
+     * Writes a per-job prompt file to .agent-loop/prompts/<runId>/<index>-attempt<N>.prompt.md
+     * using the per-job custom prompt (from the UI) or the built-in default prompt.
+     *
+     * Template supports tokens:
+     *   {{URL}}, {{RunId}}, {{Item}}, {{MaxLoopsPerUrl}}, {{Attempt}}
+     *
+     * Retries append `retryTemplate`, filled from the previous attempt.
+     */
+    private async writePromptFile(jobIdx: number, attempt: number = 1, retryTemplate: string = DEFAULT_RETRY_TEMPLATE): Promise<string> {
+        const root = this.host.workspaceRoot;
+        if (!root) throw new Error('No workspace folder open.');
+
+        const job = this.jobs[jobIdx];
+        const cfg = this.getConfig();
+
+        // Output prompt (what we actually run)
+        const promptsDir = path.join(root, PROMPTS_ROOT, this.runId);
+        const filename = attempt === 1 ? `${job.indexLabel}.prompt.md` : `${job.indexLabel}-attempt${attempt}.prompt.md`;
+        const outPromptPath = path.join(promptsDir, filename);
+        await fs.promises.mkdir(promptsDir, { recursive: true });
+
+        // Use per-job custom prompt if provided in the UI, otherwise use built-in default
+        const strippedTemplate = job.customPrompt
+            ? stripFrontMatter(job.customPrompt)
+            : DEFAULT_PROMPT;
+
+        // Build front matter + RunId/Item/Attempt context
+        // NOTE: The custom agent is selected via the `mode` parameter in
+        // workbench.action.chat.open, NOT via @mention in the body.
+        const gitBlock = cfg.enableWorktree
+            ? `\n**IMPORTANT — Git is managed by the extension. Do NOT run any git commands.**\nDo NOT run: git checkout, git branch, git switch, git worktree, git commit, git push, or az repos pr create.\n`
+            : '';
+
+        // Concurrent mode: other agents share the main workspace, so this one
+        // must keep its artifacts inside its own worktree.
+        const worktreeBlock = job.worktreeIsolated && job.worktreePath
+            ? `\n**IMPORTANT — Work only inside your worktree: ${job.worktreePath}**\nCreate and edit all progress, requirements and spec files under that directory (same relative paths as the repo). Other agents are running in the main workspace at the same time.\nWrite the status file to the main workspace path: ${path.join(root, STATUS_ROOT, this.runId, `${job.indexLabel}.status.md`)}\n`
+            : '';
+
+        // Correlation stamp: lets the watchers tie artifacts to this job
+        // without guessing from start times.
+        const claimPath = path.join(root, STATUS_ROOT, this.runId, `${job.indexLabel}.claim.json`);
+        const stampBlock = `\n**Correlation:** Put the lines \`RunId: ${this.runId}\` and \`Item: ${job.indexLabel}\` at the top of every progress and requirements file you create, and a \`// RunId: ${this.runId} Item: ${job.indexLabel}\` comment at the top of the spec file. As soon as you know the feature name, also write ${claimPath} containing \`{"featureName": "<FeatureName>"}\`.\n`;
+
+        const header = `---
+mode: agent
+---
+
+RunId: ${this.runId}
+Item: ${job.indexLabel}
+URL: ${job.url}
+Attempt: ${attempt}
+MaxLoopsPerUrl: ${job.maxLoops}
+${job.worktreeIsolated && job.worktreePath ? `Worktree: ${job.worktreePath}\n` : ''}${stampBlock}${gitBlock}${worktreeBlock}
+`;
+
+        // Inject vars into template body (built-in tokens win over imported columns)
+        const injectedBody = injectTemplate(strippedTemplate, {
+            ...job.vars,
+            URL: job.url,
+            RunId: this.runId,
+            Item: job.indexLabel,
+            Attempt: String(attempt),
+            MaxLoopsPerUrl: String(job.maxLoops),
+        });
+
+        // On retries, append context from the previous attempt so the agent
+        // can pick up where it left off instead of starting blind.
+        let retryContext = '';
+        if (attempt > 1) {
+            const previous = job.lastFailure;
+            const rendered = renderRetryTemplate(retryTemplate, {
+                ...job.vars,
+                URL: job.url,
+                RunId: this.runId,
+                Item: job.indexLabel,
+                Attempt: String(attempt),
+                MaxLoopsPerUrl: String(job.maxLoops),
+                PreviousAttempt: String(previous?.attempt ?? attempt - 1),
+                FailureCategory: previous?.category ?? '',
+                FailureMessage: previous?.message ?? '',
+                StatusReason: job.reason ?? '',
+                ProgressFile: job.progressFile ?? '',
+                SpecFile: job.specFile ?? '',
+                RequirementsFile: job.requirementsFile ?? '',
+                FailingTests: (previous?.failingTests ?? []).join('; '),
+                UnstableTests: (previous?.unstableTests ?? []).join('; '),
+                ConflictingFiles: (previous?.conflictingFiles ?? []).join(', '),
+            });
+            retryContext = '\n' + rendered.trim() + '\n';
+        }
+
+        const finalText = header + injectedBody + retryContext;
+        await fs.promises.writeFile(outPromptPath, finalText, 'utf8');
+
+        return outPromptPath;
+    }
+
+    /**
+     * Picks the agent and retry template for an attempt from the
+     * attemptStrategy setting. A retryTemplateFile that can't be read falls
+     * back to the default template rather than failing the attempt.
+     */
+    private async resolveAttemptRoute(jobIdx: number, attempt: number): Promise<{ agent: string; stage?: string; retryTemplate: string }> {
+        const cfg = this.getConfig();
+        const job = this.jobs[jobIdx];
+        const { stages } = parseAttemptStrategy(cfg.attemptStrategy);
+        const resolved = resolveAttempt(stages, attempt, job.lastFailure, job.templateAgent || cfg.agentName || 'agent');
+
+        let retryTemplate = resolved.retryTemplate ?? DEFAULT_RETRY_TEMPLATE;
+        if (resolved.retryTemplateFile) {
+            const file = resolveInside(this.host.workspaceRoot ?? '', resolved.retryTemplateFile);
+            const text = file ? await readTextFile(file) : undefined;
+            if (text !== undefined) retryTemplate = stripFrontMatter(text);
+            else this.log(`[agent] Retry template ${resolved.retryTemplateFile} not found; using the default.`);
+        }
+
+        if (resolved.stage) {
+            this.log(`[agent] Job ${job.indexLabel} attempt ${attempt} → ${resolved.agent} (stage "${resolved.stage.name}")`);
+        }
+        return { agent: resolved.agent, stage: resolved.stage?.name, retryTemplate };
+    }
+
+    /**
+     * The backend for a job's attempts. Chat (provided by the host) sends the
+     * prompt to Copilot Chat and relies on the status file alone; the command
+     * executor also knows when its process exits.
+     */
+    private executorFor(jobIdx: number): JobExecutor {
+        const cfg = this.getConfig();
+        if (cfg.executor === 'command') {
+            if (!cfg.executorCommand) {
+                throw new Error('agentLoopRunner.executor is "command" but agentLoopRunner.executorCommand is empty.');
+            }
+            return new CommandExecutor({
+                command: cfg.executorCommand,
+                args: cfg.executorArgs,
+                timeoutMs: cfg.perJobTimeoutMs || EXECUTOR_MAX_RUNTIME_MS,
+            });
+        }
+
+        const chat = this.host.chatExecutor?.(jobIdx);
+        if (!chat) throw new Error('agentLoopRunner.executor is "chat" but chat is not available here; use the command executor.');
+        return chat;
+    }
+
+    private async startExecution(jobIdx: number, attempt: number, promptPath: string, agent: string) {
+        const root = this.host.workspaceRoot;
+        if (!root) throw new Error('No workspace folder open.');
+
+        const job = this.jobs[jobIdx];
+        const executor = this.executorFor(jobIdx);
+        const logPath = path.join(root, RUNS_ROOT, this.runId, 'logs', `${job.indexLabel}-attempt${attempt}.log`);
+
+        this.executionExits.delete(jobIdx);
+        const execution = await executor.start({
+            runId: this.runId,
+            item: job.indexLabel,
+            url: job.url,
+            attempt,
+            agent,
+            promptPath,
+            statusPath: path.join(root, STATUS_ROOT, this.runId, `${job.indexLabel}.status.md`),
+            cwd: job.worktreeIsolated && job.worktreePath ? job.worktreePath : root,
+            worktreePath: job.worktreeIsolated ? job.worktreePath : undefined,
+            logPath,
+        });
+        this.executions.set(jobIdx, execution);
+
+        execution.exited?.then(exit => {
+            if (this.executions.get(jobIdx) !== execution) return;
+            this.log(`[executor] Job ${job.indexLabel} attempt ${attempt} exited with ${exit.error ?? `code ${exit.exitCode}`}`);
+            this.executionExits.set(jobIdx, exit);
+        });
+
+        this.jobs[jobIdx] = {
+            ...this.jobs[jobIdx],
+            executor: executor.kind,
+            logPath: executor.kind === 'command' ? logPath : undefined,
+        };
+        this.changed();
+    }
+
+    /** Stops the job's running attempt, if any (cancel button, stop, timeout). */
+    private async cancelExecution(jobIdx: number) {
+        const verification = this.verifications.get(jobIdx);
+        if (verification) {
+            verification.abort();
+            return;
+        }
+        const execution = this.executions.get(jobIdx);
+        if (execution) await execution.cancel();
+        else await this.host.cancelChat?.(jobIdx);
+    }
+
+    /**
+     * Called when an attempt is over. A command agent still running at this
+     * point (e.g. the run was stopped) is killed so it can't write into the
+     * next attempt.
+     */
+    private async endExecution(jobIdx: number) {
+        const execution = this.executions.get(jobIdx);
+        this.executions.delete(jobIdx);
+        this.executionExits.delete(jobIdx);
+        if (execution?.exited) await execution.cancel();
+    }
+
+    /**
+     * The status file has resolved the job. For a command agent the exit code
+     * counts too: wait briefly for the process to exit, and treat a PASS from
+     * a process that then failed as a FAIL.
+     */
+    private async confirmWithExit(jobIdx: number): Promise<JobStatus> {
+        const execution = this.executions.get(jobIdx);
+        if (execution?.exited) {
+            const exit = await raceTimeout(execution.exited, EXECUTOR_EXIT_GRACE_MS);
+            const job = this.jobs[jobIdx];
+            if (exit && exit.exitCode !== 0 && !exit.cancelled && job.status === 'Done') {
+                this.jobs[jobIdx] = {
+                    ...job,
+                    status: 'Failed',
+                    finalStatus: 'FAIL',
+                    failureMessage: `Agent reported PASS but its process failed: ${exit.error ?? `exit code ${exit.exitCode}`}.`,
+                    failureCategory: 'agentFail',
+                };
+                this.changed();
+            }
+        }
+        return this.jobs[jobIdx].status;
+    }
+
+    /** A command agent exited and no status file resolved the job. */
+    private failOnExit(jobIdx: number, exit: ExecutionExit): JobStatus {
+        const job = this.jobs[jobIdx];
+        const missing = job.statusErrors?.length ? 'a valid status file' : 'a status file';
+        const why = exit.exitCode === 0 && !exit.error ? `exited without writing ${missing}` : `failed: ${exit.error ?? `exit code ${exit.exitCode}`}`;
+        this.jobs[jobIdx] = {
+            ...job,
+            status: 'Failed',
+            finalStatus: 'FAIL',
+            failureMessage: `Agent process ${why}.`,
+            failureCategory: exit.timedOut ? 'timeout' : 'agentFail',
+        };
+        this.changed();
+        return 'Failed';
+    }
+
+    private async waitForTerminalStatus(jobIdx: number): Promise<JobStatus> {
+        // The loop exits when: the status file arrives (PASS/FAIL), the job
+        // is cancelled/stopped by the user, this.running becomes false, or
+        // the per-job timeout is exceeded (if configured).
+        const { perJobTimeoutMs } = this.getConfig();
+        const waitStart = Date.now();
+
+        while (this.running) {
+            const job = this.jobs[jobIdx];
+            if (!job) return 'Failed';
+
+            if (job.status === 'Done' || job.status === 'Failed') return this.confirmWithExit(jobIdx);
+            if (job.status === 'Stopped') return job.status;
+
+            // Safety-net timeout: if configured (> 0), fail the job if the
+            // agent hasn't produced a status file within the window.
+            if (perJobTimeoutMs > 0 && Date.now() - waitStart > perJobTimeoutMs) {
+                this.jobs[jobIdx] = {
+                    ...this.jobs[jobIdx],
+                    status: 'Failed',
+                    failureMessage: `Timed out after ${Math.round(perJobTimeoutMs / 1000)}s waiting for agent status file.`,
+                    failureCategory: 'timeout',
+                    finalStatus: 'FAIL',
+                };
+                this.changed();
+                await this.cancelExecution(jobIdx);
+                return 'Failed';
+            }
+
+            // Poll the status file as a safety net (in case watcher events are missed)
+            await this.pollStatusFile(jobIdx);
+            {
+                const updated = this.jobs[jobIdx];
+                if (updated.status === 'Done' || updated.status === 'Failed') return this.confirmWithExit(jobIdx);
+            }
+
+            // A command agent that exited without a status file won't write one
+            const exit = this.executionExits.get(jobIdx);
+            if (exit) return this.failOnExit(jobIdx, exit);
+
+            // Branch guard: snap back if the agent switched branches in the main directory
+            await this.guardBranch(jobIdx);
+
+            if (await this.checkStall(jobIdx, waitStart)) return 'Failed';
+
+            await delay(this.pollIntervalMs);
+        }
+
+        return 'Stopped';
+    }
+
+    /**
+     * Stall detection (stallIdleMs). A job's heartbeat is its newest artifact
+     * change: a watcher event or a progress/spec/requirements file's
+     * modification time. After one idle window the job shows Stalled and the
+     * agent is nudged; activity puts it back to Running, and a second idle
+     * window fails the attempt. Returns true when it failed the job.
+     */
+    private async checkStall(jobIdx: number, waitStart: number): Promise<boolean> {
+        const { stallIdleMs } = this.getConfig();
+        if (stallIdleMs <= 0) return false;
+
+        await this.refreshLastActivity(jobIdx);
+        const job = this.jobs[jobIdx];
+        const lastActivityAt = Math.max(waitStart, job.lastActivityAt ?? 0);
+        const now = Date.now();
+
+        if (job.status === 'Stalled' && job.stalledAt !== undefined) {
+            if (lastActivityAt > job.stalledAt) {
+                this.log(`[stall] Job ${job.indexLabel} is active again.`);
+                this.jobs[jobIdx] = { ...job, status: 'Running', stalledAt: undefined };
+                this.changed();
+                return false;
+            }
+            if (now - job.stalledAt < stallIdleMs) return false;
+
+            this.jobs[jobIdx] = {
+                ...job,
+                status: 'Failed',
+                finalStatus: 'FAIL',
+                failureMessage: `Stalled: no progress, spec or requirements change for ${formatIdle(now - lastActivityAt)}, ${formatIdle(now - job.stalledAt)} of it after a nudge.`,
+                failureCategory: 'timeout',
+            };
+            this.changed();
+            await this.cancelExecution(jobIdx);
+            return true;
+        }
+
+        if (job.status !== 'Running' || now - lastActivityAt < stallIdleMs) return false;
+
+        this.log(`[stall] Job ${job.indexLabel}: no artifact changes for ${formatIdle(now - lastActivityAt)}; nudging the agent.`);
+        this.jobs[jobIdx] = { ...job, status: 'Stalled', stalledAt: now };
+        this.changed();
+        await this.nudgeAgent(jobIdx, now - lastActivityAt);
+        return false;
+    }
+
+    /**
+     * Picks up artifact changes the watchers missed (e.g. files written
+     * before the job was mapped) from the files' modification times.
+     */
+    private async refreshLastActivity(jobIdx: number) {
+        const job = this.jobs[jobIdx];
+        let newest = job.lastActivityAt ?? 0;
+        for (const file of [job.progressFile, job.specFile, job.requirementsFile]) {
+            if (!file) continue;
+            try {
+                newest = Math.max(newest, (await fs.promises.stat(file)).mtimeMs);
+            } catch {
+                // Moved or deleted; the watchers will report its replacement
+            }
+        }
+        if (newest > (job.lastActivityAt ?? 0)) {
+            this.jobs[jobIdx] = { ...this.jobs[jobIdx], lastActivityAt: Math.round(newest) };
+            this.changed();
+        }
+    }
+
+    /** Sends stallNudgePrompt to the stalled attempt, when its executor can take one. */
+    private async nudgeAgent(jobIdx: number, idleMs: number) {
+        const job = this.jobs[jobIdx];
+        const execution = this.executions.get(jobIdx);
+        if (!execution?.nudge) {
+            this.log(`[stall] Job ${job.indexLabel}: the ${job.executor ?? 'current'} executor can't be nudged; the job fails if it stays idle.`);
+            return;
+        }
+
+        const text = renderRetryTemplate(this.getConfig().stallNudgePrompt, {
+            IdleTime: formatIdle(idleMs),
+            ProgressFile: job.progressFile ?? '',
+            SpecFile: job.specFile ?? '',
+            RequirementsFile: job.requirementsFile ?? '',
+            StatusFile: path.join(this.host.workspaceRoot ?? '', STATUS_ROOT, this.runId, `${job.indexLabel}.status.md`),
+            URL: job.url,
+            RunId: this.runId,
+            Item: job.indexLabel,
+            Attempt: String(job.attemptsUsed),
+        }).trim();
+        try {
+            await execution.nudge(text);
+            this.log(`[stall] Nudged job ${job.indexLabel}.`);
+        } catch (e: any) {
+            this.log(`[stall] Could not nudge job ${job.indexLabel}: ${e?.message ?? e}`);
+        }
+    }
+
+    // ─── Verification ──────────────────────────────────────────────────
+
+    /**
+     * After a PASS: the verification run and the stability check (when
+     * enabled), then the commit step. A flaky spec is committed only with
+     * onFlaky "commit"; otherwise the returned status says how the attempt
+     * ended.
+     */
+    private async finishPass(jobIdx: number, attempt: number): Promise<{ committed: boolean; status: JobStatus }> {
+        try {
+            let status = await this.verifyPass(jobIdx, attempt);
+            if (status === 'Done') status = await this.checkStability(jobIdx, attempt);
+
+            if (status === 'Done' || (status === 'Flaky' && this.jobs[jobIdx].finalStatus === 'PASS')) {
+                await this.commitPushAndCreatePR(jobIdx, attempt < this.jobs[jobIdx].maxLoops);
+                // A conflict with the latest main sent back to the agent
+                if (this.jobs[jobIdx].status === 'Failed') return { committed: false, status: 'Failed' };
+                return { committed: true, status };
+            }
+            return { committed: false, status };
+        } finally {
+            // After a reload the flag stays in the manifest, and resume runs this again
+            if (!this.disposed) this.jobs[jobIdx] = { ...this.jobs[jobIdx], commitPending: undefined };
+        }
+    }
+
+    /**
+     * With verifyOnPass, runs the job's spec through verifyCommand before the
+     * PASS is trusted. A failed run turns the attempt into a FAIL with
+     * category "verification" and the failing tests on the job.
+     */
+    private async verifyPass(jobIdx: number, attempt: number): Promise<JobStatus> {
+        const cfg = this.getConfig();
+        if (!cfg.verifyOnPass) return 'Done';
+
+        const req = this.verificationRequest(jobIdx, attempt, 'verify');
+        if (typeof req === 'string') return this.failVerification(jobIdx, undefined, req);
+
+        const result = await this.runVerificationStep(jobIdx, signal => runVerification({ ...req, signal }));
+        if (!result || result.cancelled) return this.stopVerification(jobIdx, { verification: result });
+
+        this.log(`[verify] Job ${this.jobs[jobIdx].indexLabel}: ${result.message}`);
+        if (!result.passed) return this.failVerification(jobIdx, result, `Verification failed: ${result.message}`);
+
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], status: 'Done', verification: result };
+        this.changed();
+        return 'Done';
+    }
+
+    /**
+     * With stabilityRuns, reruns the passing spec and records each test's
+     * pass ratio. Tests below stabilityThreshold make the job Flaky: with
+     * onFlaky "retry" that ends the attempt like a FAIL (category "flaky",
+     * unstable tests in the next prompt); with "commit" the spec is committed
+     * anyway and the PR is labelled flaky.
+     */
+    private async checkStability(jobIdx: number, attempt: number): Promise<JobStatus> {
+        const cfg = this.getConfig();
+        if (cfg.stabilityRuns === 0) return 'Done';
+
+        const req = this.verificationRequest(jobIdx, attempt, 'stability');
+        if (typeof req === 'string') return this.failVerification(jobIdx, undefined, req);
+
+        const result = await this.runVerificationStep(jobIdx, signal =>
+            runStabilityCheck({ ...req, signal }, cfg.stabilityRuns, cfg.stabilityThreshold)
+        );
+        if (!result || result.cancelled) return this.stopVerification(jobIdx, { stability: result });
+
+        const job = this.jobs[jobIdx];
+        this.log(`[verify] Job ${job.indexLabel}: ${result.message}`);
+        if (result.stable) {
+            this.jobs[jobIdx] = { ...job, status: 'Done', stability: result };
+        } else if (cfg.onFlaky === 'commit') {
+            this.jobs[jobIdx] = { ...job, status: 'Flaky', finalStatus: 'PASS', stability: result, failureMessage: `Committed as flaky: ${result.message}` };
+        } else {
+            this.jobs[jobIdx] = {
+                ...job,
+                status: 'Flaky',
+                finalStatus: 'FAIL',
+                failureMessage: `Flaky: ${result.message}`,
+                failureCategory: 'flaky',
+                stability: result,
+            };
+        }
+        this.changed();
+        return this.jobs[jobIdx].status;
+    }
+
+    /**
+     * The verifyCommand run for a job, or why there is nothing to run. It
+     * runs where the agent worked — its worktree in concurrent mode,
+     * otherwise the workspace root, where the spec stays until the commit
+     * step copies it.
+     */
+    private verificationRequest(jobIdx: number, attempt: number, step: string): VerificationRequest | string {
+        const root = this.host.workspaceRoot;
+        if (!root) return 'No workspace folder open.';
+
+        const cfg = this.getConfig();
+        const job = this.jobs[jobIdx];
+        const cwd = job.worktreeIsolated && job.worktreePath ? job.worktreePath : root;
+        const spec = job.specFile ? resolveInside(cwd, job.specFile) ?? resolveInside(root, job.specFile) : undefined;
+        if (!spec || !fs.existsSync(spec)) {
+            return job.specFile ? `Spec ${job.specFile} not found for verification.` : 'Agent reported PASS without a spec file to verify.';
+        }
+
+        return {
+            command: cfg.verifyCommand,
+            vars: {
+                SpecPath: path.relative(cwd, spec).split(path.sep).join('/'),
+                FeatureName: job.featureName ?? '',
+                RunId: job.runId,
+                Item: job.indexLabel,
+                Worktree: job.worktreeIsolated ? job.worktreePath ?? '' : '',
+            },
+            cwd,
+            timeoutMs: cfg.verifyTimeoutMs,
+            logPath: path.join(root, RUNS_ROOT, this.runId, 'logs', `${job.indexLabel}-attempt${attempt}-${step}.log`),
+        };
+    }
+
+    /**
+     * Shows the job as Verifying while `run` executes, and lets cancel/stop
+     * abort it. Returns undefined when the job was cancelled or the run
+     * stopped in the meantime.
+     */
+    private async runVerificationStep<T>(jobIdx: number, run: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> {
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], status: 'Verifying' };
+        this.changed();
+
+        const abort = new AbortController();
+        this.verifications.set(jobIdx, abort);
+        try {
+            const result = await run(abort.signal);
+            return this.jobs[jobIdx].status === 'Verifying' ? result : undefined;
+        } finally {
+            this.verifications.delete(jobIdx);
+        }
+    }
+
+    /**
+     * Cancelled, or the run was stopped, while the tests ran: a cancelled job
+     * keeps what cancel set, otherwise it shows Stopped. A reload leaves the
+     * job as is so resume verifies it again.
+     */
+    private stopVerification(jobIdx: number, fields: Partial<Job>): JobStatus {
+        if (!this.disposed) {
+            const current = this.jobs[jobIdx];
+            this.jobs[jobIdx] = { ...current, ...fields, status: current.status === 'Verifying' ? 'Stopped' : current.status };
+            this.changed();
+        }
+        return 'Stopped';
+    }
+
+    private failVerification(jobIdx: number, result: VerificationResult | undefined, message: string): JobStatus {
+        this.jobs[jobIdx] = {
+            ...this.jobs[jobIdx],
+            status: 'Failed',
+            finalStatus: 'FAIL',
+            failureMessage: message,
+            failureCategory: 'verification',
+            verification: result,
+        };
+        this.changed();
+        return 'Failed';
+    }
+
+    /**
+     * Returns the job whose isolated worktree contains the given path.
+     */
+    private findWorktreeOwner(fsPath: string): number | undefined {
+        for (let i = 0; i < this.jobs.length; i++) {
+            const wt = this.jobs[i].worktreePath;
+            if (!wt || !this.jobs[i].worktreeIsolated) continue;
+            const rel = path.relative(wt, fsPath);
+            if (!rel.startsWith('..') && !path.isAbsolute(rel)) return i;
+        }
+        return undefined;
+    }
+
+    /**
+     * Isolated worktrees live outside the workspace (../.agent-worktrees by
+     * default), so the workspace watchers never see them. The host watches
+     * the same globs relative to the job's worktree instead.
+     */
+    private watchJobWorktree(jobIdx: number) {
+        const wt = this.jobs[jobIdx]?.worktreePath;
+        if (!wt || this.jobWatchers.has(jobIdx)) return;
+
+        const watcher = this.host.watchWorktree?.(jobIdx, wt);
+        if (watcher) this.jobWatchers.set(jobIdx, watcher);
+    }
+
+    private disposeJobWatchers(jobIdx: number) {
+        this.jobWatchers.get(jobIdx)?.dispose();
+        this.jobWatchers.delete(jobIdx);
+    }
+
+    // ─── File Events (forwarded from the host's watchers) ──────────────
+
+    public async onProgressFile(progressPath: string) {
+        const featureName = inferFeatureNameFromProgressPath(progressPath);
+        if (!featureName) return;
+
+        // NOTE: Completion detection relies on .agent-loop/status/ files written by
+        // the agent (AGENT_STATUS: PASS|FAIL).  The progress
+        // file is only used for feature-name → job mapping and the phase indicator.
+        await this.onArtifactEvent('progressFile', progressPath, featureName);
+    }
+
+    public async onSpecFile(specPath: string) {
+        const featureName = inferFeatureNameFromSpecPath(specPath);
+        if (!featureName) return;
+        await this.onArtifactEvent('specFile', specPath, featureName);
+    }
+
+    public async onRequirementsFile(reqPath: string) {
+        const featureName = inferFeatureNameFromRequirementsPath(reqPath);
+        if (!featureName) return;
+        await this.onArtifactEvent('requirementsFile', reqPath, featureName);
+    }
+
+    private async onArtifactEvent(kind: ArtifactKind, fsPath: string, featureName: string) {
+        const owner = await this.resolveArtifactOwner(kind, fsPath, featureName);
+        if (!owner) return;
+
+        this.claimFeature(owner.jobIdx, featureName, owner.source);
+        this.jobs[owner.jobIdx] = { ...this.jobs[owner.jobIdx], [kind]: fsPath, lastActivityAt: Date.now() };
+        if (kind === 'progressFile') await this.readProgress(owner.jobIdx, fsPath);
+        this.changed();
+    }
+
+    /** Parses the job's progress file with its agent's progressRules for the phase indicator. */
+    private async readProgress(jobIdx: number, fsPath: string) {
+        const text = await readTextFile(fsPath);
+        if (text === undefined) return;
+        const { rules } = parseProgressRules(this.getConfig().progressRules);
+        const job = this.jobs[jobIdx];
+        const progress = parseProgressFile(text, progressRulesFor(rules, job.agent ?? this.getConfig().agentName));
+        this.jobs[jobIdx] = { ...job, progress };
+    }
+
+    /**
+     * Works out which job an artifact belongs to, most certain source first:
+     * the RunId/Item stamp in the file, the isolated worktree it lives in, an
+     * existing feature mapping, and — for progress files only, when
+     * featureMapHeuristic is on — the most recently started unmapped job.
+     */
+    private async resolveArtifactOwner(
+        kind: ArtifactKind,
+        fsPath: string,
+        featureName: string
+    ): Promise<{ jobIdx: number; source: MappingSource } | undefined> {
+        const name = path.basename(fsPath);
+        const text = await readTextFile(fsPath);
+        const stamp = text ? parseCorrelationStamp(text) : undefined;
+        if (stamp) {
+            if (stamp.runId !== this.runId) {
+                this.noteMapping(`${name} is stamped for run ${stamp.runId}, not the current run; ignored.`);
+                return undefined;
+            }
+            const jobIdx = this.jobs.findIndex(j => j.indexLabel === stamp.item);
+            if (jobIdx < 0) {
+                this.noteMapping(`${name} is stamped for item ${stamp.item}, which is not in this run; ignored.`);
+                return undefined;
+            }
+            return { jobIdx, source: 'stamp' };
+        }
+
+        const ownerIdx = this.findWorktreeOwner(fsPath);
+        if (ownerIdx !== undefined) return { jobIdx: ownerIdx, source: 'worktree' };
+
+        const mappedIdx = this.featureToJob.get(featureName);
+        if (mappedIdx !== undefined) return { jobIdx: mappedIdx, source: this.jobs[mappedIdx]?.featureSource ?? 'heuristic' };
+
+        if (kind !== 'progressFile' || !this.getConfig().featureMapHeuristic) return undefined;
+        const guessIdx = this.mapFeatureToMostRecentUnmappedRunningJob(featureName);
+        if (guessIdx === undefined) return undefined;
+        this.noteMapping(
+            `${name} has no RunId/Item stamp; guessed job ${this.jobs[guessIdx].indexLabel} (most recently started within featureMapWindowMs).`
+        );
+        return { jobIdx: guessIdx, source: 'heuristic' };
+    }
+
+    /**
+     * Ties featureName to a job. A heuristic guess gives way when another job
+     * proves ownership (stamp, claim, status file, worktree); two jobs proving
+     * the same feature is a conflict, shown on both rows — their artifacts
+     * share file names and will overwrite each other.
+     */
+    private claimFeature(jobIdx: number, featureName: string, source: MappingSource) {
+        const job = this.jobs[jobIdx];
+        if (!job) return;
+
+        const existingIdx = this.featureToJob.get(featureName);
+        if (existingIdx !== undefined && existingIdx !== jobIdx) {
+            const other = this.jobs[existingIdx];
+            if (other && other.featureSource === 'heuristic' && isDeterministic(source)) {
+                this.log(`[mapping] ${featureName} moved from job ${other.indexLabel} (guessed) to job ${job.indexLabel} (${source}).`);
+                this.jobs[existingIdx] = { ...other, ...clearedMapping() };
+                this.featureToJob.set(featureName, jobIdx);
+            } else if (other) {
+                const claimedBy = (j: Job) => `Feature "${featureName}" is also claimed by job ${j.indexLabel}.`;
+                if (job.mappingConflict !== claimedBy(other)) {
+                    this.log(`[mapping] Conflict: jobs ${other.indexLabel} and ${job.indexLabel} both claim feature ${featureName}.`);
+                }
+                this.jobs[existingIdx] = { ...other, mappingConflict: claimedBy(job) };
+                this.jobs[jobIdx] = { ...job, mappingConflict: claimedBy(other) };
+            }
+        } else if (existingIdx === undefined) {
+            this.featureToJob.set(featureName, jobIdx);
+        }
+
+        const current = this.jobs[jobIdx];
+        if (current.featureName && current.featureName !== featureName) {
+            // A guessed feature is replaced by the one the job proves it owns
+            if (current.featureSource !== 'heuristic' || !isDeterministic(source)) return;
+            if (this.featureToJob.get(current.featureName) === jobIdx) this.featureToJob.delete(current.featureName);
+            this.log(`[mapping] Job ${current.indexLabel} is ${featureName} (${source}), not ${current.featureName} (guessed).`);
+            this.jobs[jobIdx] = { ...current, ...clearedMapping() };
+        }
+
+        const updated = this.jobs[jobIdx];
+        const upgrade = !updated.featureSource || (!isDeterministic(updated.featureSource) && isDeterministic(source));
+        this.jobs[jobIdx] = {
+            ...updated,
+            featureName,
+            featureSource: upgrade ? source : updated.featureSource,
+            mappedAt: updated.mappedAt ?? Date.now(),
+        };
+    }
+
+    private noteMapping(message: string) {
+        if (this.mappingNotes.has(message)) return;
+        this.mappingNotes.add(message);
+        this.log(`[mapping] ${message}`);
+    }
+
+    private mapFeatureToMostRecentUnmappedRunningJob(_featureName: string): number | undefined {
+        const { featureMapWindowMs } = this.getConfig();
+        const now = Date.now();
+
+        let bestIdx: number | undefined;
+        let bestStart = -1;
+
+        for (let i = 0; i < this.jobs.length; i++) {
+            const j = this.jobs[i];
+            if (j.featureName) continue;
+            if (j.worktreeIsolated) continue; // Mapped by worktree path instead
+            if (j.runId !== this.runId) continue; // Skip jobs from previous runs
+            if (!isAwaitingAgent(j)) continue;
+            if (!j.startedAt) continue;
+
+            const age = now - j.startedAt;
+            if (age > featureMapWindowMs) continue;
+
+            if (j.startedAt > bestStart) {
+                bestStart = j.startedAt;
+                bestIdx = i;
+            }
+        }
+        return bestIdx;
+    }
+
+    /**
+     * Reads .agent-loop-runner/status/<RunId>/<Item>.claim.json, where an
+     * agent registers the feature it is working on (and optionally the
+     * artifact paths) without stamping each file.
+     */
+    public async onClaimFile(claimPath: string) {
+        const runId = path.basename(path.dirname(claimPath));
+        const itemMatch = path.basename(claimPath).match(/^(\d+)\.claim\.json$/i);
+        if (!itemMatch || runId !== this.runId) return;
+
+        const item = normalizeItem(itemMatch[1]);
+        const jobIdx = this.jobs.findIndex(j => j.indexLabel === item);
+        if (jobIdx < 0) return;
+
+        const text = await readTextFile(claimPath);
+        if (text === undefined) return;
+        const { claim, errors } = parseClaimFile(text);
+        errors.forEach(e => this.noteMapping(`${item}.claim.json: ${e}`));
+        if (!claim) return;
+
+        this.claimFeature(jobIdx, claim.featureName, 'claim');
+        // Paths must stay inside the workspace (or the job's own worktree):
+        // the requirements file goes into the PR description
+        const job = this.jobs[jobIdx];
+        const files: Partial<Job> = {};
+        for (const key of ['progressFile', 'specFile', 'requirementsFile'] as const) {
+            const p = claim[key];
+            if (!p) continue;
+            const abs =
+                resolveInside(this.host.workspaceRoot ?? '', p) ??
+                (job.worktreeIsolated && job.worktreePath ? resolveInside(job.worktreePath, p) : undefined);
+            if (abs) files[key] = abs;
+            else this.noteMapping(`${item}.claim.json: ${key} "${p}" is outside the workspace; ignored.`);
+        }
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], ...files };
+        this.changed();
+    }
+
+    /**
+     * Watches for .agent-loop/status/<RunId>/<Item>.status.md files written by the
+     * agent. Parses AGENT_STATUS: PASS|FAIL and maps back to
+     * the corresponding job by matching the Item label (e.g. "001") in the filename.
+     */
+    public async onStatusFile(statusPath: string) {
+        const content = await readTextFile(statusPath);
+        if (content === undefined) return;
+
+        // Extract <Item> from filename like 001.status.md
+        const base = path.basename(statusPath);
+        const itemMatch = base.match(/^(\d+)\.status\.md$/i);
+        if (!itemMatch) return;
+        const itemLabel = itemMatch[1]; // e.g. "001"
+
+        // Find the job that matches this Item label AND the current runId
+        // (status path should be under .agent-loop/status/<runId>/)
+        const jobIdx = this.jobs.findIndex(j => j.indexLabel === itemLabel && j.runId === this.runId);
+        if (jobIdx < 0) return;
+
+        // Parse the status block
+        this.applyStatusMarkers(jobIdx, parseStatusFile(content));
+    }
+
+    /**
+     * Resolves a job from parsed status markers. A file that doesn't yield a
+     * PASS/FAIL leaves the job running but surfaces its validation errors in
+     * the job row, so a malformed status file isn't silently ignored. Once
+     * the attempt has left the agent (Verifying, AwaitingReview, finished),
+     * a rewritten status file is ignored so it can't bypass those gates.
+     */
+    private applyStatusMarkers(jobIdx: number, markers: StatusFileMarkers) {
+        const job = this.jobs[jobIdx];
+        if (!job || !isAwaitingAgent(job)) return;
+
+        if (markers.agentStatus) {
+            if (markers.featureName) this.claimFeature(jobIdx, markers.featureName, 'status');
+            const claimed = this.jobs[jobIdx];
+            this.jobs[jobIdx] = {
+                ...claimed,
+                ...statusFieldsFromMarkers(claimed, markers),
+            };
+            this.changed();
+            return;
+        }
+
+        const errors = markers.validationErrors;
+        if (errors.length && errors.join('\n') !== (job.statusErrors ?? []).join('\n')) {
+            this.log(`[status] Job ${job.indexLabel} status file is invalid: ${errors.join(' ')}`);
+            this.jobs[jobIdx] = { ...job, statusErrors: errors, statusVersion: markers.version };
+            this.changed();
+        }
+    }
+
+    /**
+     * Creates the .agent-loop/status/<runId>/ directory so the agent can write status files there.
+     */
+    private async ensureStatusDir() {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const statusDir = path.join(root, STATUS_ROOT, this.runId);
+        try {
+            await fs.promises.mkdir(statusDir, { recursive: true });
+        } catch {
+            // Directory may already exist
+        }
+    }
+
+    /**
+     * Reads and parses the status file for a job, if the agent has written one.
+     */
+    private async readStatusFile(job: Job): Promise<StatusFileMarkers | undefined> {
+        const root = this.host.workspaceRoot;
+        if (!root || !job.runId) return undefined;
+
+        // A missing file is normal — the agent hasn't written it yet
+        const text = await readTextFile(path.join(root, STATUS_ROOT, job.runId, `${job.indexLabel}.status.md`));
+        return text === undefined ? undefined : parseStatusFile(text);
+    }
+
+    /**
+     * Directly reads the status file for a job as a safety net (in case watcher events are missed).
+     */
+    private async pollStatusFile(jobIdx: number) {
+        const job = this.jobs[jobIdx];
+        if (!job) return;
+
+        const statusMarkers = await this.readStatusFile(job);
+        if (!statusMarkers) return;
+
+        this.applyStatusMarkers(jobIdx, statusMarkers);
+    }
+
+    // ─── Git Worktree Management ───────────────────────────────────────
+
+    /**
+     * Runs a git command through the async git service. When a job and step
+     * are given, a failure is recorded on the job so it shows in its row;
+     * calls that are allowed to fail (cleanup of things that may not exist,
+     * probes) leave them out.
+     */
+    private async git(args: string[], cwd: string, failure?: { jobIdx: number; step: string; timeoutMs?: number }): Promise<CommandResult> {
+        const result = await this.gitService.run(args, cwd, { timeoutMs: failure?.timeoutMs });
+        if (!result.ok && failure) this.recordGitFailure(failure.jobIdx, failure.step, result);
+        return result;
+    }
+
+    private recordGitFailure(jobIdx: number, step: string, result?: CommandResult, message?: string) {
+        const job = this.jobs[jobIdx];
+        if (!job) return;
+
+        const entry: GitFailure = {
+            step,
+            command: result?.command ?? step,
+            exitCode: result?.exitCode ?? null,
+            message: message ?? (result ? describeFailure(result) : 'failed'),
+            at: Date.now(),
+        };
+        this.log(`[git] Job ${job.indexLabel}: ${step} failed — ${entry.message}`);
+        // Keep the last few; older failures are in the output channel
+        this.jobs[jobIdx] = { ...job, gitFailures: [...(job.gitFailures ?? []), entry].slice(-5) };
+        this.changed();
+    }
+
+    /**
+     * Detects the repo's default branch (e.g. dev, main) from origin/HEAD.
+     */
+    private async detectMainBranch(cwd: string): Promise<string> {
+        const ref = await this.gitService.output(['symbolic-ref', 'refs/remotes/origin/HEAD'], cwd);
+        if (ref) return ref.replace(/^refs\/remotes\/origin\//, '');
+        // Fallback: try common names
+        for (const name of ['dev', 'main', 'master']) {
+            const check = await this.gitService.output(['rev-parse', '--verify', `origin/${name}`], cwd);
+            if (check) return name;
+        }
+        return 'dev';
+    }
+
+    /**
+     * Creates a git worktree + branch for a job before sending the prompt.
+     * The main working directory stays on its current branch. The branch
+     * starts from `base` when given, otherwise from the freshly fetched main.
+     */
+    private async createWorktreeForJob(jobIdx: number, base?: string): Promise<void> {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const cfg = this.getConfig();
+        if (!cfg.enableWorktree) return;
+
+        const cwd = root;
+        const job = this.jobs[jobIdx];
+
+        // Fetch latest main
+        const mainBranch = await this.detectMainBranch(cwd);
+        await this.git(['fetch', 'origin', mainBranch], cwd, { jobIdx, step: 'fetch', timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+
+        // Compute worktree path and branch name. An isolated job's feature
+        // isn't known yet; the branch is renamed before the push if needed.
+        const worktreeLabel = `${job.runId}-${job.indexLabel}`;
+        const named = renderBranchName(cfg.branchTemplate, gitTemplateVars(job));
+        if ('error' in named) {
+            this.log(`[worktree] ${named.error}`);
+            this.recordGitFailure(jobIdx, 'branch name', undefined, named.error);
+            return;
+        }
+        const worktreeBranch = named.branch;
+        const worktreeBase = path.isAbsolute(cfg.worktreeDir)
+            ? cfg.worktreeDir
+            : path.resolve(cwd, cfg.worktreeDir);
+        const worktreePath = path.join(worktreeBase, worktreeLabel);
+
+        // Remove stale worktree / branch if they exist from a previous attempt
+        await this.git(['worktree', 'remove', worktreePath, '--force'], cwd);
+        await this.git(['branch', '-D', worktreeBranch], cwd);
+
+        // Also delete remote branch if agent already pushed an empty one. Only
+        // for run-specific names: without {RunId} the branch may be a real one.
+        if (/\{runid\}/i.test(cfg.branchTemplate)) {
+            await this.gitService.run(['push', 'origin', '--delete', worktreeBranch], cwd, { timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+        }
+
+        // Create the worktree
+        const result = await this.git(['worktree', 'add', '-b', worktreeBranch, worktreePath, base ?? `origin/${mainBranch}`], cwd, {
+            jobIdx,
+            step: 'worktree add',
+        });
+
+        if (!result.ok) {
+            this.log(`[worktree] Failed to create worktree for job ${job.indexLabel}`);
+            return;
+        }
+
+        this.log(`[worktree] Created ${worktreePath} on branch ${worktreeBranch}`);
+        this.jobs[jobIdx] = {
+            ...this.jobs[jobIdx],
+            worktreePath,
+            worktreeBranch,
+        };
+    }
+
+    /**
+     * Records the current branch at the start of a job so the branch guard
+     * can snap back if the agent switches branches during its run.
+     */
+    private async saveOriginalBranch(jobIdx: number): Promise<void> {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const cfg = this.getConfig();
+        if (!cfg.enableWorktree) return;
+
+        // With concurrent jobs, reuse the branch recorded by a job that's
+        // already active — HEAD may have drifted since and not been restored yet.
+        const active = this.jobs.find(
+            (j, i) => i !== jobIdx && j.originalBranch && j.originalBranch !== 'unknown' && isAwaitingAgent(j)
+        );
+        if (active?.originalBranch) {
+            this.jobs[jobIdx] = { ...this.jobs[jobIdx], originalBranch: active.originalBranch };
+            return;
+        }
+
+        const cwd = root;
+        const originalBranch = (await this.gitService.output(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)) || 'unknown';
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], originalBranch };
+    }
+
+    /**
+     * Branch guard: if the agent switched branches in the main directory, snap back.
+     * Called periodically during the poll loop.
+     */
+    private async guardBranch(jobIdx: number): Promise<void> {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const cfg = this.getConfig();
+        if (!cfg.enableWorktree) return;
+
+        const job = this.jobs[jobIdx];
+        if (!job.originalBranch || job.originalBranch === 'unknown') return;
+
+        const cwd = root;
+        const current = await this.gitService.output(['rev-parse', '--abbrev-ref', 'HEAD'], cwd);
+        if (current && current !== job.originalBranch) {
+            this.log(`[worktree] Branch drifted to '${current}', restoring '${job.originalBranch}'`);
+            await this.git(['checkout', job.originalBranch], cwd, { jobIdx, step: 'branch guard checkout' });
+        }
+    }
+
+    /**
+     * After AGENT_STATUS: PASS, create a fresh worktree, copy agent-created
+     * files from the main workspace into it, commit, push, create a PR,
+     * then clean up both the worktree and the agent files from the main dir.
+     * With approvalMode the job stops at AwaitingReview once its files are
+     * staged; approveJob/rejectJob take it from there. `canRetry` says
+     * whether a conflict with the latest main may go back to the agent.
+     *
+     * The worktree is created HERE (not before the agent run) so the agent
+     * never sees it and can't push an empty branch.
+     */
+    private async commitPushAndCreatePR(jobIdx: number, canRetry: boolean): Promise<void> {
+        let staged: StagedChanges | undefined;
+        try {
+            staged = await this.stageChanges(jobIdx);
+        } finally {
+            if (!staged) await this.cleanupWorktree(jobIdx);
+        }
+        if (!staged) return;
+
+        if (this.getConfig().approvalMode) {
+            await this.holdForReview(jobIdx, staged);
+            return;
+        }
+        await this.publishStagedChanges(jobIdx, staged, canRetry);
+    }
+
+    /**
+     * Steps 0–2 of the commit step: the worktree, the files this job
+     * produced, and `git add`. Returns undefined when there is nothing to
+     * commit; the caller then removes the worktree.
+     */
+    private async stageChanges(jobIdx: number): Promise<StagedChanges | undefined> {
+        const root = this.host.workspaceRoot;
+        if (!root) return undefined;
+
+        const cfg = this.getConfig();
+        if (!cfg.enableWorktree) return undefined;
+
+        const cwd = root;
+        const job = this.jobs[jobIdx];
+        const featureName = job.featureName || `${job.runId}-${job.indexLabel}`;
+
+        // ── Step 0: Create the worktree now (agent is finished) ──
+        // Isolated jobs (concurrent mode) already wrote into their worktree.
+        // With syncWithMain it starts from the main commit the agent saw, so
+        // the sync can tell the job's edits from what main changed since.
+        if (!job.worktreeIsolated) {
+            await this.createWorktreeForJob(jobIdx, cfg.syncWithMain !== 'off' ? job.baseCommit : undefined);
+        }
+
+        // Re-read job after createWorktreeForJob mutated it
+        const updatedJob = this.jobs[jobIdx];
+        if (!updatedJob.worktreePath || !updatedJob.worktreeBranch) {
+            this.log(`[worktree] Worktree creation failed for job ${job.indexLabel}, skipping commit.`);
+            return undefined;
+        }
+
+        const wt = updatedJob.worktreePath;
+
+        const addGlob = cfg.commitGlob.endsWith('/')
+            ? `${cfg.commitGlob}${featureName}/`
+            : cfg.commitGlob;
+        let copiedFiles: string[] = [];
+
+        // ── Step 1: Copy the files this job produced from main workspace → worktree ──
+        if (!updatedJob.worktreeIsolated) {
+            copiedFiles = await this.copyNewFilesToWorktree(jobIdx, cwd, wt, addGlob);
+            this.log(`[worktree] Copied ${copiedFiles.length} file(s) from main workspace to worktree for job ${job.indexLabel}`);
+
+            if (copiedFiles.length === 0) {
+                this.log(`[worktree] No files to copy for job ${job.indexLabel}, skipping commit.`);
+                return undefined;
+            }
+        }
+
+        // ── Step 2: Stage files in the worktree ──
+
+        // Try specific glob first, fall back to git add -A for any new files
+        const addResult = await this.git(['add', addGlob], wt);
+        if (!addResult.ok) {
+            await this.git(['add', '-A'], wt, { jobIdx, step: 'add' });
+        }
+
+        // Check if there's anything to commit
+        const diff = await this.gitService.output(['diff', '--cached', '--name-only'], wt);
+        if (!diff) {
+            this.log(`[worktree] No staged changes in worktree for job ${job.indexLabel}, skipping commit.`);
+            return undefined;
+        }
+
+        this.log(`[worktree] Staged files:\n${diff}`);
+        return { wt, branch: updatedJob.worktreeBranch, featureName, copiedFiles, files: diff.split(/\r?\n/).filter(Boolean) };
+    }
+
+    /**
+     * Steps 3–6: commit, sync with main, push, PR, and cleaning the main
+     * workspace; the worktree is removed unless an isolated job retries in
+     * it. With prStrategy perRun/batched the commit stays on the job's local
+     * branch and joins the next consolidated PR.
+     */
+    private async publishStagedChanges(jobIdx: number, staged: StagedChanges, canRetry: boolean): Promise<void> {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const cwd = root;
+        const cfg = this.getConfig();
+        const { wt, featureName } = staged;
+        const job = this.jobs[jobIdx];
+        const vars = gitTemplateVars(job);
+        let keepWorktree = false;
+
+        try {
+            const branch = await this.renameBranchForCommit(jobIdx, wt, staged.branch, vars);
+
+            // ── Step 3: Commit ──
+            const commitMsg = renderTextTemplate(cfg.commitMessageTemplate, vars) || renderTextTemplate(DEFAULT_COMMIT_MESSAGE_TEMPLATE, vars);
+            const commit = await this.git(['commit', '-m', commitMsg], wt, { jobIdx, step: 'commit' });
+            if (!commit.ok) return;
+
+            // ── Step 3b: Catch up with the latest main; a conflicted branch is never pushed ──
+            const conflict = await this.syncBranchWithMain(jobIdx, wt);
+            if (conflict) {
+                keepWorktree = await this.handleMainConflict(jobIdx, staged, branch, conflict, canRetry);
+                return;
+            }
+
+            if (cfg.prStrategy !== 'perJob') {
+                const sha = await this.gitService.output(['rev-parse', 'HEAD'], wt);
+                if (!sha) return;
+                this.jobs[jobIdx] = { ...this.jobs[jobIdx], batch: { commit: sha, pending: true } };
+                this.pendingBatch.push(jobIdx);
+                this.log(`[batch] Job ${job.indexLabel} committed to ${branch}; it goes into the ${cfg.prStrategy === 'perRun' ? 'run' : 'next batch'} PR.`);
+                this.changed();
+                if (staged.copiedFiles.length) await this.cleanAgentFilesFromMain(cwd, staged.copiedFiles);
+                return;
+            }
+
+            // ── Step 4: Push ──
+            const push = await this.git(['push', '-u', 'origin', branch], wt, {
+                jobIdx,
+                step: 'push',
+                timeoutMs: GIT_NETWORK_TIMEOUT_MS,
+            });
+            if (!push.ok) return;
+            this.log(`[worktree] Pushed ${branch}`);
+
+            // ── Step 5: Create PR (if configured) ──
+            const requirements = await this.readRequirements(job, wt);
+            const prVars = { ...gitTemplateVars(this.jobs[jobIdx], requirements), FeatureName: featureName };
+            await this.createPullRequest([jobIdx], wt, branch, prVars, renderTextTemplate(cfg.prDescriptionTemplate, prVars));
+
+            // ── Step 6: Clean up agent files from main workspace ──
+            if (staged.copiedFiles.length) {
+                await this.cleanAgentFilesFromMain(cwd, staged.copiedFiles);
+            }
+        } finally {
+            // ── Clean up the worktree ──
+            if (!keepWorktree) await this.cleanupWorktree(jobIdx);
+        }
+        if (this.jobs[jobIdx].batch?.pending) await this.flushBatches(false);
+    }
+
+    /**
+     * perRun/batched: opens the consolidated PRs that are due. A batch goes
+     * out as soon as it is full; the rest once the run is over (`final`) and
+     * no job is awaiting review. Flushes run one at a time.
+     */
+    private flushBatches(final: boolean): Promise<void> {
+        const flush = async () => {
+            const cfg = this.getConfig();
+            const size = cfg.prStrategy === 'batched' ? cfg.prBatchSize : Infinity;
+            while (this.pendingBatch.length >= size) await this.publishBatch(this.pendingBatch.splice(0, size));
+
+            const reviewing = this.jobs.some(j => j.status === 'AwaitingReview');
+            if (final && !reviewing && this.pendingBatch.length) await this.publishBatch(this.pendingBatch.splice(0));
+        };
+        const next = this.batchTail.then(flush);
+        this.batchTail = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Cherry-picks the jobs' commits, in queue order, onto one branch from
+     * origin/<main>, pushes it and opens a PR with a section per feature.
+     * Jobs that touch the same file compose when git can merge the edits
+     * (identical edits collapse). A job whose commit conflicts with those
+     * before it is left out, the conflicting paths are recorded on it, and
+     * its own branch gets its own PR instead.
+     */
+    private async publishBatch(jobIdxs: number[]) {
+        const root = this.host.workspaceRoot;
+        if (!root || !jobIdxs.length) return;
+
+        const cfg = this.getConfig();
+        const label = cfg.prStrategy === 'perRun' ? 'all' : `batch${++this.batchCount}`;
+        const first = this.jobs[jobIdxs[0]];
+        const named = renderBranchName(cfg.branchTemplate, { ...gitTemplateVars(first), Item: label, FeatureName: label });
+        if ('error' in named) {
+            this.log(`[batch] ${named.error}`);
+            for (const i of jobIdxs) this.recordGitFailure(i, 'branch name', undefined, named.error);
+            return;
+        }
+        const branch = named.branch;
+        const wt = path.join(path.isAbsolute(cfg.worktreeDir) ? cfg.worktreeDir : path.resolve(root, cfg.worktreeDir), `${first.runId}-${label}`);
+
+        const mainBranch = await this.detectMainBranch(root);
+        await this.gitService.run(['fetch', 'origin', mainBranch], root, { timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+        await this.git(['worktree', 'remove', wt, '--force'], root);
+        await this.git(['branch', '-D', branch], root);
+        const added = await this.git(['worktree', 'add', '-b', branch, wt, `origin/${mainBranch}`], root);
+        if (!added.ok) {
+            for (const i of jobIdxs) this.recordGitFailure(i, 'batch worktree', added);
+            return;
+        }
+
+        const included: number[] = [];
+        const conflicted: { jobIdx: number; paths: string[] }[] = [];
+        try {
+            for (const i of jobIdxs) {
+                const commit = this.jobs[i].batch?.commit;
+                if (!commit) continue;
+                const pick = await this.git(['cherry-pick', '--keep-redundant-commits', commit], wt);
+                if (pick.ok) {
+                    included.push(i);
+                    continue;
+                }
+                const unmerged = await this.gitService.output(['diff', '--name-only', '--diff-filter=U'], wt);
+                await this.git(['cherry-pick', '--abort'], wt);
+                conflicted.push({ jobIdx: i, paths: unmerged ? unmerged.split(/\r?\n/).filter(Boolean) : [] });
+            }
+
+            for (const i of included) this.jobs[i] = { ...this.jobs[i], batch: { ...this.jobs[i].batch!, pending: false, branch } };
+            for (const { jobIdx, paths } of conflicted) {
+                const message = `Conflicts with earlier jobs in ${branch}${paths.length ? `: ${paths.join(', ')}` : ''}`;
+                this.log(`[batch] Job ${this.jobs[jobIdx].indexLabel}: ${message}. Opening its own PR.`);
+                this.recordGitFailure(jobIdx, 'batch merge', undefined, message);
+                this.jobs[jobIdx] = { ...this.jobs[jobIdx], batch: { ...this.jobs[jobIdx].batch!, pending: false, conflicts: paths } };
+            }
+            this.changed();
+
+            if (included.length) {
+                const push = await this.gitService.run(['push', '-u', 'origin', branch], wt, { timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+                if (push.ok) {
+                    this.log(`[batch] Pushed ${branch} with ${included.length} job(s).`);
+                    const content = await this.batchPrContent(included, conflicted.map(c => c.jobIdx), wt, label);
+                    await this.createPullRequest(included, wt, branch, content.vars, content.description);
+                } else {
+                    for (const i of included) this.recordGitFailure(i, 'push', push);
+                }
+            }
+        } finally {
+            await this.git(['worktree', 'remove', wt, '--force'], root);
+        }
+
+        for (const { jobIdx } of conflicted) await this.publishJobBranch(jobIdx);
+    }
+
+    /**
+     * syncWithMain: fetches main and rebases (or merges) the job's committed
+     * branch onto it. On a conflict the rebase/merge is aborted, leaving the
+     * branch as committed, and the conflicting paths are returned.
+     */
+    private async syncBranchWithMain(jobIdx: number, wt: string): Promise<{ baseRef: string; paths: string[] } | undefined> {
+        const mode = this.getConfig().syncWithMain;
+        if (mode === 'off') return undefined;
+
+        const mainBranch = await this.detectMainBranch(wt);
+        const baseRef = `origin/${mainBranch}`;
+        await this.git(['fetch', 'origin', mainBranch], wt, { jobIdx, step: 'fetch', timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+
+        const synced = await this.git(mode === 'merge' ? ['merge', '--autostash', '--no-edit', baseRef] : ['rebase', '--autostash', baseRef], wt);
+        if (synced.ok) {
+            this.log(`[worktree] Job ${this.jobs[jobIdx].indexLabel}: ${mode === 'merge' ? 'merged' : 'rebased onto'} ${baseRef}`);
+            return undefined;
+        }
+
+        const unmerged = await this.gitService.output(['diff', '--name-only', '--diff-filter=U'], wt);
+        await this.git([mode, '--abort'], wt);
+        const paths = unmerged ? unmerged.split(/\r?\n/).filter(Boolean) : [];
+        // Not a content conflict (e.g. a dirty worktree): still not pushable
+        if (!paths.length) this.recordGitFailure(jobIdx, mode, synced);
+        return { baseRef, paths };
+    }
+
+    /**
+     * A job whose branch conflicts with the latest main is not pushed. With
+     * onSyncConflict "retry" and attempts left, the attempt fails with
+     * category "conflict" and the next prompt lists the paths: a shared
+     * workspace keeps the job's files, an isolated worktree restarts from
+     * main with the job's changes re-applied and git's conflict markers in
+     * place. Otherwise the job is NeedsAttention and its local branch is
+     * kept. Returns true when the worktree must stay for the retry.
+     */
+    private async handleMainConflict(
+        jobIdx: number,
+        staged: StagedChanges,
+        branch: string,
+        conflict: { baseRef: string; paths: string[] },
+        canRetry: boolean
+    ): Promise<boolean> {
+        const job = this.jobs[jobIdx];
+        const { wt } = staged;
+        const list = conflict.paths.join(', ') || 'no conflicting paths reported';
+        const mainConflict: MainConflict = { paths: conflict.paths, baseRef: conflict.baseRef, branch, at: Date.now() };
+        this.log(`[worktree] Job ${job.indexLabel}: conflicts with ${conflict.baseRef} in ${list}; not pushing ${branch}.`);
+
+        if (canRetry && this.getConfig().onSyncConflict === 'retry' && conflict.paths.length) {
+            const base = await this.gitService.output(['rev-parse', conflict.baseRef], wt);
+            const commit = job.worktreeIsolated && (await this.gitService.output(['rev-parse', 'HEAD'], wt));
+            if (commit) {
+                await this.git(['reset', '--hard', conflict.baseRef], wt, { jobIdx, step: 'reset to main' });
+                await this.git(['cherry-pick', '--no-commit', commit], wt);
+                await this.git(['reset', '-q'], wt);
+            } else if (this.host.workspaceRoot) {
+                await this.mergeMainIntoWorkspace(jobIdx, wt, this.host.workspaceRoot, conflict);
+            }
+            this.jobs[jobIdx] = {
+                ...this.jobs[jobIdx],
+                status: 'Failed',
+                finalStatus: 'FAIL',
+                failureCategory: 'conflict',
+                failureMessage: `Conflicts with ${conflict.baseRef} in ${list}`,
+                conflict: mainConflict,
+                // The retry's commit is made on the main it was told about
+                baseCommit: base || job.baseCommit,
+            };
+            this.changed();
+            return !!job.worktreeIsolated;
+        }
+
+        const root = this.host.workspaceRoot;
+        if (root && staged.copiedFiles.length) await this.cleanAgentFilesFromMain(root, staged.copiedFiles);
+        this.jobs[jobIdx] = {
+            ...this.jobs[jobIdx],
+            status: 'NeedsAttention',
+            failureMessage: `Not pushed: conflicts with ${conflict.baseRef} in ${list}. ${branch} is kept locally; rebase it onto ${conflict.baseRef} and push it.`,
+            conflict: mainConflict,
+        };
+        this.changed();
+        return false;
+    }
+
+    /**
+     * Shared-workspace conflict retry. The next attempt's commit is copied
+     * onto the latest main, so the agent's conflicting files in the workspace
+     * are replaced by a three-way merge with main's version — conflict
+     * markers included, like the cherry-pick leaves in an isolated worktree —
+     * for the agent to rework instead of overwriting main's change.
+     */
+    private async mergeMainIntoWorkspace(jobIdx: number, wt: string, root: string, conflict: { baseRef: string; paths: string[] }) {
+        const job = this.jobs[jobIdx];
+        const mergeBase = await this.gitService.output(['merge-base', 'HEAD', conflict.baseRef], wt);
+        const show = async (rev: string | undefined, rel: string) => {
+            if (!rev) return '';
+            const result = await this.gitService.run(['show', `${rev}:${rel}`], wt, { quiet: true });
+            return result.ok ? result.stdout : '';
+        };
+
+        const tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agent-loop-merge-'));
+        try {
+            for (const rel of conflict.paths) {
+                const file = resolveInside(root, rel);
+                if (!file) continue;
+                const main = path.join(tmp, 'main');
+                const base = path.join(tmp, 'base');
+                const mine = path.join(tmp, 'mine');
+                await fs.promises.writeFile(main, await show(conflict.baseRef, rel));
+                await fs.promises.writeFile(base, await show(mergeBase, rel));
+                await fs.promises.writeFile(mine, (await readTextFile(file)) ?? '');
+
+                // Exits with the number of conflicts; only a negative code or a spawn error is a failure
+                const merged = await this.gitService.run(['merge-file', '-p', '-L', conflict.baseRef, '-L', 'base', '-L', 'your change', main, base, mine], tmp, {
+                    quiet: true,
+                });
+                if (merged.error || merged.exitCode === null || merged.exitCode < 0 || merged.exitCode > 127) {
+                    this.log(`[worktree] Job ${job.indexLabel}: could not merge ${rel} with ${conflict.baseRef}: ${describeFailure(merged)}`);
+                    continue;
+                }
+                await fs.promises.mkdir(path.dirname(file), { recursive: true });
+                await fs.promises.writeFile(file, merged.stdout);
+            }
+        } finally {
+            await fs.promises.rm(tmp, { recursive: true, force: true });
+        }
+        this.log(`[worktree] Job ${job.indexLabel}: merged ${conflict.baseRef} into ${conflict.paths.join(', ')} in the workspace for the retry.`);
+    }
+
+    /** Title values and the per-feature PR body of a consolidated PR. */
+    private async batchPrContent(included: number[], leftOut: number[], wt: string, label: string) {
+        const cfg = this.getConfig();
+        const jobs = included.map(i => this.jobs[i]);
+        const features = jobs.map(j => j.featureName || `${j.runId}-${j.indexLabel}`);
+
+        const sections: string[] = [];
+        for (const job of jobs) {
+            const vars = gitTemplateVars(job, await this.readRequirements(job, wt));
+            sections.push(`## ${vars.FeatureName}\n\n${renderTextTemplate(cfg.prDescriptionTemplate, vars)}`);
+        }
+        const notes = leftOut.map(i => {
+            const job = this.jobs[i];
+            return `- ${job.featureName ?? job.indexLabel} (item ${job.indexLabel}): conflicts in ${job.batch?.conflicts?.join(', ') || 'unknown files'}; opened as its own PR`;
+        });
+
+        const vars = {
+            ...gitTemplateVars(jobs[0]),
+            Item: label,
+            FeatureName: features.length <= 3 ? features.join(', ') : `${features.length} features`,
+            URL: '',
+            Summary: '',
+        };
+        const description = [
+            `Consolidated Playwright specs from Agent Loop Runner (run ${jobs[0].runId}): ${features.length} feature(s).`,
+            ...sections,
+            ...(notes.length ? [`## Not included\n\n${notes.join('\n')}`] : []),
+        ].join('\n\n');
+        return { vars, description };
+    }
+
+    /** Pushes a job's own local branch and opens its PR, for a job left out of its batch. */
+    private async publishJobBranch(jobIdx: number) {
+        const root = this.host.workspaceRoot;
+        const job = this.jobs[jobIdx];
+        if (!root || !job.worktreeBranch) return;
+
+        const push = await this.git(['push', '-u', 'origin', job.worktreeBranch], root, { jobIdx, step: 'push', timeoutMs: GIT_NETWORK_TIMEOUT_MS });
+        if (!push.ok) return;
+        const vars = gitTemplateVars(job);
+        await this.createPullRequest([jobIdx], root, job.worktreeBranch, vars, renderTextTemplate(this.getConfig().prDescriptionTemplate, vars));
+    }
+
+    /**
+     * Re-renders branchTemplate now that the job's feature and status are
+     * known, and renames the worktree's branch when the name changed (an
+     * isolated job's branch was named before its agent ran). Keeps the old
+     * name when the new one is invalid or the rename fails.
+     */
+    private async renameBranchForCommit(jobIdx: number, wt: string, branch: string, vars: Record<string, string>): Promise<string> {
+        const named = renderBranchName(this.getConfig().branchTemplate, vars);
+        if ('error' in named) {
+            this.log(`[worktree] ${named.error}; keeping ${branch}.`);
+            return branch;
+        }
+        if (named.branch === branch) return branch;
+
+        const renamed = await this.git(['branch', '-m', branch, named.branch], wt, { jobIdx, step: 'rename branch' });
+        if (!renamed.ok) return branch;
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], worktreeBranch: named.branch };
+        this.changed();
+        return named.branch;
+    }
+
+    /**
+     * approvalMode: parks a PASSing job in AwaitingReview with its files
+     * staged in the worktree. Copied files leave the main workspace right
+     * away, so the next job starts clean while this one waits.
+     */
+    private async holdForReview(jobIdx: number, staged: StagedChanges) {
+        const root = this.host.workspaceRoot;
+        if (root && staged.copiedFiles.length) await this.cleanAgentFilesFromMain(root, staged.copiedFiles);
+
+        const job = this.jobs[jobIdx];
+        const mainBranch = await this.detectMainBranch(staged.wt);
+        this.jobs[jobIdx] = {
+            ...job,
+            status: 'AwaitingReview',
+            review: {
+                files: staged.files,
+                baseRef: `origin/${mainBranch}`,
+                passStatus: job.status === 'Flaky' ? 'Flaky' : 'Done',
+                stagedAt: Date.now(),
+            },
+        };
+        this.log(`[review] Job ${job.indexLabel} is awaiting review: ${staged.files.length} staged file(s) in ${staged.wt}`);
+        this.changed();
+    }
+
+    /**
+     * Commits, pushes and opens the PR for a job awaiting review. Everything
+     * needed is on the job, so this also works after the run was resumed.
+     */
+    public async approveJob(jobIdx: number) {
+        const job = this.jobs[jobIdx];
+        if (!job?.review || job.status !== 'AwaitingReview') return;
+        if (!job.worktreePath || !job.worktreeBranch || !fs.existsSync(job.worktreePath)) {
+            this.log(`[review] Job ${job.indexLabel}: its worktree is gone; nothing to approve.`);
+            return;
+        }
+        const staged: StagedChanges = {
+            wt: job.worktreePath,
+            branch: job.worktreeBranch,
+            featureName: job.featureName || `${job.runId}-${job.indexLabel}`,
+            copiedFiles: [], // already cleaned from the main workspace when the job was held
+            files: job.review.files,
+        };
+
+        this.jobs[jobIdx] = {
+            ...job,
+            status: job.review.passStatus,
+            review: { ...job.review, decision: 'approved', decidedAt: Date.now() },
+        };
+        this.log(`[review] Job ${job.indexLabel} approved.`);
+        this.changed();
+
+        await this.publishStagedChanges(jobIdx, staged, false);
+        this.changed();
+        if (!this.running) await this.flushBatches(true);
+    }
+
+    /**
+     * Discards a job awaiting review: its staged changes go through
+     * failedJobCleanup (so a patch or branch can keep them) and the worktree
+     * is removed. The job ends as Rejected with the reviewer's reason.
+     */
+    public async rejectJob(jobIdx: number, reason: string) {
+        const job = this.jobs[jobIdx];
+        if (!job?.review || job.status !== 'AwaitingReview') return;
+
+        const why = reason.trim() || 'No reason given.';
+        this.jobs[jobIdx] = {
+            ...job,
+            status: 'Rejected',
+            finalStatus: 'FAIL',
+            failureMessage: `Rejected in review: ${why}`,
+            review: { ...job.review, decision: 'rejected', reason: why, decidedAt: Date.now() },
+        };
+        this.log(`[review] Job ${job.indexLabel} rejected: ${why}`);
+        this.changed();
+
+        const cleanup = await this.cleanupUncommittedJob(jobIdx, true);
+        if (cleanup?.rolledBack !== false) await this.cleanupWorktree(jobIdx);
+        if (!this.running) await this.flushBatches(true);
+    }
+
+    /**
+     * The content of a staged file at the review's base ref — the left side
+     * of its diff. Empty for a file the job added.
+     */
+    public async reviewBaseContent(jobIdx: number, relPath: string): Promise<string> {
+        const job = this.jobs[jobIdx];
+        if (!job?.review || !job.worktreePath) return '';
+        const result = await this.gitService.run(['show', `${job.review.baseRef}:${relPath}`], job.worktreePath, { quiet: true });
+        return result.ok ? result.stdout : '';
+    }
+
+    /**
+     * Opens a PR for the pushed branch through the configured provider and
+     * stores what came back (URL, ID, state) on the job. Failures are shown
+     * in the job row but don't fail the job — the branch is already pushed.
+     */
+    private async createPullRequest(jobIdxs: number[], wt: string, sourceBranch: string, vars: Record<string, string>, description: string) {
+        const cfg = this.getConfig();
+        const provider = createPrProvider(cfg.prProvider, {
+            command: cfg.prCreateCommand,
+            autoComplete: cfg.prAutoComplete,
+            onOutput: line => this.log(`[pr] ${line}`),
+        });
+        if (!provider) return;
+
+        // A spec committed despite failing the stability check says so up front
+        const flaky = jobIdxs.some(i => this.jobs[i].status === 'Flaky');
+        const title = fillTemplate(cfg.prTitleTemplate, vars);
+        const labels = cfg.prLabels.map(l => fillTemplate(l, vars)).filter(Boolean);
+
+        const result = await provider.create({
+            cwd: wt,
+            sourceBranch,
+            targetBranch: await this.detectMainBranch(wt),
+            title: flaky ? `[flaky] ${title}` : title,
+            description,
+            reviewers: cfg.prReviewers.map(r => fillTemplate(r, vars)).filter(Boolean),
+            labels: flaky && !labels.includes(FLAKY_PR_LABEL) ? [...labels, FLAKY_PR_LABEL] : labels,
+            vars,
+        });
+
+        if (result.ok) {
+            const prResult = result.pr?.url ?? result.command?.stdout.trim() ?? '';
+            this.log(`[worktree] PR created via ${provider.kind}: ${prResult}${result.pr?.id ? ` (#${result.pr.id})` : ''}`);
+            for (const i of jobIdxs) this.jobs[i] = { ...this.jobs[i], pr: result.pr, prResult };
+        } else {
+            this.log(`[worktree] PR creation via ${provider.kind} failed (non-fatal).`);
+            for (const i of jobIdxs) {
+                this.recordGitFailure(i, 'create PR', result.command, result.error);
+                this.jobs[i] = { ...this.jobs[i], prResult: 'PR creation failed' };
+            }
+        }
+        this.changed();
+    }
+
+    /**
+     * The job's requirements file for {Requirements}: where the watcher saw
+     * it, or its copy in the worktree once the main workspace was cleaned.
+     */
+    private async readRequirements(job: Job, wt: string): Promise<string | undefined> {
+        const file = job.requirementsFile;
+        const root = this.host.workspaceRoot;
+        if (!file) return undefined;
+        const inWorktree = root && !path.relative(root, file).startsWith('..') ? path.join(wt, path.relative(root, file)) : undefined;
+        return (await readTextFile(file)) ?? (inWorktree ? await readTextFile(inWorktree) : undefined);
+    }
+
+    /** Dirty files of the main workspace, as `git status` lists them. */
+    private async workspaceStatus(cwd: string, pathspec?: string): Promise<StatusEntry[] | undefined> {
+        const args = ['status', '--porcelain', '-z', '--untracked-files=all'];
+        const status = await this.git(pathspec ? [...args, '--', pathspec] : args, cwd);
+        return status.ok ? parsePorcelainZ(status.stdout) : undefined;
+    }
+
+    /**
+     * Records the main workspace's dirty files and their contents before a
+     * job's agent runs in it. Untracked files are listed one by one: by
+     * default git only reports a new folder.
+     */
+    private async takeWorkspaceSnapshot(jobIdx: number) {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const entries = await this.workspaceStatus(root);
+        if (!entries) {
+            this.log(`[worktree] Could not snapshot the workspace for job ${this.jobs[jobIdx].indexLabel}; its commit will take every dirty file in commitGlob.`);
+            return;
+        }
+        const workspaceSnapshot = await takeSnapshot(root, entries);
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], workspaceSnapshot };
+        if (entries.length) {
+            this.log(`[worktree] Job ${this.jobs[jobIdx].indexLabel}: ${entries.length} file(s) already dirty will be left alone.`);
+        }
+        this.changed();
+    }
+
+    /**
+     * syncWithMain: remembers the newest main commit the shared workspace
+     * contains when the job starts, the base its changes are committed on.
+     */
+    private async recordBaseCommit(jobIdx: number) {
+        const root = this.host.workspaceRoot;
+        const cfg = this.getConfig();
+        if (!root || !cfg.enableWorktree || cfg.syncWithMain === 'off') return;
+
+        const mainBranch = await this.detectMainBranch(root);
+        const baseCommit = await this.gitService.output(['merge-base', 'HEAD', `origin/${mainBranch}`], root);
+        if (baseCommit) this.jobs[jobIdx] = { ...this.jobs[jobIdx], baseCommit };
+    }
+
+    /**
+     * Copies the files the job produced (dirty now, clean in its snapshot)
+     * and that match `addGlob` from the main workspace into the worktree.
+     * Files that were dirty before the job are never copied; the resulting
+     * file manifest is stored on the job. Returns the copied paths.
+     */
+    private async copyNewFilesToWorktree(jobIdx: number, cwd: string, worktreePath: string, addGlob: string): Promise<string[]> {
+        const entries = await this.workspaceStatus(cwd);
+        if (!entries?.length) return [];
+        const matching = await this.workspaceStatus(cwd, addGlob);
+
+        const job = this.jobs[jobIdx];
+        const files = await buildFileManifest(cwd, job.workspaceSnapshot, entries, new Set((matching ?? []).map(e => e.path)));
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], files };
+        this.changed();
+
+        if (files.refused.length) {
+            this.log(`[worktree] Job ${job.indexLabel}: not committing ${files.refused.length} file(s) that were already dirty before the job: ${files.refused.join(', ')}`);
+        }
+        if (files.leftInWorkspace.length) {
+            this.log(`[worktree] Job ${job.indexLabel}: ${files.leftInWorkspace.length} new file(s) outside ${addGlob} left in the workspace.`);
+        }
+
+        const copied: string[] = [];
+        for (const relPath of files.copied) {
+            const srcAbs = path.join(cwd, relPath);
+            const destAbs = path.join(worktreePath, relPath);
+
+            try {
+                // Ensure destination directory exists
+                await fs.promises.mkdir(path.dirname(destAbs), { recursive: true });
+                await fs.promises.copyFile(srcAbs, destAbs);
+                copied.push(relPath);
+            } catch (err) {
+                this.log(`[worktree] Failed to copy ${relPath}: ${err}`);
+            }
+        }
+
+        return copied;
+    }
+
+    /**
+     * After committing to the worktree, removes the job's committed files
+     * from the main workspace so the next job starts fresh: new files are
+     * deleted, modified ones restored. Nothing else is touched.
+     */
+    private async cleanAgentFilesFromMain(cwd: string, files: string[]): Promise<void> {
+        const entries = await this.workspaceStatus(cwd);
+        if (!entries) return;
+
+        const committed = new Set(files);
+        for (const { code, path: relPath } of entries) {
+            if (!committed.has(relPath)) continue;
+
+            if (code.includes('?')) {
+                // Untracked file — delete it
+                try { await fs.promises.unlink(path.join(cwd, relPath)); } catch { /* ignore */ }
+            } else if (code.includes('M')) {
+                // Modified tracked file — restore original
+                await this.git(['checkout', '--', relPath], cwd);
+            }
+        }
+
+        this.log(`[worktree] Cleaned ${committed.size} committed file(s) from main workspace.`);
+    }
+
+    /**
+     * Applies failedJobCleanup to the changes of a job that ended without a
+     * commit. The change set is the whole worktree for an isolated job, and
+     * the files changed since its snapshot in the main workspace otherwise;
+     * files that were dirty before the job are never touched. An isolated
+     * job's worktree is rolled back by removing it, which the caller does.
+     */
+    private async cleanupUncommittedJob(jobIdx: number, isolated: boolean): Promise<JobCleanup | undefined> {
+        const root = this.host.workspaceRoot;
+        const job = this.jobs[jobIdx];
+        const cwd = isolated ? job.worktreePath : root;
+        if (!root || !cwd || !fs.existsSync(cwd)) return undefined;
+
+        if (!isolated && !job.workspaceSnapshot) {
+            this.log(`[cleanup] Job ${job.indexLabel} has no workspace snapshot; its changes can't be told apart and are kept.`);
+            return undefined;
+        }
+        const entries = await this.workspaceStatus(cwd);
+        if (!entries) return undefined;
+        const changes = isolated || !job.workspaceSnapshot ? entries : changedSince(job.workspaceSnapshot, entries);
+        if (!changes.length) return undefined;
+
+        const policy = this.getConfig().failedJobCleanup;
+        const cleanup: JobCleanup = { policy, files: changes.map(e => e.path), rolledBack: false, at: Date.now() };
+
+        if (policy === 'patch' || policy === 'branch') {
+            const stashed = await this.stashChanges(jobIdx, cwd, changes, policy);
+            if (typeof stashed === 'string') cleanup.error = stashed;
+            else Object.assign(cleanup, stashed);
+        }
+        if (policy !== 'keep' && !cleanup.error) {
+            if (!isolated) await this.rollBackChanges(cwd, changes);
+            cleanup.rolledBack = true;
+        }
+
+        const where = cleanup.patchPath ? ` to ${path.relative(root, cleanup.patchPath)}` : cleanup.branch ? ` to branch ${cleanup.branch}` : '';
+        this.log(
+            cleanup.error
+                ? `[cleanup] Job ${job.indexLabel}: could not stash ${changes.length} changed file(s), keeping them: ${cleanup.error}`
+                : `[cleanup] Job ${job.indexLabel}: ${policy === 'keep' ? 'kept' : policy === 'rollback' ? 'rolled back' : `stashed${where} and rolled back`} ${changes.length} changed file(s).`
+        );
+        this.jobs[jobIdx] = { ...this.jobs[jobIdx], cleanup };
+        this.changed();
+        return cleanup;
+    }
+
+    /**
+     * Saves the change set as a binary patch under the run folder, or as a
+     * commit on a local `agent/<runId>-<item>-failed` branch. Both are built
+     * in a throwaway index, so neither the workspace nor its index changes.
+     * Returns an error message on failure.
+     */
+    private async stashChanges(
+        jobIdx: number,
+        cwd: string,
+        changes: StatusEntry[],
+        policy: 'patch' | 'branch'
+    ): Promise<{ patchPath?: string; branch?: string } | string> {
+        const root = this.host.workspaceRoot!;
+        const job = this.jobs[jobIdx];
+        const dir = path.join(root, RUNS_ROOT, this.runId, 'stash');
+        const env = { GIT_INDEX_FILE: path.join(dir, `${job.indexLabel}.index`) };
+
+        try {
+            await fs.promises.mkdir(dir, { recursive: true });
+            const git = (args: string[]) => this.gitService.run(args, cwd, { env, quiet: args[0] === 'diff' });
+            const staged = (await git(['read-tree', 'HEAD'])).ok && (await git(['add', '-A', '--', ...changes.map(e => e.path)])).ok;
+            if (!staged) return 'could not stage the changes';
+
+            if (policy === 'patch') {
+                const diff = await git(['diff', '--cached', '--binary', 'HEAD']);
+                if (!diff.ok) return describeFailure(diff);
+                const patchPath = path.join(dir, `${job.indexLabel}.patch`);
+                await fs.promises.writeFile(patchPath, diff.stdout, 'utf8');
+                return { patchPath };
+            }
+
+            const tree = await git(['write-tree']);
+            if (!tree.ok) return describeFailure(tree);
+            const message = `Uncommitted changes of job ${job.indexLabel} (run ${job.runId}, ${job.finalStatus ?? 'stopped'})`;
+            const commit = await git(['commit-tree', tree.stdout.trim(), '-p', 'HEAD', '-m', message]);
+            if (!commit.ok) return describeFailure(commit);
+            const branch = `agent/${job.runId}-${job.indexLabel}-failed`;
+            const created = await git(['branch', '-f', branch, commit.stdout.trim()]);
+            return created.ok ? { branch } : describeFailure(created);
+        } catch (err) {
+            return String(err);
+        } finally {
+            await fs.promises.rm(env.GIT_INDEX_FILE, { force: true });
+        }
+    }
+
+    /**
+     * Restores the main workspace's change set to HEAD: new files are
+     * deleted, modified and deleted tracked files checked out again.
+     */
+    private async rollBackChanges(cwd: string, changes: StatusEntry[]): Promise<void> {
+        const tracked: string[] = [];
+        for (const { code, path: relPath } of changes) {
+            if (code === '??' || code[0] === 'A') {
+                if (code[0] === 'A') await this.git(['rm', '--cached', '--force', '--quiet', '--', relPath], cwd);
+                try { await fs.promises.unlink(path.join(cwd, relPath)); } catch { /* ignore */ }
+                await removeEmptyParents(cwd, relPath);
+            } else {
+                tracked.push(relPath);
+            }
+        }
+        if (tracked.length) await this.git(['checkout', 'HEAD', '--', ...tracked], cwd);
+    }
+
+    /**
+     * Removes the worktree and ensures the main working directory is on the original branch.
+     */
+    private async cleanupWorktree(jobIdx: number): Promise<void> {
+        const root = this.host.workspaceRoot;
+        if (!root) return;
+
+        const cfg = this.getConfig();
+        if (!cfg.enableWorktree) return;
+
+        const job = this.jobs[jobIdx];
+        const cwd = root;
+
+        // Restore original branch if drifted
+        if (job.originalBranch && job.originalBranch !== 'unknown') {
+            const current = await this.gitService.output(['rev-parse', '--abbrev-ref', 'HEAD'], cwd);
+            if (current && current !== job.originalBranch) {
+                await this.git(['checkout', job.originalBranch], cwd, { jobIdx, step: 'restore branch' });
+            }
+        }
+
+        // Remove the worktree
+        if (job.worktreePath) {
+            await this.git(['worktree', 'remove', job.worktreePath, '--force'], cwd);
+            this.log(`[worktree] Removed worktree ${job.worktreePath}`);
+        }
+    }
+}
+
+/** How a failed attempt is described to the next one. */
+function attemptFailureOf(job: Job, attempt: number): AttemptFailure {
+    return {
+        attempt,
+        category: job.failureCategory ?? 'agentFail',
+        message: job.failureMessage,
+        failingTests: job.verification?.failing.length ? job.verification.failing : undefined,
+        unstableTests: job.stability?.unstable.length ? job.stability.unstable : undefined,
+        conflictingFiles: job.failureCategory === 'conflict' ? job.conflict?.paths : undefined,
+    };
+}
+
+/** Removes the folders above a deleted file that it leaves empty, up to `root`. */
+async function removeEmptyParents(root: string, relPath: string) {
+    for (let dir = path.dirname(relPath); dir && dir !== '.'; dir = path.dirname(dir)) {
+        try {
+            await fs.promises.rmdir(path.join(root, dir));
+        } catch {
+            return; // not empty
+        }
+    }
+}
+
+async function readTextFile(file: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(file, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/** The promise's value, or undefined after `ms`; the timer doesn't outlive the race. */
+function raceTimeout<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+        timer = setTimeout(() => resolve(undefined), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** "12 min" (or "40s" under a minute) for stall messages and the nudge. */
+function formatIdle(ms: number): string {
+    return ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60000)} min`;
+}
@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandResult, GIT_NETWORK_TIMEOUT_MS, OutputListener, RunOptions, describeFailure, runCommand, runExecutable } from './gitService';
+
+export type PrProviderKind = 'azureDevOps' | 'github' | 'command' | 'fake' | 'none';
+
+/** Everything a provider needs to open one pull request. */
+export interface PullRequestRequest {
+    cwd: string; // worktree the branch was pushed from
+    sourceBranch: string;
+    targetBranch: string;
+    title: string;
+    description: string;
+    reviewers: string[];
+    labels: string[];
+    // Template values, for providers that build their own command line
+    vars: Record<string, string>;
+}
+
+/** What we could learn about the created PR from the provider's output. */
+export interface PullRequestInfo {
+    provider: PrProviderKind;
+    url?: string;
+    id?: string;
+    state?: string;
+}
+
+export interface PullRequestResult {
+    ok: boolean;
+    pr?: PullRequestInfo;
+    error?: string;
+    command?: CommandResult;
+}
+
+export interface PullRequestProvider {
+    readonly kind: PrProviderKind;
+    create(req: PullRequestRequest): Promise<PullRequestResult>;
+}
+
+export interface PrProviderOptions {
+    // command provider: the configured command line, with {Token} placeholders
+    command?: string;
+    // azureDevOps provider: queue auto-complete on the PR
+    autoComplete?: boolean;
+    onOutput?: OutputListener;
+}
+
+export function createPrProvider(kind: PrProviderKind, opts: PrProviderOptions = {}): PullRequestProvider | undefined {
+    switch (kind) {
+        case 'azureDevOps':
+            return new AzureDevOpsCliProvider(opts);
+        case 'github':
+            return new GitHubCliProvider(opts);
+        case 'command':
+            return opts.command ? new CommandPrProvider(opts.command, opts) : undefined;
+        case 'fake':
+            return new FakePrProvider();
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Replaces {Token} placeholders (case-insensitive) with values from `vars`.
+ * Unknown tokens are left in place.
+ */
+export function fillTemplate(template: string, vars: Record<string, string>): string {
+    const lower = new Map(Object.entries(vars).map(([k, v]) => [k.toLowerCase(), v]));
+    return template.replace(/\{(\w+)\}/g, (m, key: string) => lower.get(key.toLowerCase()) ?? m);
+}
+
+// ---------------------------- Azure DevOps ----------------------------
+
+/**
+ * `az repos pr create` with `--output json`, reading pullRequestId, status
+ * and the repository web URL back from the response.
+ */
+export class AzureDevOpsCliProvider implements PullRequestProvider {
+    public readonly kind = 'azureDevOps' as const;
+
+    constructor(private readonly opts: PrProviderOptions = {}) {}
+
+    public async create(req: PullRequestRequest): Promise<PullRequestResult> {
+        const args = [
+            'repos',
+            'pr',
+            'create',
+            '--source-branch',
+            req.sourceBranch,
+            '--target-branch',
+            req.targetBranch,
+            '--title',
+            req.title,
+            '--output',
+            'json',
+        ];
+        if (req.reviewers.length) args.push('--reviewers', ...req.reviewers);
+        if (req.labels.length) args.push('--labels', ...req.labels);
+        if (this.opts.autoComplete) args.push('--auto-complete', 'true');
+
+        // az reads an `@file` argument from the file, so the markdown never
+        // goes through a command line
+        const result = await withDescriptionFile(req.description, file =>
+            runExecutable('az', req.description ? [...args, '--description', `@${file}`] : args, req.cwd, {
+                timeoutMs: GIT_NETWORK_TIMEOUT_MS,
+                onOutput: this.opts.onOutput,
+            })
+        );
+        if (!result.ok) return { ok: false, error: describeFailure(result), command: result };
+
+        const pr = parseAzureDevOpsPr(result.stdout);
+        return { ok: true, pr: pr ?? { provider: this.kind, ...parseGenericPrOutput(result.stdout) }, command: result };
+    }
+}
+
+export function parseAzureDevOpsPr(stdout: string): PullRequestInfo | undefined {
+    let data: any;
+    try {
+        data = JSON.parse(stdout);
+    } catch {
+        return undefined;
+    }
+    if (!data || typeof data !== 'object') return undefined;
+
+    const id = data.pullRequestId !== undefined ? String(data.pullRequestId) : undefined;
+    const webUrl: string | undefined = data.repository?.webUrl;
+    return {
+        provider: 'azureDevOps',
+        id,
+        state: data.status ? String(data.status) : undefined,
+        url: webUrl && id ? `${webUrl.replace(/\/$/, '')}/pullrequest/${id}` : undefined,
+    };
+}
+
+// ---------------------------- GitHub ----------------------------
+
+/**
+ * `gh pr create`, which prints the new PR's URL on stdout. The body goes by
+ * file (--body-file).
+ */
+export class GitHubCliProvider implements PullRequestProvider {
+    public readonly kind = 'github' as const;
+
+    constructor(private readonly opts: PrProviderOptions = {}) {}
+
+    public async create(req: PullRequestRequest): Promise<PullRequestResult> {
+        const args = ['pr', 'create', '--head', req.sourceBranch, '--base', req.targetBranch, '--title', req.title];
+        for (const r of req.reviewers) args.push('--reviewer', r);
+        for (const l of req.labels) args.push('--label', l);
+
+        const result = await withDescriptionFile(req.description, file =>
+            runExecutable('gh', [...args, '--body-file', file], req.cwd, { timeoutMs: GIT_NETWORK_TIMEOUT_MS, onOutput: this.opts.onOutput })
+        );
+        if (!result.ok) return { ok: false, error: describeFailure(result), command: result };
+
+        const info = parseGenericPrOutput(result.stdout);
+        return { ok: true, pr: { provider: this.kind, state: 'open', ...info }, command: result };
+    }
+}
+
+// ---------------------------- Generic command ----------------------------
+
+/**
+ * Runs a user-configured command line through the shell. Placeholders:
+ * {FeatureName}, {RunId}, {Item}, {URL}, {Title}, {Description},
+ * {DescriptionFile}, {SourceBranch}, {TargetBranch}. JSON output with
+ * url/id/state fields is understood; otherwise the first URL in the output is
+ * taken as the PR link.
+ *
+ * Values never become part of the command line: each placeholder turns into a
+ * quoted reference to an environment variable holding the value (see
+ * fillShellTemplate), and {DescriptionFile} names a temp file with the
+ * description, for CLIs that take the body from a file.
+ */
+export class CommandPrProvider implements PullRequestProvider {
+    public readonly kind = 'command' as const;
+
+    constructor(private readonly command: string, private readonly opts: PrProviderOptions = {}) {}
+
+    public async create(req: PullRequestRequest): Promise<PullRequestResult> {
+        const result = await withDescriptionFile(req.description, file => {
+            const { command, env } = fillShellTemplate(this.command, {
+                ...req.vars,
+                Title: req.title,
+                Description: req.description,
+                DescriptionFile: file,
+                SourceBranch: req.sourceBranch,
+                TargetBranch: req.targetBranch,
+            });
+            return runShellCommand(command, req.cwd, {
+                env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...env },
+                timeoutMs: GIT_NETWORK_TIMEOUT_MS,
+                onOutput: this.opts.onOutput,
+            });
+        });
+        if (!result.ok) return { ok: false, error: describeFailure(result), command: result };
+
+        const pr = parseAzureDevOpsPr(result.stdout) ?? { provider: this.kind, ...parseGenericPrOutput(result.stdout) };
+        return { ok: true, pr: { ...pr, provider: this.kind }, command: result };
+    }
+}
+
+/**
+ * Like fillTemplate, but for a shell command line: each known {Token} becomes
+ * `"$AGENT_LOOP_TOKEN"` (`"!AGENT_LOOP_TOKEN!"` for cmd.exe) and its value
+ * goes into `env`, so quotes, backticks or `$(...)` in a value are never
+ * parsed by the shell. The reference works inside and outside double quotes.
+ */
+export function fillShellTemplate(
+    template: string,
+    vars: Record<string, string>,
+    platform: NodeJS.Platform = process.platform
+): { command: string; env: Record<string, string> } {
+    const byLower = new Map(Object.keys(vars).map(k => [k.toLowerCase(), k]));
+    const env: Record<string, string> = {};
+    const command = template.replace(/\{(\w+)\}/g, (m, token: string) => {
+        const key = byLower.get(token.toLowerCase());
+        if (key === undefined) return m;
+        const name = `AGENT_LOOP_${key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+        env[name] = vars[key];
+        return platform === 'win32' ? `"!${name}!"` : `"$${name}"`;
+    });
+    return { command, env };
+}
+
+/**
+ * Runs a command line through the shell. On Windows that is cmd.exe with
+ * delayed expansion on, which expands !VAR! after the line is parsed (unlike
+ * %VAR%), so a value can't add cmd syntax.
+ */
+function runShellCommand(command: string, cwd: string, opts: RunOptions): Promise<CommandResult> {
+    if (process.platform !== 'win32') return runCommand(command, [], cwd, { ...opts, shell: true });
+    return runCommand(process.env.comspec || 'cmd.exe', ['/d', '/v:on', '/s', '/c', `"${command}"`], cwd, { ...opts, windowsVerbatimArguments: true });
+}
+
+/** Writes the PR description to a temp file for the duration of `fn`. */
+async function withDescriptionFile<T>(description: string, fn: (file: string) => Promise<T>): Promise<T> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agent-loop-pr-'));
+    try {
+        const file = path.join(dir, 'description.md');
+        await fs.promises.writeFile(file, description, 'utf8');
+        return await fn(file);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Best-effort extraction from free-form CLI output: a JSON object with
+ * url/id/state (or GitHub's number/html_url), else the first http(s) URL,
+ * with the ID taken from a trailing /pull/<n> or /pullrequest/<n>.
+ */
+export function parseGenericPrOutput(stdout: string): Omit<PullRequestInfo, 'provider'> {
+    const trimmed = stdout.trim();
+    if (trimmed.startsWith('{')) {
+        try {
+            const data = JSON.parse(trimmed);
+            const url = data.url ?? data.html_url ?? data.webUrl;
+            const id = data.id ?? data.number ?? data.pullRequestId;
+            const state = data.state ?? data.status;
+            if (url || id) {
+                return {
+                    url: typeof url === 'string' ? url : undefined,
+                    id: id !== undefined ? String(id) : undefined,
+                    state: state !== undefined ? String(state) : undefined,
+                };
+            }
+        } catch {
+            // Not JSON after all — fall through to URL scraping
+        }
+    }
+
+    const url = trimmed.match(/https?:\/\/[^\s"'<>]+/)?.[0];
+    const id = url?.match(/\/(?:pull|pullrequest|pull-requests|merge_requests)\/(\d+)/i)?.[1];
+    return { url, id };
+}
+
+// ---------------------------- Fake ----------------------------
+
+/**
+ * Offline provider: records each request and returns a made-up PR, so the
+ * commit → PR flow can be exercised without network access or CLIs.
+ */
+export class FakePrProvider implements PullRequestProvider {
+    public readonly kind = 'fake' as const;
+    public readonly created: PullRequestRequest[] = [];
+
+    constructor(private readonly failWith?: string) {}
+
+    public async create(req: PullRequestRequest): Promise<PullRequestResult> {
+        if (this.failWith) return { ok: false, error: this.failWith };
+
+        this.created.push(req);
+        const id = String(this.created.length);
+        return {
+            ok: true,
+            pr: { provider: this.kind, id, state: 'active', url: `https://example.invalid/pullrequest/${id}` },
+        };
+    }
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { splitFrontMatter } from './frontMatter';
+import { PrProviderKind } from './prProviders';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+/** One line of the checklist shown before a run starts. */
+export interface PreflightCheck {
+    name: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+/** Whether failed checks stop the run, are only shown, or aren't run at all. */
+export type PreflightMode = 'block' | 'warn' | 'off';
+
+/** Chat commands the chat executor sends prompts with. */
+export const CHAT_COMMANDS = ['workbench.action.chat.open', 'workbench.action.chat.newChat', 'workbench.action.chat.acceptInput'];
+
+/**
+ * Checks an agent file's text (undefined when the file is missing). A
+ * missing file fails only when `required` (the chat executor selects the
+ * agent by it); front matter that doesn't parse always fails.
+ */
+export function checkAgentFile(agent: string, file: string, text: string | undefined, required: boolean): PreflightCheck {
+    const name = `Agent ${agent}`;
+    if (text === undefined) {
+        return { name, status: required ? 'fail' : 'warn', detail: `${file} not found${required ? '' : ' (only the chat executor uses it)'}` };
+    }
+    const fm = splitFrontMatter(text);
+    if (!fm) return { name, status: 'warn', detail: `${file} has no front matter (description, tools)` };
+    if (fm.errors.length) return { name, status: 'fail', detail: `${file}: ${fm.errors.join(' ')}` };
+    if (!fm.body.trim()) return { name, status: 'warn', detail: `${file} has no instructions after its front matter` };
+
+    const keys = Object.keys(fm.data);
+    return { name, status: 'pass', detail: `${file}${keys.length ? ` (${keys.join(', ')})` : ''}` };
+}
+
+/**
+ * The program a PR provider runs: az, gh, or the first word of
+ * prCreateCommand. Undefined when no program is run.
+ */
+export function prBinary(kind: PrProviderKind, command: string): string | undefined {
+    if (kind === 'azureDevOps') return 'az';
+    if (kind === 'github') return 'gh';
+    if (kind !== 'command') return undefined;
+    const m = command.match(/^\s*(?:"([^"]+)"|'([^']+)'|(\S+))/);
+    return m ? m[1] ?? m[2] ?? m[3] : undefined;
+}
+
+/**
+ * Finds a program the way a shell would: a name with a path separator is
+ * checked as is (relative to `cwd`), a bare name is looked up on PATH, with
+ * the PATHEXT extensions on Windows. Returns the resolved path.
+ */
+export async function findExecutable(bin: string, cwd: string, env: NodeJS.ProcessEnv = process.env): Promise<string | undefined> {
+    const win = process.platform === 'win32';
+    const exts = win ? ['', ...(env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)] : [''];
+    const candidates = /[\\/]/.test(bin)
+        ? [path.resolve(cwd, bin)]
+        : (env.PATH ?? env.Path ?? '')
+              .split(path.delimiter)
+              .filter(Boolean)
+              .map(dir => path.join(dir, bin));
+
+    for (const candidate of candidates) {
+        for (const ext of exts) {
+            const file = candidate + ext;
+            try {
+                const stat = await fs.promises.stat(file);
+                if (!stat.isFile()) continue;
+                if (!win) await fs.promises.access(file, fs.constants.X_OK);
+                return file;
+            } catch {
+                // Not here; keep looking
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether files can be created in `dir`: the folder itself when it exists,
+ * otherwise the nearest existing parent it would be created under. Returns
+ * what is wrong, or undefined.
+ */
+export async function checkWritableDir(dir: string): Promise<string | undefined> {
+    for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+        try {
+            const stat = await fs.promises.stat(current);
+            if (!stat.isDirectory()) return `${current} is not a folder`;
+            await fs.promises.access(current, fs.constants.W_OK);
+            return undefined;
+        } catch (e: any) {
+            if (e?.code !== 'ENOENT' && e?.code !== 'ENOTDIR') return `${current} is not writable`;
+            if (path.dirname(current) === current) return `no existing parent folder for ${dir}`;
+        }
+    }
+}
+
+/** With "block", a failed check stops the run. */
+export function preflightBlocks(checks: PreflightCheck[], mode: PreflightMode): boolean {
+    return mode === 'block' && checks.some(c => c.status === 'fail');
+}
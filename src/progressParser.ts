@@ -0,0 +1,246 @@
+/**
+ * Reads an agent's progress file for the job row: the phase it has reached
+ * (the furthest phase whose heading appears), its browser-validation batch,
+ * and how many capabilities its Validated Steps tables mark as validated
+ * against the capability inventory. Which headings, tables and status values
+ * count is configured per agent (progressRules).
+ */
+
+/** A phase and the heading (case-insensitive regex) that starts it. */
+export interface ProgressPhaseRule {
+    name: string;
+    heading: string;
+}
+
+/**
+ * How one agent's progress file is read. Headings are matched against their
+ * text without the #s and emphasis, e.g. "Validated Steps (Phase 4)". An
+ * empty pattern turns that part off.
+ */
+export interface ProgressRules {
+    phases: ProgressPhaseRule[];
+    inventoryHeading: string; // section whose "- [ ]" checklist lists the capabilities
+    stepsHeading: string; // section whose tables record validated capabilities
+    stepsPhase: string; // phase whose share of the bar fills as capabilities are validated
+    batchHeading: string; // "(\d+)" is the batch, an optional second group the batch count
+    statusColumn: string; // table column, or Field row, holding a capability's status
+    validatedStatus: string;
+    failedStatus: string;
+}
+
+/** What the job row shows for a progress file. */
+export interface ProgressSummary {
+    phase?: string; // undefined until the first phase heading appears
+    phaseIndex: number; // 0-based; -1 before the first phase
+    phaseCount: number;
+    batch?: number;
+    batchCount?: number;
+    capabilities?: number; // inventory size, when the file has one
+    steps: number; // capabilities with a status in the Validated Steps tables
+    validated: number;
+    failed: number;
+    percent: number;
+}
+
+/** The Planning agent's progress file schema (.github/agents/PlaywrightLoopPlanning.agent.md). */
+export const DEFAULT_PROGRESS_RULES: ProgressRules = {
+    phases: [
+        { name: 'Feature Code Analysis', heading: '^Feature Code Analysis' },
+        { name: 'Domain Enrichment', heading: '^Domain Enrichment' },
+        { name: 'ADO Research', heading: '^(ADO Test Cases|ADO Steps|Gap Analysis|Test Classification)' },
+        { name: 'Resource Planning', heading: '^(Resource Sufficiency Analysis|Provisioned Test Resources)' },
+        { name: 'Browser Validation', heading: '^(Validated Steps|Batch \\d+)' },
+        { name: 'Finalization', heading: '^(Test Coverage Analysis|Implementation Details)' },
+    ],
+    inventoryHeading: '^(Feature Capability Inventory|Capabilities)\\b',
+    stepsHeading: '^Validated Steps',
+    stepsPhase: 'Browser Validation',
+    batchHeading: '^Batch (\\d+)(?:\\s*(?:of|/)\\s*(\\d+))?',
+    statusColumn: 'Status',
+    validatedStatus: '\\b(validated|passed|pass)\\b',
+    failedStatus: '\\b(failed|fail|discrepancy)\\b',
+};
+
+// Rules for agents without their own entry
+const ANY_AGENT = '*';
+
+const PATTERN_KEYS = ['inventoryHeading', 'stepsHeading', 'batchHeading', 'validatedStatus', 'failedStatus'] as const;
+
+/**
+ * Validates the raw `progressRules` setting: agent name (or "*") → rules.
+ * Fields left out fall back to the Planning agent's; an entry with an
+ * invalid pattern is dropped with an error.
+ */
+export function parseProgressRules(raw: unknown): { rules: Record<string, ProgressRules>; errors: string[] } {
+    const rules: Record<string, ProgressRules> = {};
+    const errors: string[] = [];
+    if (raw === undefined || raw === null) return { rules, errors };
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        errors.push('progressRules must map agent names to rules.');
+        return { rules, errors };
+    }
+
+    for (const [agent, entry] of Object.entries(raw as Record<string, unknown>)) {
+        const label = `progressRules["${agent}"]`;
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            errors.push(`${label}: expected an object.`);
+            continue;
+        }
+        const e = entry as Record<string, unknown>;
+        const parsed: ProgressRules = { ...DEFAULT_PROGRESS_RULES };
+
+        if (e.phases !== undefined) {
+            if (!Array.isArray(e.phases) || !e.phases.every(p => p && typeof p.name === 'string' && typeof p.heading === 'string')) {
+                errors.push(`${label}: phases must be a list of { "name", "heading" }.`);
+                continue;
+            }
+            parsed.phases = e.phases.map(p => ({ name: p.name, heading: p.heading }));
+        }
+        const notString = (['stepsPhase', 'statusColumn', ...PATTERN_KEYS] as const).find(k => e[k] !== undefined && typeof e[k] !== 'string');
+        if (notString) {
+            errors.push(`${label}: ${notString} must be a string.`);
+            continue;
+        }
+        for (const key of ['stepsPhase', 'statusColumn', ...PATTERN_KEYS] as const) {
+            if (e[key] !== undefined) parsed[key] = e[key] as string;
+        }
+
+        const patterns = [...parsed.phases.map(p => p.heading), ...PATTERN_KEYS.map(k => parsed[k])];
+        const invalid = patterns.find(p => !toRegExp(p) && p !== '');
+        if (invalid !== undefined) {
+            errors.push(`${label}: "${invalid}" is not a valid regular expression.`);
+            continue;
+        }
+        rules[agent] = parsed;
+    }
+
+    return { rules, errors };
+}
+
+/** The rules for an agent: its own entry, then "*", then the Planning agent's. */
+export function progressRulesFor(rules: Record<string, ProgressRules>, agent: string | undefined): ProgressRules {
+    return (agent !== undefined ? rules[agent] : undefined) ?? rules[ANY_AGENT] ?? DEFAULT_PROGRESS_RULES;
+}
+
+interface Section {
+    level: number;
+    text: string;
+    lines: string[];
+}
+
+/** Summarizes a progress file; unknown layouts just show no phase. */
+export function parseProgressFile(text: string, rules: ProgressRules = DEFAULT_PROGRESS_RULES): ProgressSummary {
+    const sections = splitSections(text);
+    const phaseRes = rules.phases.map(p => toRegExp(p.heading));
+    const inventoryRe = toRegExp(rules.inventoryHeading);
+    const stepsRe = toRegExp(rules.stepsHeading);
+    const batchRe = toRegExp(rules.batchHeading);
+
+    let phaseIndex = -1;
+    let batch: number | undefined;
+    let batchCount: number | undefined;
+    for (const s of sections) {
+        phaseRes.forEach((re, i) => {
+            if (re?.test(s.text)) phaseIndex = Math.max(phaseIndex, i);
+        });
+        const m = batchRe ? s.text.match(batchRe) : null;
+        if (m?.[1] && Number(m[1]) >= (batch ?? 0)) {
+            batch = Number(m[1]);
+            if (m[2]) batchCount = Number(m[2]);
+        }
+    }
+
+    let capabilities: number | undefined;
+    if (inventoryRe) {
+        const items = linesUnder(sections, inventoryRe).filter(l => /^\s*[-*]\s+\[[ xX!]\]/.test(l));
+        if (items.length) capabilities = items.length;
+    }
+
+    const validatedRe = toRegExp(rules.validatedStatus);
+    const failedRe = toRegExp(rules.failedStatus);
+    const statuses = stepsRe ? tableStatuses(linesUnder(sections, stepsRe), rules.statusColumn) : [];
+    const validated = statuses.filter(s => validatedRe?.test(s)).length;
+    const failed = statuses.filter(s => !validatedRe?.test(s) && failedRe?.test(s)).length;
+
+    const phaseCount = rules.phases.length;
+    const phase = phaseIndex >= 0 ? rules.phases[phaseIndex].name : undefined;
+    const within = phase === rules.stepsPhase && capabilities ? Math.min(1, statuses.length / capabilities) : 0;
+    const percent = phaseIndex >= 0 && phaseCount ? Math.round((100 * (phaseIndex + within)) / phaseCount) : 0;
+
+    return { phase, phaseIndex, phaseCount, batch, batchCount, capabilities, steps: statuses.length, validated, failed, percent };
+}
+
+/** Headings with the lines up to the next heading; text before the first one is dropped. */
+function splitSections(text: string): Section[] {
+    const sections: Section[] = [];
+    let inFence = false;
+    for (const line of text.split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const m = inFence ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (m) sections.push({ level: m[1].length, text: plain(m[2]), lines: [] });
+        else sections[sections.length - 1]?.lines.push(line);
+    }
+    return sections;
+}
+
+/** The lines of every section matching `re`, including its subsections. */
+function linesUnder(sections: Section[], re: RegExp): string[] {
+    const lines: string[] = [];
+    let level: number | undefined;
+    for (const s of sections) {
+        if (level !== undefined && s.level <= level) level = undefined;
+        if (level === undefined && re.test(s.text)) level = s.level;
+        if (level !== undefined) lines.push(...s.lines);
+    }
+    return lines;
+}
+
+/**
+ * Capability statuses from markdown tables: one per row of a table with a
+ * status column (a row per capability), or one per Field/Value table whose
+ * status row is filled in (a table per capability).
+ */
+function tableStatuses(lines: string[], statusColumn: string): string[] {
+    const wanted = statusColumn.trim().toLowerCase();
+    const statuses: string[] = [];
+    let header: string[] | undefined;
+    let column = -1;
+
+    for (const line of lines) {
+        if (!line.trim().startsWith('|')) {
+            header = undefined;
+            continue;
+        }
+        const cells = line
+            .trim()
+            .replace(/^\||\|$/g, '')
+            .split('|')
+            .map(c => plain(c));
+        if (!header) {
+            header = cells;
+            column = cells.findIndex(c => c.toLowerCase() === wanted);
+            continue;
+        }
+        if (cells.every(c => /^:?-*:?$/.test(c))) continue; // separator row
+
+        if (column >= 0) {
+            if (cells[column]) statuses.push(cells[column]);
+        } else if (cells[0]?.toLowerCase() === wanted && cells[1]) {
+            statuses.push(cells[1]);
+        }
+    }
+    return statuses;
+}
+
+function plain(text: string): string {
+    return text.replace(/[*_`]/g, '').trim();
+}
+
+function toRegExp(pattern: string): RegExp | undefined {
+    if (!pattern) return undefined;
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,72 @@
+import { splitFrontMatter } from './frontMatter';
+
+/** Tokens the runner fills in for every prompt. */
+export const BUILTIN_TOKENS = ['URL', 'RunId', 'Item', 'Attempt', 'MaxLoopsPerUrl'] as const;
+
+/**
+ * A reusable prompt from .agent-loop-runner/templates/<id>.md:
+ *
+ *   ---
+ *   name: CRUD coverage
+ *   description: Create/read/update/delete on every tab
+ *   agent: PlaywrightLoopPlanning
+ *   variables: [ResourceGroup, SiteName]
+ *   ---
+ *   Test all CRUD operations for {{SiteName}} in {{ResourceGroup}} at {{URL}}.
+ */
+export interface PromptTemplate {
+    id: string; // file name without .md
+    file: string;
+    name: string;
+    description?: string;
+    agent?: string; // default agent for rows using this template
+    variables: string[]; // required per-row values
+    body: string;
+    errors: string[]; // front matter problems
+}
+
+export function parsePromptTemplate(id: string, file: string, text: string): PromptTemplate {
+    const template: PromptTemplate = { id, file, name: id, variables: [], body: text.trim(), errors: [] };
+    const fm = splitFrontMatter(text);
+    if (!fm) return template;
+
+    template.body = fm.body.trim();
+    template.errors.push(...fm.errors);
+
+    const { name, description, agent, variables } = fm.data;
+    if (typeof name === 'string' && name.trim()) template.name = name.trim();
+    if (typeof description === 'string' && description.trim()) template.description = description.trim();
+    if (typeof agent === 'string' && agent.trim()) template.agent = agent.trim();
+
+    if (variables !== undefined && variables !== null && variables !== '') {
+        const list = Array.isArray(variables) ? variables : [variables];
+        for (const v of list.map(x => String(x).trim()).filter(Boolean)) {
+            if (!/^\w+$/.test(v)) template.errors.push(`Variable "${v}" must be letters, digits or _.`);
+            else if (!template.variables.includes(v)) template.variables.push(v);
+        }
+    }
+
+    if (!template.body) template.errors.push('Template body is empty.');
+    return template;
+}
+
+/** Distinct {{Token}} names in a prompt, in order of first use. */
+export function findTokens(text: string): string[] {
+    return [...new Set([...text.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]))];
+}
+
+/**
+ * Checks a prompt body against the values a row will have:
+ *   unknown — {{tokens}} that are neither built in, declared as a template
+ *             variable, nor supplied by the row (would reach the agent verbatim)
+ *   missing — declared variables the row has no value for
+ */
+export function checkTemplateTokens(body: string, declared: string[], values: Record<string, string>): { unknown: string[]; missing: string[] } {
+    const known = new Set<string>([...BUILTIN_TOKENS, ...declared, ...Object.keys(values)]);
+    const hasValue = (name: string) => !!values[name]?.trim();
+
+    return {
+        unknown: findTokens(body).filter(t => !known.has(t)),
+        missing: declared.filter(v => !hasValue(v)),
+    };
+}
@@ -0,0 +1,208 @@
+export type ReportFormat = 'json' | 'markdown' | 'junit';
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+    json: 'json',
+    markdown: 'md',
+    junit: 'xml',
+};
+
+/**
+ * The slice of a job that goes into a run report. Kept structural so the
+ * panel's Job objects can be passed in directly.
+ */
+export interface ReportJob {
+    indexLabel: string;
+    url: string;
+    status: string;
+    featureName?: string;
+    attemptsUsed: number;
+    maxLoops: number;
+    finalStatus?: 'PASS' | 'FAIL';
+    reason?: string;
+    failureMessage?: string;
+    specFile?: string;
+    prResult?: string;
+    firstStartedAt?: number;
+    finishedAt?: number;
+}
+
+export interface RunReport {
+    runId: string;
+    startedAt?: number;
+    generatedAt: number;
+    totals: { jobs: number; pass: number; fail: number; unfinished: number };
+    jobs: (ReportJob & { durationMs?: number; result: 'PASS' | 'FAIL' | 'UNFINISHED' })[];
+}
+
+export function buildRunReport(runId: string, startedAt: number | undefined, jobs: ReportJob[]): RunReport {
+    const rows = jobs.map(j => ({
+        indexLabel: j.indexLabel,
+        url: j.url,
+        status: j.status,
+        featureName: j.featureName,
+        attemptsUsed: j.attemptsUsed,
+        maxLoops: j.maxLoops,
+        finalStatus: j.finalStatus,
+        reason: j.reason,
+        failureMessage: j.failureMessage,
+        specFile: j.specFile,
+        prResult: j.prResult,
+        firstStartedAt: j.firstStartedAt,
+        finishedAt: j.finishedAt,
+        durationMs: j.firstStartedAt && j.finishedAt ? j.finishedAt - j.firstStartedAt : undefined,
+        result: jobResult(j),
+    }));
+
+    return {
+        runId,
+        startedAt: startedAt || undefined,
+        generatedAt: Date.now(),
+        totals: {
+            jobs: rows.length,
+            pass: rows.filter(r => r.result === 'PASS').length,
+            fail: rows.filter(r => r.result === 'FAIL').length,
+            unfinished: rows.filter(r => r.result === 'UNFINISHED').length,
+        },
+        jobs: rows,
+    };
+}
+
+export function renderReport(report: RunReport, format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(report, null, 2) + '\n';
+        case 'markdown':
+            return renderMarkdownReport(report);
+        case 'junit':
+            return renderJUnitReport(report);
+    }
+}
+
+/**
+ * A job counts as PASS/FAIL once the runner is done with it (a flaky spec
+ * counts as PASS when it was committed anyway); anything still
+ * queued, running or stopped before it started is UNFINISHED.
+ */
+function jobResult(j: ReportJob): 'PASS' | 'FAIL' | 'UNFINISHED' {
+    if (j.status === 'Done') return 'PASS';
+    if (j.status === 'Flaky') return j.finalStatus === 'PASS' ? 'PASS' : 'FAIL';
+    if (j.status === 'Failed' || j.status === 'Rejected' || j.status === 'NeedsAttention') return 'FAIL';
+    return 'UNFINISHED';
+}
+
+function renderMarkdownReport(report: RunReport): string {
+    const { totals } = report;
+    const lines: string[] = [
+        `# Agent Loop Runner Report — ${report.runId}`,
+        '',
+        report.startedAt ? `Started: ${new Date(report.startedAt).toISOString()}  ` : '',
+        `Generated: ${new Date(report.generatedAt).toISOString()}`,
+        '',
+        `**${totals.pass} passed, ${totals.fail} failed, ${totals.unfinished} unfinished** (${totals.jobs} total)`,
+        '',
+        '| # | URL | Feature | Result | Attempts | Duration | Spec | PR |',
+        '|---|-----|---------|--------|----------|----------|------|----|',
+    ];
+
+    for (const j of report.jobs) {
+        lines.push(
+            '| ' +
+                [
+                    j.indexLabel,
+                    j.url,
+                    j.featureName ?? '',
+                    j.result,
+                    `${j.attemptsUsed}/${j.maxLoops}`,
+                    formatDuration(j.durationMs),
+                    j.specFile ?? '',
+                    j.prResult ?? '',
+                ]
+                    .map(mdCell)
+                    .join(' | ') +
+                ' |'
+        );
+    }
+
+    const failed = report.jobs.filter(j => j.result === 'FAIL');
+    if (failed.length) {
+        lines.push('', '## Failures', '');
+        for (const j of failed) {
+            lines.push(`### ${j.indexLabel} — ${j.featureName || j.url}`, '');
+            if (j.reason) lines.push(`- **Reason**: ${j.reason}`);
+            if (j.failureMessage) lines.push(`- **Failure**: ${j.failureMessage}`);
+            lines.push('');
+        }
+    }
+
+    return lines.filter((l, i) => l !== '' || lines[i - 1] !== '').join('\n').trimEnd() + '\n';
+}
+
+/**
+ * One <testsuite> per run, one <testcase> per URL. Failed jobs carry a
+ * <failure>, unfinished ones are <skipped>, and job metadata goes to
+ * <system-out> so dashboards that ignore properties still show it.
+ */
+function renderJUnitReport(report: RunReport): string {
+    const { totals } = report;
+    const time = (ms?: number) => ((ms ?? 0) / 1000).toFixed(3);
+    const totalMs = report.jobs.reduce((sum, j) => sum + (j.durationMs ?? 0), 0);
+    const classname = `AgentLoopRunner.${report.runId}`;
+
+    const out: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="Agent Loop Runner" tests="${totals.jobs}" failures="${totals.fail}" skipped="${totals.unfinished}" time="${time(totalMs)}">`,
+        `  <testsuite name="${xmlEscape(report.runId)}" tests="${totals.jobs}" failures="${totals.fail}" skipped="${totals.unfinished}" time="${time(totalMs)}"` +
+            (report.startedAt ? ` timestamp="${new Date(report.startedAt).toISOString()}"` : '') +
+            '>',
+    ];
+
+    for (const j of report.jobs) {
+        const name = `${j.indexLabel} ${j.featureName || j.url}`;
+        out.push(`    <testcase classname="${xmlEscape(classname)}" name="${xmlEscape(name)}" time="${time(j.durationMs)}">`);
+
+        if (j.result === 'FAIL') {
+            const message = j.reason || j.failureMessage || 'Agent reported FAIL';
+            out.push(`      <failure message="${xmlEscape(message)}" type="AgentFailure">${xmlEscape(j.failureMessage || message)}</failure>`);
+        } else if (j.result === 'UNFINISHED') {
+            out.push(`      <skipped message="${xmlEscape(`Job ${j.status}`)}"/>`);
+        }
+
+        const meta = [
+            `URL: ${j.url}`,
+            `Attempts: ${j.attemptsUsed}/${j.maxLoops}`,
+            j.specFile ? `SpecPath: ${j.specFile}` : '',
+            j.prResult ? `PR: ${j.prResult}` : '',
+        ].filter(Boolean);
+        out.push(`      <system-out>${xmlEscape(meta.join('\n'))}</system-out>`);
+        out.push('    </testcase>');
+    }
+
+    out.push('  </testsuite>', '</testsuites>', '');
+    return out.join('\n');
+}
+
+function formatDuration(ms?: number): string {
+    if (!ms || ms < 0) return '';
+    const totalSec = Math.round(ms / 1000);
+    const h = Math.floor(totalSec / 3600);
+    const m = Math.floor((totalSec % 3600) / 60);
+    const sec = totalSec % 60;
+    if (h) return `${h}h ${m}m`;
+    if (m) return `${m}m ${sec}s`;
+    return `${sec}s`;
+}
+
+function mdCell(s: string): string {
+    return s.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function xmlEscape(s: string): string {
+    return s
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters other than tab/newline are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
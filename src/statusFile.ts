@@ -0,0 +1,221 @@
+import { splitFrontMatter } from './frontMatter';
+
+/** Status protocol versions this build understands. */
+export const STATUS_VERSIONS = [1, 2] as const;
+export type StatusVersion = (typeof STATUS_VERSIONS)[number];
+
+export interface StatusTestCounts {
+    total?: number;
+    passed?: number;
+    failed?: number;
+    skipped?: number;
+}
+
+/**
+ * The richer v2 payload. Everything is optional — agents fill in what they
+ * know and the panel shows what's there.
+ */
+export interface StatusDetails {
+    phase?: string;
+    durationMs?: number;
+    tests?: StatusTestCounts;
+    artifacts?: string[];
+    warnings?: string[];
+    details?: string;
+}
+
+export interface StatusFileMarkers {
+    version: StatusVersion;
+    agentStatus?: 'PASS' | 'FAIL';
+    featureName?: string;
+    timestamp?: string;
+    summary?: string;
+    specPath?: string;
+    reason?: string;
+    // v2 only
+    statusDetails?: StatusDetails;
+    // Schema problems found while parsing. A file with errors may still carry
+    // a usable agentStatus; one without agentStatus can't resolve the job.
+    validationErrors: string[];
+}
+
+/**
+ * Parses a .agent-loop-runner/status/<RunId>/<Item>.status.md file.
+ *
+ * v1 (line format, from the agent):
+ *   AGENT_STATUS: PASS|FAIL
+ *   FeatureName: <name>
+ *   Timestamp: <iso>
+ *   Summary: <text>
+ *   SpecPath: <path>        (optional, on PASS)
+ *   Reason: <text>          (optional, on FAIL)
+ *
+ * v2 (structured): YAML front matter with `version: 2`, where the markdown
+ * body below it is the free-form details section — or a fenced ```json block
+ * holding the same keys plus an optional `details` string.
+ */
+export function parseStatusFile(text: string): StatusFileMarkers {
+    const frontMatter = splitFrontMatter(text);
+    if (frontMatter && ('version' in frontMatter.data || 'status' in frontMatter.data)) {
+        const body = frontMatter.body.trim();
+        return validateStructured(frontMatter.data, frontMatter.errors, body || undefined);
+    }
+
+    // A v1 file may quote JSON output in a fence; its AGENT_STATUS line wins
+    if (/^\s*AGENT_STATUS:/im.test(text)) return parseLineFormat(text);
+
+    const fenced = text.match(/```json[^\n]*\r?\n([\s\S]*?)```/i);
+    const trimmed = text.trim();
+    const jsonText = fenced ? fenced[1] : trimmed.startsWith('{') ? trimmed : undefined;
+    if (jsonText !== undefined) {
+        let data: unknown;
+        try {
+            data = JSON.parse(jsonText);
+        } catch (e: any) {
+            return { version: 2, validationErrors: [`Status JSON is not valid: ${e?.message ?? e}`] };
+        }
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return { version: 2, validationErrors: ['Status JSON must be an object.'] };
+        }
+        return validateStructured(data as Record<string, unknown>, []);
+    }
+
+    return parseLineFormat(text);
+}
+
+function parseLineFormat(text: string): StatusFileMarkers {
+    const lines = text.split(/\r?\n/g);
+    const out: StatusFileMarkers = { version: 1, validationErrors: [] };
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+
+        {
+            const m = trimmed.match(/^AGENT_STATUS:\s*(.+?)\s*$/i);
+            if (m) {
+                const value = m[1].toUpperCase();
+                if (value === 'PASS' || value === 'FAIL') out.agentStatus = value;
+                else out.validationErrors.push(`AGENT_STATUS must be PASS or FAIL, got "${m[1]}".`);
+            }
+        }
+        {
+            const m = trimmed.match(/^FeatureName:\s*(.+)\s*$/i);
+            if (m) out.featureName = m[1].trim();
+        }
+        {
+            const m = trimmed.match(/^Timestamp:\s*(.+)\s*$/i);
+            if (m) out.timestamp = m[1].trim();
+        }
+        {
+            const m = trimmed.match(/^Summary:\s*(.+)\s*$/i);
+            if (m) out.summary = m[1].trim();
+        }
+        {
+            const m = trimmed.match(/^SpecPath:\s*(.+)\s*$/i);
+            if (m) out.specPath = m[1].trim();
+        }
+        {
+            const m = trimmed.match(/^Reason:\s*(.+)\s*$/i);
+            if (m) out.reason = m[1].trim();
+        }
+    }
+
+    if (!out.agentStatus && !out.validationErrors.length && text.trim()) {
+        out.validationErrors.push('No AGENT_STATUS line found.');
+    }
+
+    return out;
+}
+
+// ---------------------------- v2 validation ----------------------------
+
+function validateStructured(data: Record<string, unknown>, parseErrors: string[], body?: string): StatusFileMarkers {
+    const errors = [...parseErrors];
+    const out: StatusFileMarkers = { version: 2, validationErrors: errors };
+
+    const version = Number(data.version);
+    if (data.version === undefined) {
+        errors.push('Missing "version" (expected 2).');
+    } else if (version !== 2) {
+        errors.push(`Unsupported status version "${data.version}" (expected 2).`);
+        return out;
+    }
+
+    const status = typeof data.status === 'string' ? data.status.trim().toUpperCase() : undefined;
+    if (status === 'PASS' || status === 'FAIL') out.agentStatus = status;
+    else errors.push(status ? `"status" must be PASS or FAIL, got "${data.status}".` : 'Missing "status" (PASS or FAIL).');
+
+    out.featureName = optionalString(data, 'featureName', errors);
+    out.timestamp = optionalString(data, 'timestamp', errors);
+    out.summary = optionalString(data, 'summary', errors);
+    out.specPath = optionalString(data, 'specPath', errors);
+    out.reason = optionalString(data, 'reason', errors);
+
+    const details: StatusDetails = {};
+    details.phase = optionalString(data, 'phase', errors);
+
+    if (data.durationMs !== undefined) {
+        const n = Number(data.durationMs);
+        if (Number.isFinite(n) && n >= 0) details.durationMs = n;
+        else errors.push('"durationMs" must be a non-negative number.');
+    } else if (data.duration !== undefined) {
+        const ms = parseDuration(String(data.duration));
+        if (ms !== undefined) details.durationMs = ms;
+        else errors.push(`"duration" "${data.duration}" is not a duration like 12m30s.`);
+    }
+
+    if (data.tests !== undefined) {
+        if (!data.tests || typeof data.tests !== 'object' || Array.isArray(data.tests)) {
+            errors.push('"tests" must be an object with total/passed/failed/skipped counts.');
+        } else {
+            const tests: StatusTestCounts = {};
+            for (const key of ['total', 'passed', 'failed', 'skipped'] as const) {
+                const raw = (data.tests as Record<string, unknown>)[key];
+                if (raw === undefined) continue;
+                const n = Number(raw);
+                if (Number.isInteger(n) && n >= 0) tests[key] = n;
+                else errors.push(`"tests.${key}" must be a non-negative integer.`);
+            }
+            const counted = (tests.passed ?? 0) + (tests.failed ?? 0) + (tests.skipped ?? 0);
+            if (tests.total !== undefined && counted > tests.total) {
+                errors.push(`"tests" counts add up to ${counted}, more than total ${tests.total}.`);
+            }
+            details.tests = tests;
+        }
+    }
+
+    details.artifacts = optionalStringList(data, 'artifacts', errors);
+    details.warnings = optionalStringList(data, 'warnings', errors);
+    details.details = body ?? optionalString(data, 'details', errors);
+
+    out.statusDetails = details;
+    return out;
+}
+
+function optionalString(data: Record<string, unknown>, key: string, errors: string[]): string | undefined {
+    const v = data[key];
+    if (v === undefined || v === null || v === '') return undefined;
+    if (typeof v === 'string') return v.trim();
+    if (typeof v === 'number' || typeof v === 'boolean') return String(v);
+    errors.push(`"${key}" must be a string.`);
+    return undefined;
+}
+
+function optionalStringList(data: Record<string, unknown>, key: string, errors: string[]): string[] | undefined {
+    const v = data[key];
+    if (v === undefined || v === null) return undefined;
+    if (Array.isArray(v) && v.every(x => typeof x === 'string' || typeof x === 'number')) return v.map(String);
+    errors.push(`"${key}" must be a list of strings.`);
+    return undefined;
+}
+
+/**
+ * Parses durations like `90s`, `12m30s`, `1h 5m` or a bare number of seconds.
+ */
+function parseDuration(s: string): number | undefined {
+    const trimmed = s.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+    const m = trimmed.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+)\s*s)?$/i);
+    if (!m || (!m[1] && !m[2] && !m[3])) return undefined;
+    return ((Number(m[1] ?? 0) * 60 + Number(m[2] ?? 0)) * 60 + Number(m[3] ?? 0)) * 1000;
+}
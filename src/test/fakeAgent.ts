@@ -0,0 +1,130 @@
+/**
+ * Scripted stand-in for an agent CLI, run by the command executor in tests.
+ * It reads the AGENT_LOOP_* environment, writes a progress file, a spec and
+ * a status file on a schedule, then exits. The job's URL picks the script:
+ *
+ *   https://example.test/<anything>?scenario=pass&feature=Cors
+ *
+ * Scenarios:
+ *   pass          — stamped artifacts, then AGENT_STATUS: PASS
+ *   fail          — artifacts, then AGENT_STATUS: FAIL with a reason
+ *   failThenPass  — FAIL on attempt 1, PASS on later attempts
+ *   timeout       — writes the progress file, then hangs without a status
+ *   garbage       — a status file that doesn't parse to PASS/FAIL
+ *   wrongItem     — artifacts stamped for, and a PASS status written as, the
+ *                   next item instead of its own
+ *   brokenSpec    — PASS every time, but attempt 1's spec has a test marked
+ *                   broken, which fakePlaywright fails
+ *   flakySpec     — PASS every time, but attempt 1's spec has a test marked
+ *                   flaky, which fakePlaywright fails on every second run
+ *   sharedHelper  — like pass, plus a shared tests/shared/helpers.ts whose
+ *                   content names the feature, so two such jobs conflict;
+ *                   a helper with conflict markers is resolved by keeping
+ *                   main's side and adding its own line
+ *
+ * FAKE_AGENT_STEP_MS sets the pause between files (default 100).
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { BROKEN_TEST_MARKER, FLAKY_TEST_MARKER } from './fakePlaywright';
+
+export const FAKE_SCENARIOS = ['pass', 'fail', 'failThenPass', 'timeout', 'garbage', 'wrongItem', 'brokenSpec', 'flakySpec', 'sharedHelper'] as const;
+export type FakeScenario = (typeof FAKE_SCENARIOS)[number];
+
+/** Relative locations the fake writes to; tests point the globs at them. */
+export const FAKE_PROGRESS_DIR = 'progress';
+export const FAKE_SPEC_DIR = 'tests';
+
+export function fakeScenarioUrl(scenario: FakeScenario, feature: string, row = 0): string {
+    return `https://example.test/${row}?scenario=${scenario}&feature=${encodeURIComponent(feature)}`;
+}
+
+async function main() {
+    const env = process.env;
+    const url = new URL(env.AGENT_LOOP_URL ?? '');
+    const scenario = (url.searchParams.get('scenario') ?? 'pass') as FakeScenario;
+    const runId = env.AGENT_LOOP_RUN_ID ?? '';
+    const ownItem = env.AGENT_LOOP_ITEM ?? '001';
+    const attempt = Number(env.AGENT_LOOP_ATTEMPT ?? '1');
+    const statusFile = env.AGENT_LOOP_STATUS_FILE ?? '';
+    const feature = url.searchParams.get('feature') ?? `Feature${ownItem}`;
+    const stepMs = Number(env.FAKE_AGENT_STEP_MS ?? '100');
+    const root = env.AGENT_LOOP_WORKTREE || process.cwd();
+
+    if (!FAKE_SCENARIOS.includes(scenario)) throw new Error(`Unknown scenario "${scenario}".`);
+    console.log(`fake agent: ${scenario} for item ${ownItem} attempt ${attempt}`);
+
+    const item = scenario === 'wrongItem' ? String(Number(ownItem) + 1).padStart(3, '0') : ownItem;
+    const specRel = path.posix.join(FAKE_SPEC_DIR, feature, `${feature}.spec.ts`);
+
+    await write(path.join(root, FAKE_PROGRESS_DIR, `${feature}-progress.md`), `RunId: ${runId}\nItem: ${item}\n\n# ${feature} progress\n`);
+    if (scenario === 'timeout') {
+        await sleep(10 * 60 * 1000);
+        return;
+    }
+
+    await sleep(stepMs);
+    await write(path.join(root, specRel), specFor(scenario, attempt, feature, `// RunId: ${runId} Item: ${item}`));
+    if (scenario === 'sharedHelper') {
+        const helper = path.join(root, FAKE_SPEC_DIR, 'shared', 'helpers.ts');
+        await write(helper, sharedHelperFor(await readIfExists(helper), feature));
+    }
+    await sleep(stepMs);
+
+    const status = statusFor(scenario, attempt, feature, specRel);
+    const target = scenario === 'wrongItem' ? path.join(path.dirname(statusFile), `${item}.status.md`) : statusFile;
+    await write(target, status);
+}
+
+function specFor(scenario: FakeScenario, attempt: number, feature: string, stamp: string): string {
+    const marker = attempt > 1 ? '' : scenario === 'brokenSpec' ? ` ${BROKEN_TEST_MARKER}` : scenario === 'flakySpec' ? ` ${FLAKY_TEST_MARKER}` : '';
+    return `${stamp}\ntest('${feature} loads', async () => {});\ntest('${feature} saves', async () => {});${marker}\n`;
+}
+
+function statusFor(scenario: FakeScenario, attempt: number, feature: string, specRel: string): string {
+    const stamp = `FeatureName: ${feature}\nTimestamp: ${new Date().toISOString()}\n`;
+    const pass = `AGENT_STATUS: PASS\n${stamp}Summary: Generated ${feature} spec\nSpecPath: ${specRel}\n`;
+    const fail = `AGENT_STATUS: FAIL\n${stamp}Reason: Scripted failure on attempt ${attempt}\n`;
+
+    switch (scenario) {
+        case 'fail':
+            return fail;
+        case 'failThenPass':
+            return attempt === 1 ? fail : pass;
+        case 'garbage':
+            return 'AGENT_STATUS: MAYBE\nnot really a status file\n';
+        default:
+            return pass;
+    }
+}
+
+/** The shared helper: its own owner line, or main's side of a conflict plus a co-owner line. */
+function sharedHelperFor(existing: string | undefined, feature: string): string {
+    if (!existing?.includes('<<<<<<<')) return `export const owner = '${feature}';\n`;
+    const mainSide = existing.replace(/<<<<<<< [^\n]*\n([\s\S]*?)=======\n[\s\S]*?>>>>>>> [^\n]*\n?/g, '$1');
+    return `${mainSide}export const coOwner = '${feature}';\n`;
+}
+
+async function readIfExists(file: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(file, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+async function write(file: string, text: string) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, text, 'utf8');
+}
+
+function sleep(ms: number) {
+    return new Promise(r => setTimeout(r, ms));
+}
+
+if (require.main === module) {
+    main().catch(err => {
+        console.error(err?.stack ?? String(err));
+        process.exit(2);
+    });
+}
@@ -0,0 +1,61 @@
+/**
+ * Scripted stand-in for `npx playwright test <spec> --reporter=json`, used as
+ * verifyCommand in tests. It reads the spec, treats every `test('<title>'`
+ * as one test and fails those whose line is marked broken, printing the
+ * report the way Playwright's JSON reporter does. Tests marked flaky fail on
+ * every second run of the same spec; the run count is kept in
+ * FAKE_PLAYWRIGHT_STATE_DIR (default: the OS temp folder).
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const BROKEN_TEST_MARKER = '/* broken */';
+export const FLAKY_TEST_MARKER = '/* flaky */';
+
+function main() {
+    const specPath = process.argv[2] ?? '';
+    const source = fs.readFileSync(specPath, 'utf8');
+    const run = countRun(path.resolve(specPath));
+
+    const specs = source
+        .split(/\r?\n/)
+        .map(line => ({ line, title: line.match(/\btest\('([^']+)'/)?.[1] }))
+        .filter((s): s is { line: string; title: string } => !!s.title)
+        .map(({ line, title }) => {
+            const broken = line.includes(BROKEN_TEST_MARKER) || (line.includes(FLAKY_TEST_MARKER) && run % 2 === 0);
+            return {
+                title,
+                ok: !broken,
+                file: specPath,
+                tests: [
+                    {
+                        projectName: 'chromium',
+                        status: broken ? 'unexpected' : 'expected',
+                        results: [{ status: broken ? 'failed' : 'passed', duration: 5, error: broken ? { message: `Error: ${title} is broken\n    at spec` } : undefined }],
+                    },
+                ],
+            };
+        });
+
+    const failed = specs.filter(s => !s.ok).length;
+    const report = {
+        suites: [{ title: specPath, file: specPath, specs, suites: [] }],
+        errors: [],
+        stats: { expected: specs.length - failed, unexpected: failed, flaky: 0, skipped: 0 },
+    };
+    console.log(JSON.stringify(report, null, 2));
+    process.exitCode = failed ? 1 : 0;
+}
+
+/** 1 on the first run of a spec, 2 on the next, ... */
+function countRun(specPath: string): number {
+    const dir = process.env.FAKE_PLAYWRIGHT_STATE_DIR || os.tmpdir();
+    const file = path.join(dir, `fake-playwright-${crypto.createHash('sha1').update(specPath).digest('hex').slice(0, 12)}.count`);
+    const run = Number(fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '0') + 1;
+    fs.writeFileSync(file, String(run));
+    return run;
+}
+
+if (require.main === module) main();
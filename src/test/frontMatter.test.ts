@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseYamlSubset, splitFrontMatter } from '../frontMatter';
+
+describe('parseYamlSubset', () => {
+    it('strips # comments outside quoted scalars only', () => {
+        const { data, errors } = parseYamlSubset(
+            [
+                'summary: "Fixed #42" # the issue',
+                "reason: 'Saved #3 of 4'",
+                "note: it's #1 # plain text",
+                'count: 3 # tests',
+                'tags: ["#e2e", smoke] # labels',
+                'warnings:',
+                '  - "Issue #7 still open"',
+                'tests:',
+                '  total: 5 # all',
+            ].join('\n')
+        );
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(data, {
+            summary: 'Fixed #42',
+            reason: 'Saved #3 of 4',
+            note: "it's",
+            count: 3,
+            tags: ['#e2e', 'smoke'],
+            warnings: ['Issue #7 still open'],
+            tests: { total: 5 },
+        });
+    });
+
+    it('splits front matter from the body', () => {
+        assert.deepStrictEqual(splitFrontMatter('---\nagent: Planner\n---\nBody #1\n'), { data: { agent: 'Planner' }, errors: [], body: 'Body #1\n' });
+        assert.strictEqual(splitFrontMatter('No front matter'), undefined);
+    });
+});
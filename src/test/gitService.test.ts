@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { gitLocks } from '../gitService';
+
+describe('gitLocks', () => {
+    const root = path.resolve('/repo');
+    const wt = path.resolve('/worktrees/001');
+
+    it('queues shared refs and config repo-wide and the rest per working tree', () => {
+        assert.deepStrictEqual(gitLocks(['worktree', 'add', '-b', 'agent/x', wt], root), ['repo', `worktree:${root}`]);
+        assert.deepStrictEqual(gitLocks(['branch', '-m', 'agent/y'], wt), ['repo', `worktree:${wt}`]);
+        assert.deepStrictEqual(gitLocks(['commit', '-m', 'msg'], wt), [`worktree:${wt}`]);
+        assert.deepStrictEqual(gitLocks(['rev-parse', '--abbrev-ref', 'HEAD'], root), [`worktree:${root}`]);
+    });
+
+    it('keeps network commands off the working tree locks', () => {
+        assert.deepStrictEqual(gitLocks(['fetch', 'origin', 'main'], root), ['fetch']);
+        assert.deepStrictEqual(gitLocks(['push', '-u', 'origin', 'agent/x'], wt), []);
+        assert.deepStrictEqual(gitLocks(['ls-remote', '--exit-code', 'origin'], root), []);
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_PR_DESCRIPTION_TEMPLATE, checkBranchName, gitTemplateVars, renderBranchName, renderTextTemplate } from '../gitTemplates';
+import { Job } from '../jobModel';
+
+const job: Job = {
+    index: 1,
+    indexLabel: '001',
+    url: 'https://example.test/cors',
+    shortUrl: 'example.test/cors',
+    status: 'Done',
+    runId: '20260101-120000',
+    featureName: 'Cors Settings',
+    attemptsUsed: 2,
+    maxLoops: 3,
+    finalStatus: 'PASS',
+    reason: 'Added 4 tests for the CORS blade.',
+    statusDetails: { tests: { total: 5, passed: 4, skipped: 1 } },
+};
+
+describe('branch names', () => {
+    it('rejects names that break git ref rules', () => {
+        for (const bad of ['', '-x', 'a..b', 'a b', 'a:b', 'a/.hidden', 'a.lock', 'a/', 'a//b', 'a@{1}', 'agent/{Unknown}']) {
+            assert.ok(checkBranchName(bad), `"${bad}" should be invalid`);
+        }
+        assert.strictEqual(checkBranchName('agent/20260101-001-test-suite'), undefined);
+    });
+
+    it('makes substituted values ref-safe', () => {
+        assert.deepStrictEqual(renderBranchName('e2e/{FeatureName}/{Item}', gitTemplateVars(job)), { branch: 'e2e/Cors-Settings/001' });
+        assert.ok('error' in renderBranchName('e2e/{Feature}', gitTemplateVars(job)));
+    });
+});
+
+describe('text templates', () => {
+    it('fills the PR body and drops lines whose values are empty', () => {
+        const body = renderTextTemplate(DEFAULT_PR_DESCRIPTION_TEMPLATE, gitTemplateVars(job, '---\ntitle: x\n---\n# Requirements\n\n- Add an origin\n'));
+        assert.strictEqual(
+            body,
+            [
+                'Playwright spec for Cors Settings, generated by Agent Loop Runner (run 20260101-120000, item 001).',
+                '',
+                'URL: https://example.test/cors',
+                'Attempts: 2/3',
+                'Tests: 4 passed, 1 skipped of 5',
+                '',
+                'Added 4 tests for the CORS blade.',
+                '',
+                '# Requirements',
+                '',
+                '- Add an origin',
+            ].join('\n')
+        );
+
+        const bare = renderTextTemplate(DEFAULT_PR_DESCRIPTION_TEMPLATE, gitTemplateVars({ ...job, statusDetails: undefined, reason: undefined }));
+        assert.doesNotMatch(bare, /Tests:/);
+        assert.match(bare, /Attempts: 2\/3$/);
+    });
+});
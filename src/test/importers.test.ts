@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { detectImportFormat, parseImportFile } from '../importers';
+
+describe('parseImportFile', () => {
+    it('reads a CSV with a header, quoted fields and extra columns', () => {
+        const csv = [
+            'URL,Prompt,Max Loops,Region',
+            'https://a.example/x,"Check, then save",3,west',
+            '"https://b.example/y","Line one',
+            'line two",,east',
+            ',no url,,',
+            'https://c.example/z,,25,',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseImportFile('urls.csv', csv), {
+            format: 'csv',
+            rows: [
+                { line: 2, url: 'https://a.example/x', prompt: 'Check, then save', maxLoops: 3, vars: { Region: 'west' } },
+                { line: 3, url: 'https://b.example/y', prompt: 'Line one\nline two', vars: { Region: 'east' } },
+                { line: 6, url: 'https://c.example/z', prompt: '', vars: {} },
+            ],
+            errors: ['Line 5: no URL, row skipped.', 'Line 6: maxLoops "25" must be a whole number between 1 and 20; using the default.'],
+        });
+    });
+
+    it('reads headerless TSV positionally and rejects a header without a URL column', () => {
+        assert.deepStrictEqual(parseImportFile('urls.tsv', 'https://a.example\tOpen the blade\t2\n'), {
+            format: 'tsv',
+            rows: [{ line: 1, url: 'https://a.example', prompt: 'Open the blade', maxLoops: 2, vars: {} }],
+            errors: [],
+        });
+
+        const noUrl = parseImportFile('urls.csv', 'Name,Prompt\nfoo,bar\n');
+        assert.deepStrictEqual(noUrl.rows, []);
+        assert.deepStrictEqual(noUrl.errors, ['No URL column found in header (expected one of: url, link, href, targeturl, bladeurl).']);
+    });
+
+    it('reads a JSON array of strings and objects', () => {
+        const json = JSON.stringify(['https://a.example', { url: 'https://b.example', maxLoops: 2, env: { tier: 'prod' } }, 5]);
+        assert.deepStrictEqual(parseImportFile('urls.json', json), {
+            format: 'json',
+            rows: [
+                { line: 1, url: 'https://a.example', prompt: '', vars: {} },
+                { line: 2, url: 'https://b.example', prompt: '', maxLoops: 2, vars: { env: '{"tier":"prod"}' } },
+            ],
+            errors: ['Item 3: expected a string or object.'],
+        });
+
+        assert.deepStrictEqual(parseImportFile('urls.json', '{}').errors, ['Expected a JSON array of URLs or objects.']);
+        assert.match(parseImportFile('urls.json', '[').errors[0], /^Invalid JSON: /);
+    });
+
+    it('reads a Markdown table, unwrapping links', () => {
+        const md = [
+            '| Link | Instructions |',
+            '|------|:------------:|',
+            '| [Blade](https://a.example/blade) | Check save |',
+            '| <https://b.example> | |',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseImportFile('urls.md', md), {
+            format: 'markdown',
+            rows: [
+                { line: 3, url: 'https://a.example/blade', prompt: 'Check save', vars: {} },
+                { line: 4, url: 'https://b.example', prompt: '', vars: {} },
+            ],
+            errors: [],
+        });
+    });
+
+    it('reads Markdown list items, using the text after the URL as the prompt', () => {
+        const md = ['# URLs', '- [ ] https://a.example/one — check the grid', '1. [Two](https://b.example/two): open settings', '* no link here'].join('\n');
+
+        assert.deepStrictEqual(parseImportFile('urls.md', md).rows, [
+            { line: 2, url: 'https://a.example/one', prompt: 'check the grid', vars: {} },
+            { line: 3, url: 'https://b.example/two', prompt: 'open settings', vars: {} },
+        ]);
+    });
+
+    it('sniffs the format of unknown extensions', () => {
+        assert.strictEqual(detectImportFormat('urls.txt', '  ["https://a.example"]'), 'json');
+        assert.strictEqual(detectImportFormat('urls.txt', '- https://a.example'), 'markdown');
+        assert.strictEqual(detectImportFormat('urls.txt', 'https://a.example\tprompt'), 'tsv');
+        assert.strictEqual(detectImportFormat('urls', 'https://a.example,prompt'), 'csv');
+    });
+});
@@ -0,0 +1,674 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { RunnerConfig, readRunnerConfig } from '../config';
+import { InputPair, Job, PROMPTS_ROOT, RUNS_ROOT, STATUS_ROOT } from '../jobModel';
+import { Orchestrator, OrchestratorHost } from '../orchestrator';
+import { FAKE_PROGRESS_DIR, FAKE_SPEC_DIR, FakeScenario, fakeScenarioUrl } from './fakeAgent';
+
+const FAKE_AGENT = path.join(__dirname, 'fakeAgent.js');
+const VERIFY = {
+    verifyOnPass: true,
+    verifyCommand: `"${process.execPath}" "${path.join(__dirname, 'fakePlaywright.js')}" "{SpecPath}"`,
+};
+
+interface TestRepo {
+    root: string; // working clone the runner operates in
+    origin: string; // local bare remote
+    worktrees: string;
+}
+
+function git(args: string[], cwd: string): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+/** A repo on `main` with one commit, pushed to a bare remote with origin/HEAD set. */
+function createRepo(base: string, name: string): TestRepo {
+    const dir = path.join(base, name);
+    const origin = path.join(dir, 'origin.git');
+    const root = path.join(dir, 'work');
+    fs.mkdirSync(root, { recursive: true });
+
+    git(['init', '--bare', '-b', 'main', origin], dir);
+    git(['init', '-b', 'main'], root);
+    git(['config', 'user.email', 'runner@example.test'], root);
+    git(['config', 'user.name', 'Runner Test'], root);
+    fs.writeFileSync(path.join(root, 'README.md'), '# fixture\n');
+    git(['add', '-A'], root);
+    git(['commit', '-m', 'initial'], root);
+    git(['remote', 'add', 'origin', origin], root);
+    git(['push', '-u', 'origin', 'main'], root);
+    git(['remote', 'set-head', 'origin', 'main'], root);
+
+    return { root, origin, worktrees: path.join(dir, 'worktrees') };
+}
+
+function createHost(repo: TestRepo, settings: Record<string, unknown> = {}): OrchestratorHost & { logs: string[] } {
+    const values: Record<string, unknown> = {
+        executor: 'command',
+        executorCommand: process.execPath,
+        executorArgs: [FAKE_AGENT],
+        maxLoopsPerUrl: 1,
+        perJobTimeoutMs: 5000,
+        progressGlob: `**/${FAKE_PROGRESS_DIR}/*-progress.md`,
+        specGlob: `**/${FAKE_SPEC_DIR}/*/*.spec.ts`,
+        requirementsGlob: `**/${FAKE_SPEC_DIR}/**/*-requirements.md`,
+        commitGlob: `${FAKE_SPEC_DIR}/`,
+        worktreeDir: repo.worktrees,
+        prProvider: 'fake',
+        ...settings,
+    };
+    const config: RunnerConfig = readRunnerConfig((key, defaultValue) => (key in values ? (values[key] as typeof defaultValue) : defaultValue));
+    const logs: string[] = [];
+    return {
+        logs,
+        workspaceRoot: repo.root,
+        getConfig: () => config,
+        log: message => logs.push(message),
+        onStateChanged: () => undefined,
+    };
+}
+
+async function run(repo: TestRepo, rows: [FakeScenario, string][], settings: Record<string, unknown> = {}, onStateChanged?: (jobs: Job[]) => void) {
+    const host = createHost(repo, settings);
+    const orchestrator = new Orchestrator(host, { pollIntervalMs: 100, retryDelayMs: 50 });
+    if (onStateChanged) host.onStateChanged = () => onStateChanged(orchestrator.state.jobs as Job[]);
+    const pairs: InputPair[] = rows.map(([scenario, feature], i) => ({ url: fakeScenarioUrl(scenario, feature, i), prompt: '' }));
+    await orchestrator.start(pairs);
+    await orchestrator.flushManifest();
+    return { orchestrator, host, jobs: orchestrator.state.jobs as Job[] };
+}
+
+/** Commits a file to origin's main from another clone; the working clone doesn't fetch it. */
+function pushToMain(repo: TestRepo, rel: string, text: string) {
+    const clone = path.join(path.dirname(repo.root), `clone-${Date.now()}`);
+    git(['clone', repo.origin, clone], path.dirname(repo.root));
+    git(['config', 'user.email', 'teammate@example.test'], clone);
+    git(['config', 'user.name', 'Teammate'], clone);
+    fs.mkdirSync(path.dirname(path.join(clone, rel)), { recursive: true });
+    fs.writeFileSync(path.join(clone, rel), text);
+    git(['add', '-A'], clone);
+    git(['commit', '-m', `update ${rel}`], clone);
+    git(['push', 'origin', 'main'], clone);
+}
+
+function remoteBranches(repo: TestRepo): string[] {
+    return git(['for-each-ref', '--format=%(refname:short)', 'refs/heads/'], repo.origin)
+        .split('\n')
+        .filter(b => b && b !== 'main');
+}
+
+describe('Orchestrator with a scripted agent', () => {
+    let base: string;
+    let step: string | undefined;
+
+    before(() => {
+        base = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-loop-runner-'));
+        step = process.env.FAKE_AGENT_STEP_MS;
+        process.env.FAKE_AGENT_STEP_MS = '50';
+        process.env.FAKE_PLAYWRIGHT_STATE_DIR = base;
+    });
+
+    after(() => {
+        if (step === undefined) delete process.env.FAKE_AGENT_STEP_MS;
+        else process.env.FAKE_AGENT_STEP_MS = step;
+        delete process.env.FAKE_PLAYWRIGHT_STATE_DIR;
+        fs.rmSync(base, { recursive: true, force: true });
+    });
+
+    it('commits, pushes and opens a PR for a passing job', async () => {
+        const repo = createRepo(base, 'pass');
+        const { orchestrator, jobs } = await run(repo, [['pass', 'Cors']]);
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.finalStatus, 'PASS');
+        assert.strictEqual(job.featureName, 'Cors');
+        assert.strictEqual(job.featureSource, 'status');
+        assert.strictEqual(job.executor, 'command');
+        assert.ok(job.logPath && fs.existsSync(job.logPath), 'attempt log is written');
+        assert.match(job.pr?.url ?? '', /^https:\/\/example\.invalid\/pullrequest\/1$/);
+        assert.deepStrictEqual(job.gitFailures, undefined);
+
+        const [branch] = remoteBranches(repo);
+        assert.strictEqual(branch, `agent/${job.runId}-001-test-suite`);
+        const files = git(['ls-tree', '-r', '--name-only', branch], repo.origin).split('\n');
+        assert.deepStrictEqual(files.sort(), ['README.md', 'tests/Cors/Cors.spec.ts']);
+
+        // The spec moved to the branch; the main workspace is clean again
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'Cors.spec.ts')));
+        assert.strictEqual(git(['rev-parse', '--abbrev-ref', 'HEAD'], repo.root), 'main');
+
+        const manifest = await orchestrator.readRunManifest(job.runId);
+        assert.strictEqual(manifest?.running, false);
+        assert.strictEqual(manifest?.jobs[0].status, 'Done');
+    });
+
+    it('resumes the commit step of a PASS cut off by a reload', async () => {
+        const repo = createRepo(base, 'resume-commit');
+        // Without worktrees the commit step does nothing, leaving the spec as a reload mid-commit would
+        const { orchestrator, jobs } = await run(repo, [['pass', 'Cors']], { enableWorktree: false });
+        assert.strictEqual(jobs[0].status, 'Done');
+        assert.deepStrictEqual(remoteBranches(repo), []);
+
+        const file = path.join(repo.root, RUNS_ROOT, jobs[0].runId, 'run.json');
+        const saved = await orchestrator.readRunManifest(jobs[0].runId);
+        assert.strictEqual(saved?.jobs[0].commitPending, undefined);
+        fs.writeFileSync(file, JSON.stringify({ ...saved, running: true, jobs: [{ ...saved!.jobs[0], commitPending: true }] }));
+
+        const resumed = new Orchestrator(createHost(repo), { pollIntervalMs: 100, retryDelayMs: 50 });
+        const manifest = await resumed.findResumable();
+        assert.strictEqual(manifest?.runId, jobs[0].runId);
+        await resumed.resume(manifest!);
+        const [job] = resumed.state.jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.commitPending, undefined);
+        assert.match(job.pr?.url ?? '', /pullrequest\/1$/);
+        assert.deepStrictEqual(remoteBranches(repo), [`agent/${job.runId}-001-test-suite`]);
+    });
+
+    it('renders the first prompts in a dry run without running the agent or git', async () => {
+        const repo = createRepo(base, 'dry-run');
+        const host = createHost(repo, {
+            attemptStrategy: [{ name: 'plan', attempts: '1', agent: 'Planner' }],
+        });
+        const orchestrator = new Orchestrator(host, { pollIntervalMs: 100, retryDelayMs: 50 });
+        const before = git(['for-each-ref'], repo.root);
+
+        const previews = await orchestrator.dryRun([
+            { url: fakeScenarioUrl('pass', 'Cors'), prompt: 'Cover {{URL}} as item {{Item}}.' },
+            { url: fakeScenarioUrl('pass', 'Tls', 1), prompt: '' },
+        ]);
+
+        assert.deepStrictEqual(previews.map(p => [p.indexLabel, p.agent, p.stage]), [
+            ['001', 'Planner', 'plan'],
+            ['002', 'Planner', 'plan'],
+        ]);
+        assert.strictEqual(previews[0].body, 'Cover {{URL}} as item {{Item}}.');
+        assert.match(previews[0].text, /^RunId: dry-run$/m);
+        assert.match(previews[0].text, new RegExp(`Cover ${fakeScenarioUrl('pass', 'Cors').replace(/[?.]/g, '\\$&')} as item 001\\.`));
+        assert.strictEqual(fs.readFileSync(path.join(repo.root, PROMPTS_ROOT, 'dry-run', '002.prompt.md'), 'utf8'), previews[1].text);
+
+        // No job ran, nothing was committed or branched, and the panel's jobs are untouched
+        assert.deepStrictEqual(orchestrator.state.jobs, []);
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR)));
+        assert.strictEqual(git(['for-each-ref'], repo.root), before);
+        assert.ok(!fs.existsSync(repo.worktrees));
+    });
+
+    it('checks the agent, git, remote, PR program and worktree folder before a run', async () => {
+        const repo = createRepo(base, 'preflight');
+        fs.mkdirSync(path.join(repo.root, '.github', 'agents'), { recursive: true });
+        fs.writeFileSync(path.join(repo.root, '.github', 'agents', 'Planner.agent.md'), '---\ndescription: Plans\n---\nPlan.\n');
+        fs.writeFileSync(path.join(repo.root, 'README.md'), '# edited\n');
+        const status = async (settings: Record<string, unknown>) => {
+            const orchestrator = new Orchestrator(createHost(repo, settings));
+            const checks = await orchestrator.preflight([{ url: fakeScenarioUrl('pass', 'Cors'), prompt: '' }]);
+            return Object.fromEntries(checks.map(c => [c.name, c.status]));
+        };
+
+        assert.deepStrictEqual(await status({ agentName: 'Planner', prProvider: 'command', prCreateCommand: `"${process.execPath}" pr.js` }), {
+            'Agent Planner': 'pass',
+            'Agent command': 'pass',
+            'Git state': 'warn', // README.md is modified
+            'Main branch': 'pass',
+            Remote: 'pass',
+            'PR command': 'pass',
+            'Worktree folder': 'pass',
+        });
+
+        git(['remote', 'set-url', 'origin', path.join(base, 'no-such-remote.git')], repo.root);
+        const broken = await status({ executor: 'chat', agentName: 'Missing', prProvider: 'command', prCreateCommand: 'definitely-not-installed-xyz create' });
+        assert.strictEqual(broken['Agent Missing'], 'fail');
+        assert.strictEqual(broken.Remote, 'fail');
+        assert.strictEqual(broken['PR command'], 'fail');
+        assert.strictEqual(broken['Main branch'], 'pass', 'origin/main is still known locally');
+    });
+
+    it('names the branch and commit from the templates', async () => {
+        const repo = createRepo(base, 'templates');
+        const { jobs } = await run(repo, [['pass', 'Cors']], {
+            branchTemplate: 'e2e/{FeatureName}-{RunId}',
+            commitMessageTemplate: 'Add {FeatureName} E2E spec\n\nTests: {Tests}\nAgentLoop-Run: {RunId}/{Item}',
+        });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.deepStrictEqual(remoteBranches(repo), [`e2e/Cors-${job.runId}`]);
+        const message = git(['log', '-1', '--format=%B', `e2e/Cors-${job.runId}`], repo.origin);
+        assert.strictEqual(message, `Add Cors E2E spec\n\nAgentLoop-Run: ${job.runId}/001`);
+    });
+
+    it('opens one PR per run and gives a job whose shared file conflicts its own', async () => {
+        const repo = createRepo(base, 'per-run');
+        const { jobs } = await run(
+            repo,
+            [
+                ['sharedHelper', 'Cors'],
+                ['sharedHelper', 'Tls'],
+                ['pass', 'Dns'],
+            ],
+            { prStrategy: 'perRun', commitGlob: FAKE_SPEC_DIR }
+        );
+        const runId = jobs[0].runId;
+
+        assert.deepStrictEqual(jobs.map(j => j.status), ['Done', 'Done', 'Done']);
+        assert.deepStrictEqual(remoteBranches(repo).sort(), [`agent/${runId}-002-test-suite`, `agent/${runId}-all-test-suite`]);
+        const files = git(['ls-tree', '-r', '--name-only', `agent/${runId}-all-test-suite`], repo.origin).split('\n');
+        assert.deepStrictEqual(files.sort(), ['README.md', 'tests/Cors/Cors.spec.ts', 'tests/Dns/Dns.spec.ts', 'tests/shared/helpers.ts']);
+
+        // Cors and Dns share the consolidated PR; Tls conflicted on the helper and got its own
+        assert.deepStrictEqual(jobs.map(j => j.batch?.branch), [`agent/${runId}-all-test-suite`, undefined, `agent/${runId}-all-test-suite`]);
+        assert.deepStrictEqual(jobs[1].batch?.conflicts, ['tests/shared/helpers.ts']);
+        assert.ok(jobs[1].gitFailures?.some(f => f.step === 'batch merge'));
+        assert.ok(jobs.every(j => j.pr?.url));
+    });
+
+    it('groups jobs into batches of prBatchSize', async () => {
+        const repo = createRepo(base, 'batched');
+        const { jobs } = await run(
+            repo,
+            [
+                ['pass', 'Cors'],
+                ['pass', 'Tls'],
+                ['pass', 'Dns'],
+            ],
+            { prStrategy: 'batched', prBatchSize: 2 }
+        );
+        const runId = jobs[0].runId;
+
+        assert.deepStrictEqual(remoteBranches(repo).sort(), [`agent/${runId}-batch1-test-suite`, `agent/${runId}-batch2-test-suite`]);
+        assert.deepStrictEqual(jobs.map(j => j.batch?.branch), [
+            `agent/${runId}-batch1-test-suite`,
+            `agent/${runId}-batch1-test-suite`,
+            `agent/${runId}-batch2-test-suite`,
+        ]);
+        assert.ok(jobs.every(j => j.pr?.url && !j.batch?.pending));
+    });
+
+    it('keeps a branch that conflicts with the latest main unpushed and flags the job', async () => {
+        const repo = createRepo(base, 'sync-attention');
+        pushToMain(repo, 'tests/shared/helpers.ts', "export const owner = 'main';\n");
+        const { jobs } = await run(repo, [['sharedHelper', 'Cors']], { commitGlob: FAKE_SPEC_DIR, onSyncConflict: 'needsAttention' });
+        const [job] = jobs;
+        const branch = `agent/${job.runId}-001-test-suite`;
+
+        assert.strictEqual(job.status, 'NeedsAttention');
+        assert.deepStrictEqual(job.conflict?.paths, ['tests/shared/helpers.ts']);
+        assert.strictEqual(job.conflict?.baseRef, 'origin/main');
+        assert.strictEqual(job.pr, undefined);
+        assert.deepStrictEqual(remoteBranches(repo), [], 'nothing is pushed');
+
+        // The job's commit stays on its local branch; the workspace is clean
+        const files = git(['ls-tree', '-r', '--name-only', branch], repo.root).split('\n');
+        assert.deepStrictEqual(files.sort(), ['README.md', 'tests/Cors/Cors.spec.ts', 'tests/shared/helpers.ts']);
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'Cors.spec.ts')));
+    });
+
+    for (const [label, settings] of [
+        ['the shared workspace', {}],
+        ['an isolated worktree', { maxConcurrentJobs: 2 }],
+    ] as const) {
+        it(`retries a conflict with the latest main in ${label}`, async () => {
+            const repo = createRepo(base, `sync-retry-${settings.maxConcurrentJobs ?? 1}`);
+            // Main moves once the job is under way (an isolated worktree was cut before it)
+            let moved = false;
+            const { jobs } = await run(repo, [['sharedHelper', 'Cors']], { ...settings, commitGlob: FAKE_SPEC_DIR, maxLoopsPerUrl: 2 }, ([j]) => {
+                if (moved || j?.status !== 'Planning') return;
+                moved = true;
+                pushToMain(repo, 'tests/shared/helpers.ts', "export const owner = 'main';\n");
+            });
+            const [job] = jobs;
+
+            assert.strictEqual(job.status, 'Done');
+            assert.strictEqual(job.attemptsUsed, 2);
+            assert.deepStrictEqual(job.lastFailure?.conflictingFiles, ['tests/shared/helpers.ts']);
+            const retryPrompt = fs.readFileSync(path.join(repo.root, PROMPTS_ROOT, job.runId, '001-attempt2.prompt.md'), 'utf8');
+            assert.match(retryPrompt, /Conflicting files.*tests\/shared\/helpers\.ts/);
+
+            // The pushed branch sits on top of the latest main and keeps main's edit
+            const [branch] = remoteBranches(repo);
+            assert.strictEqual(git(['rev-parse', `${branch}~1`], repo.origin), git(['rev-parse', 'main'], repo.origin));
+            assert.strictEqual(
+                git(['show', `${branch}:tests/shared/helpers.ts`], repo.origin),
+                "export const owner = 'main';\nexport const coOwner = 'Cors';"
+            );
+        });
+    }
+
+    it('commits only the files the job produced and leaves earlier edits alone', async () => {
+        const repo = createRepo(base, 'dirty');
+        fs.writeFileSync(path.join(repo.root, 'README.md'), '# fixture\n\nmy own edit\n');
+        fs.mkdirSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors'), { recursive: true });
+        fs.writeFileSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'notes.md'), 'scratch notes\n');
+
+        const { jobs } = await run(repo, [['pass', 'Cors']]);
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.deepStrictEqual(Object.keys(job.workspaceSnapshot?.files ?? {}).sort(), ['README.md', 'tests/Cors/notes.md']);
+        assert.deepStrictEqual(job.files, {
+            copied: ['tests/Cors/Cors.spec.ts'],
+            leftInWorkspace: ['progress/Cors-progress.md'],
+            refused: [],
+            snapshot: true,
+        });
+
+        const [branch] = remoteBranches(repo);
+        assert.deepStrictEqual(git(['diff', '--name-only', 'main', branch], repo.origin).split('\n'), ['tests/Cors/Cors.spec.ts']);
+
+        // The earlier edits are still there; only the committed spec was cleaned
+        assert.match(fs.readFileSync(path.join(repo.root, 'README.md'), 'utf8'), /my own edit/);
+        assert.ok(fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'notes.md')));
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'Cors.spec.ts')));
+    });
+
+    it('holds passing jobs for review and commits only the approved one', async () => {
+        const repo = createRepo(base, 'review');
+        const { orchestrator, jobs } = await run(repo, [['pass', 'Cors'], ['pass', 'Tls']], { approvalMode: true });
+
+        // The queue ran both jobs; nothing was pushed and the workspace is clean
+        assert.deepStrictEqual(jobs.map(j => j.status), ['AwaitingReview', 'AwaitingReview']);
+        assert.deepStrictEqual(jobs[0].review?.files, ['tests/Cors/Cors.spec.ts']);
+        assert.strictEqual(jobs[0].review?.baseRef, 'origin/main');
+        assert.deepStrictEqual(remoteBranches(repo), []);
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Cors', 'Cors.spec.ts')));
+        assert.strictEqual(await orchestrator.reviewBaseContent(0, 'README.md'), '# fixture\n');
+        assert.strictEqual(await orchestrator.reviewBaseContent(0, 'tests/Cors/Cors.spec.ts'), '');
+
+        await orchestrator.approveJob(0);
+        await orchestrator.rejectJob(1, 'Asserts on the wrong element');
+        const [approved, rejected] = orchestrator.state.jobs;
+
+        assert.strictEqual(approved.status, 'Done');
+        assert.strictEqual(approved.review?.decision, 'approved');
+        assert.match(approved.pr?.url ?? '', /pullrequest\/1$/);
+        assert.deepStrictEqual(remoteBranches(repo), [`agent/${approved.runId}-001-test-suite`]);
+
+        assert.strictEqual(rejected.status, 'Rejected');
+        assert.strictEqual(rejected.finalStatus, 'FAIL');
+        assert.strictEqual(rejected.review?.reason, 'Asserts on the wrong element');
+        assert.match(fs.readFileSync(rejected.cleanup?.patchPath ?? '', 'utf8'), /tests\/Tls\/Tls\.spec\.ts/);
+        assert.ok(!fs.existsSync(rejected.worktreePath ?? ''), 'the rejected worktree is removed');
+    });
+
+    it('retries a failing job with the previous attempt in the prompt', async () => {
+        const repo = createRepo(base, 'fail');
+        const { jobs } = await run(repo, [['fail', 'Tls']], { maxLoopsPerUrl: 2 });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Failed');
+        assert.strictEqual(job.attemptsUsed, 2);
+        assert.strictEqual(job.failureCategory, 'agentFail');
+        assert.match(job.reason ?? '', /Scripted failure on attempt 2/);
+        assert.deepStrictEqual(remoteBranches(repo), []);
+
+        const retryPrompt = fs.readFileSync(path.join(repo.root, PROMPTS_ROOT, job.runId, '001-attempt2.prompt.md'), 'utf8');
+        assert.match(retryPrompt, /Previous Attempt Context \(attempt 1 of 2\)/);
+        assert.match(retryPrompt, /Scripted failure on attempt 1/);
+    });
+
+    it("saves a failed job's changes as a patch and rolls them back", async () => {
+        const repo = createRepo(base, 'cleanup-patch');
+        fs.writeFileSync(path.join(repo.root, 'README.md'), '# fixture\n\nmy own edit\n');
+
+        const { jobs } = await run(repo, [['fail', 'Tls']]);
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Failed');
+        assert.strictEqual(job.cleanup?.policy, 'patch');
+        assert.strictEqual(job.cleanup?.rolledBack, true);
+        assert.deepStrictEqual(job.cleanup?.files.sort(), ['progress/Tls-progress.md', 'tests/Tls/Tls.spec.ts']);
+
+        const patch = fs.readFileSync(job.cleanup?.patchPath ?? '', 'utf8');
+        assert.match(patch, /^\+\+\+ b\/tests\/Tls\/Tls\.spec\.ts$/m);
+        assert.doesNotMatch(patch, /README/);
+
+        // Only the job's own files were rolled back
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Tls')));
+        assert.match(fs.readFileSync(path.join(repo.root, 'README.md'), 'utf8'), /my own edit/);
+        assert.strictEqual(git(['status', '--porcelain', '--', FAKE_SPEC_DIR, 'README.md'], repo.root), 'M README.md');
+    });
+
+    it("commits a failed job's changes to a local branch, or keeps them", async () => {
+        const repo = createRepo(base, 'cleanup-branch');
+        const stashed = (await run(repo, [['fail', 'Tls']], { failedJobCleanup: 'branch' })).jobs[0];
+
+        const branch = `agent/${stashed.runId}-001-failed`;
+        assert.strictEqual(stashed.cleanup?.branch, branch);
+        assert.match(git(['ls-tree', '-r', '--name-only', branch], repo.root), /tests\/Tls\/Tls\.spec\.ts/);
+        assert.ok(!fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Tls')));
+        assert.deepStrictEqual(remoteBranches(repo), [], 'the stash branch is not pushed');
+        assert.strictEqual(git(['status', '--porcelain'], repo.root).split('\n').filter(l => !l.includes('.agent-loop-runner')).join(''), '');
+
+        const kept = (await run(repo, [['fail', 'Tls']], { failedJobCleanup: 'keep' })).jobs[0];
+        assert.strictEqual(kept.cleanup?.rolledBack, false);
+        assert.ok(fs.existsSync(path.join(repo.root, FAKE_SPEC_DIR, 'Tls', 'Tls.spec.ts')));
+    });
+
+    it('passes on a later attempt after a failure', async () => {
+        const repo = createRepo(base, 'retry');
+        const { jobs } = await run(repo, [['failThenPass', 'Backups']], { maxLoopsPerUrl: 2 });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.attemptsUsed, 2);
+        assert.strictEqual(remoteBranches(repo).length, 1);
+    });
+
+    it('fails a job whose agent never writes a status file', async () => {
+        const repo = createRepo(base, 'timeout');
+        const started = Date.now();
+        const { jobs } = await run(repo, [['timeout', 'Slots']], { perJobTimeoutMs: 1500 });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Failed');
+        assert.strictEqual(job.failureCategory, 'timeout');
+        assert.ok(Date.now() - started < 15000, 'the hung agent is stopped, not waited out');
+    });
+
+    it('flags an idle job as Stalled and fails it after a second idle window', async () => {
+        const repo = createRepo(base, 'stall');
+        const statuses: string[] = [];
+        const { host, jobs } = await run(repo, [['timeout', 'Quota']], { stallIdleMs: 600, perJobTimeoutMs: 20000 }, js => {
+            if (statuses[statuses.length - 1] !== js[0]?.status) statuses.push(js[0]?.status);
+        });
+        const [job] = jobs;
+
+        assert.deepStrictEqual(statuses.slice(-3), ['Running', 'Stalled', 'Failed']);
+        assert.strictEqual(job.failureCategory, 'timeout');
+        assert.match(job.failureMessage ?? '', /^Stalled: no progress, spec or requirements change/);
+        assert.ok(host.logs.some(l => l.includes("command executor can't be nudged")));
+    });
+
+    it('nudges a stalled chat agent and counts its artifact changes as activity', async () => {
+        const repo = createRepo(base, 'stall-nudge');
+        const host = createHost(repo, { executor: 'chat', stallIdleMs: 600, perJobTimeoutMs: 20000, enableWorktree: false });
+        const orchestrator = new Orchestrator(host, { pollIntervalMs: 100, retryDelayMs: 50 });
+        const statuses: string[] = [];
+        host.onStateChanged = () => {
+            const status = orchestrator.state.jobs[0]?.status;
+            if (statuses[statuses.length - 1] !== status) statuses.push(status);
+        };
+        const nudges: string[] = [];
+        host.chatExecutor = () => ({
+            kind: 'chat',
+            start: async req => ({
+                cancel: async () => undefined,
+                nudge: async text => {
+                    nudges.push(text);
+                    const progress = path.join(repo.root, FAKE_PROGRESS_DIR, 'Quota-progress.md');
+                    fs.mkdirSync(path.dirname(progress), { recursive: true });
+                    fs.writeFileSync(progress, `RunId: ${req.runId}\nItem: ${req.item}\n\n# Quota progress\n`);
+                    await orchestrator.onProgressFile(progress);
+                    setTimeout(() => fs.writeFileSync(req.statusPath, 'AGENT_STATUS: FAIL\nReason: Blocked on a login page\n'), 300);
+                },
+            }),
+        });
+
+        await orchestrator.start([{ url: fakeScenarioUrl('timeout', 'Quota'), prompt: '' }]);
+        const [job] = orchestrator.state.jobs;
+
+        assert.deepStrictEqual(statuses.slice(-3), ['Stalled', 'Running', 'Failed']);
+        assert.strictEqual(job.failureCategory, 'agentFail');
+        assert.ok(job.lastActivityAt, 'the progress file counts as activity');
+        assert.strictEqual(nudges.length, 1);
+        assert.match(nudges[0], /^You haven't changed the progress, spec or requirements files for \d+s\./);
+        assert.ok(nudges[0].includes('001.status.md'));
+        assert.ok(!nudges[0].includes('{{'), 'every token is filled or its line dropped');
+    });
+
+    it('surfaces a status file that does not parse', async () => {
+        const repo = createRepo(base, 'garbage');
+        const { jobs } = await run(repo, [['garbage', 'Scaling']]);
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Failed');
+        assert.match(job.failureMessage ?? '', /without writing a valid status file/);
+        assert.match((job.statusErrors ?? []).join(' '), /AGENT_STATUS must be PASS or FAIL/);
+        assert.deepStrictEqual(remoteBranches(repo), []);
+    });
+
+    it("does not let one job's status file resolve another job", async () => {
+        const repo = createRepo(base, 'wrong-item');
+        const { jobs } = await run(repo, [
+            ['wrongItem', 'Domains'],
+            ['fail', 'Certificates'],
+        ]);
+
+        // 001 wrote a PASS for 002 and nothing for itself
+        assert.strictEqual(jobs[0].status, 'Failed');
+        assert.match(jobs[0].failureMessage ?? '', /exited without writing a status file/);
+
+        // 002's stale PASS was cleared before its own attempt ran
+        assert.strictEqual(jobs[1].status, 'Failed');
+        assert.strictEqual(jobs[1].finalStatus, 'FAIL');
+        assert.deepStrictEqual(remoteBranches(repo), []);
+    });
+
+    it('ignores a status file rewritten while the job is verifying', async () => {
+        const repo = createRepo(base, 'verify-rewrite');
+        const host = createHost(repo, VERIFY);
+        const orchestrator = new Orchestrator(host, { pollIntervalMs: 100, retryDelayMs: 50 });
+        let rewritten = false;
+        host.onStateChanged = () => {
+            const job = orchestrator.state.jobs[0];
+            if (rewritten || job?.status !== 'Verifying') return;
+            rewritten = true;
+            const statusPath = path.join(repo.root, STATUS_ROOT, job.runId, `${job.indexLabel}.status.md`);
+            fs.writeFileSync(statusPath, 'AGENT_STATUS: FAIL\nReason: Changed my mind\n');
+            void orchestrator.onStatusFile(statusPath);
+        };
+
+        await orchestrator.start([{ url: fakeScenarioUrl('pass', 'Cors'), prompt: '' }]);
+        const [job] = orchestrator.state.jobs;
+
+        assert.ok(rewritten);
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.finalStatus, 'PASS');
+        assert.strictEqual(remoteBranches(repo).length, 1);
+    });
+
+    it('ignores claim file paths outside the workspace', async () => {
+        const repo = createRepo(base, 'claim-outside');
+        const secret = path.join(base, 'secret.md');
+        fs.writeFileSync(secret, 'not for the PR\n');
+        const host = createHost(repo);
+        const orchestrator = new Orchestrator(host, { pollIntervalMs: 100, retryDelayMs: 50 });
+        let claimed: Promise<Partial<Job>> | undefined;
+        host.onStateChanged = () => {
+            const job = orchestrator.state.jobs[0];
+            if (claimed || job?.status !== 'Running') return;
+            const claimPath = path.join(repo.root, STATUS_ROOT, job.runId, `${job.indexLabel}.claim.json`);
+            fs.writeFileSync(claimPath, JSON.stringify({ featureName: 'Cors', requirementsFile: secret, specFile: '../secret.md' }));
+            claimed = orchestrator.onClaimFile(claimPath).then(() => ({ ...orchestrator.state.jobs[0] }));
+        };
+
+        await orchestrator.start([{ url: fakeScenarioUrl('pass', 'Cors'), prompt: '' }]);
+        const afterClaim = await claimed;
+
+        assert.strictEqual(afterClaim?.featureName, 'Cors');
+        assert.strictEqual(afterClaim?.requirementsFile, undefined);
+        assert.notStrictEqual(afterClaim?.specFile, secret);
+        assert.ok(host.logs.some(l => l.includes(`requirementsFile "${secret}" is outside the workspace`)));
+        assert.ok(host.logs.some(l => l.includes('specFile "../secret.md" is outside the workspace')));
+    });
+
+    it('retries a PASS whose spec fails verification with the failing tests', async () => {
+        const repo = createRepo(base, 'verify-retry');
+        const { jobs } = await run(repo, [['brokenSpec', 'Webhooks']], { ...VERIFY, maxLoopsPerUrl: 2 });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.attemptsUsed, 2);
+        assert.strictEqual(job.lastFailure?.category, 'verification');
+        assert.deepStrictEqual(job.lastFailure?.failingTests, ['Webhooks saves']);
+        assert.strictEqual(job.verification?.passed, true);
+        assert.deepStrictEqual(
+            job.verification?.tests.map(t => [t.title, t.outcome]),
+            [
+                ['Webhooks loads', 'passed'],
+                ['Webhooks saves', 'passed'],
+            ]
+        );
+        assert.strictEqual(remoteBranches(repo).length, 1);
+
+        const retryPrompt = fs.readFileSync(path.join(repo.root, PROMPTS_ROOT, job.runId, '001-attempt2.prompt.md'), 'utf8');
+        assert.match(retryPrompt, /\*\*Failing tests\*\* \(when the runner ran your spec\): Webhooks saves/);
+    });
+
+    it('fails the job when verification still fails on the last attempt', async () => {
+        const repo = createRepo(base, 'verify-fail');
+        const { jobs } = await run(repo, [['brokenSpec', 'Alerts']], VERIFY);
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Failed');
+        assert.strictEqual(job.finalStatus, 'FAIL');
+        assert.strictEqual(job.failureCategory, 'verification');
+        assert.match(job.failureMessage ?? '', /1 of 2 test\(s\) failed: Alerts saves/);
+        assert.strictEqual(job.verification?.tests.find(t => t.outcome === 'failed')?.error, 'Error: Alerts saves is broken');
+        assert.ok(job.verification?.logPath && fs.existsSync(job.verification.logPath), 'verification log is written');
+        assert.deepStrictEqual(remoteBranches(repo), []);
+    });
+
+    it('sends a flaky spec back to the agent with the unstable tests', async () => {
+        const repo = createRepo(base, 'flaky-retry');
+        const { jobs } = await run(repo, [['flakySpec', 'Quotas']], { ...VERIFY, verifyOnPass: false, stabilityRuns: 4, maxLoopsPerUrl: 2 });
+        const [job] = jobs;
+
+        assert.strictEqual(job.status, 'Done');
+        assert.strictEqual(job.attemptsUsed, 2);
+        assert.strictEqual(job.lastFailure?.category, 'flaky');
+        assert.deepStrictEqual(job.lastFailure?.unstableTests, ['Quotas saves']);
+        assert.strictEqual(job.stability?.stable, true);
+        assert.deepStrictEqual(
+            job.stability?.tests.map(t => [t.title, t.passed, t.runs]),
+            [
+                ['Quotas loads', 4, 4],
+                ['Quotas saves', 4, 4],
+            ]
+        );
+        assert.strictEqual(remoteBranches(repo).length, 1);
+
+        const retryPrompt = fs.readFileSync(path.join(repo.root, PROMPTS_ROOT, job.runId, '001-attempt2.prompt.md'), 'utf8');
+        assert.match(retryPrompt, /\*\*Unstable tests\*\*.*: Quotas saves/);
+    });
+
+    it('commits a flaky spec as Flaky when onFlaky is "commit"', async () => {
+        const repo = createRepo(base, 'flaky-commit');
+        const { jobs } = await run(repo, [['flakySpec', 'Metrics']], { ...VERIFY, stabilityRuns: 3, stabilityThreshold: 0.9, onFlaky: 'commit' });
+        const [job] = jobs;
+
+        // Verification is run 1 (passes); "saves" fails stability runs 2 and 4
+        assert.strictEqual(job.status, 'Flaky');
+        assert.strictEqual(job.finalStatus, 'PASS');
+        assert.deepStrictEqual(job.stability?.unstable, ['Metrics saves']);
+        assert.match(job.stability?.message ?? '', /Metrics saves \(1\/3\)/);
+        assert.ok(job.pr?.url, 'a PR is opened');
+        assert.strictEqual(remoteBranches(repo).length, 1);
+    });
+});
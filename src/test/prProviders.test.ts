@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { describe, it } from 'node:test';
+import { CommandPrProvider, fillShellTemplate } from '../prProviders';
+
+describe('fillShellTemplate', () => {
+    it('replaces known tokens with quoted environment variable references', () => {
+        const vars = { FeatureName: 'Cors', SourceBranch: 'agent/cors' };
+        assert.deepStrictEqual(fillShellTemplate('pr --title "[E2E] {featurename} test" --head {SourceBranch} {Other}', vars, 'linux'), {
+            command: 'pr --title "[E2E] "$AGENT_LOOP_FEATURE_NAME" test" --head "$AGENT_LOOP_SOURCE_BRANCH" {Other}',
+            env: { AGENT_LOOP_FEATURE_NAME: 'Cors', AGENT_LOOP_SOURCE_BRANCH: 'agent/cors' },
+        });
+        assert.strictEqual(fillShellTemplate('pr {FeatureName}', vars, 'win32').command, 'pr "!AGENT_LOOP_FEATURE_NAME!"');
+    });
+});
+
+describe('CommandPrProvider', () => {
+    it('passes title and description to the command without the shell parsing them', { skip: process.platform === 'win32' }, async () => {
+        const title = `[Low] Cors's "test"`;
+        const description = 'Fixes `id` and $(echo pwned); rm -rf "$HOME" \'x\'\nline two %PATH% ^';
+        const provider = new CommandPrProvider(`printf '%s\\n' {Title} && cat {DescriptionFile} && printf '%s' {Description}`);
+
+        const result = await provider.create({
+            cwd: os.tmpdir(),
+            sourceBranch: 'agent/cors',
+            targetBranch: 'main',
+            title,
+            description,
+            reviewers: [],
+            labels: [],
+            vars: { FeatureName: 'Cors' },
+        });
+
+        assert.strictEqual(result.ok, true, result.error);
+        assert.strictEqual(result.command?.stdout, `${title}\n${description}${description}`);
+    });
+});
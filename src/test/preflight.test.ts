@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { checkAgentFile, checkWritableDir, findExecutable, prBinary, preflightBlocks } from '../preflight';
+
+describe('preflight checks', () => {
+    it('parses the agent file and only requires it for chat', () => {
+        const file = '.github/agents/Planner.agent.md';
+        assert.strictEqual(checkAgentFile('Planner', file, undefined, true).status, 'fail');
+        assert.strictEqual(checkAgentFile('Planner', file, undefined, false).status, 'warn');
+        assert.strictEqual(checkAgentFile('Planner', file, 'Plan the tests.', true).status, 'warn');
+        assert.strictEqual(checkAgentFile('Planner', file, '---\ndescription: x\n---\n', true).status, 'warn');
+
+        const ok = checkAgentFile('Planner', file, '---\ndescription: Plans tests\ntools: [edit, runCommands]\n---\nPlan the tests.\n', true);
+        assert.deepStrictEqual(ok, { name: 'Agent Planner', status: 'pass', detail: `${file} (description, tools)` });
+    });
+
+    it('finds the program a PR provider runs', async () => {
+        assert.strictEqual(prBinary('azureDevOps', ''), 'az');
+        assert.strictEqual(prBinary('github', ''), 'gh');
+        assert.strictEqual(prBinary('command', '"/opt/my tools/pr" --title "{Title}"'), '/opt/my tools/pr');
+        assert.strictEqual(prBinary('command', '  '), undefined);
+        assert.strictEqual(prBinary('fake', 'az repos pr create'), undefined);
+
+        assert.strictEqual(await findExecutable(process.execPath, '/'), process.execPath);
+        const dir = path.dirname(process.execPath);
+        assert.strictEqual(await findExecutable(path.basename(process.execPath), '/', { PATH: dir }), process.execPath);
+        assert.strictEqual(await findExecutable('definitely-not-installed-xyz', '/', { PATH: dir }), undefined);
+    });
+
+    it('checks that the worktree folder can be created', async () => {
+        const base = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-loop-preflight-'));
+        try {
+            assert.strictEqual(await checkWritableDir(path.join(base, 'not', 'there', 'yet')), undefined);
+            const file = path.join(base, 'file');
+            fs.writeFileSync(file, '');
+            assert.match((await checkWritableDir(path.join(file, 'worktrees'))) ?? '', /is not a folder/);
+        } finally {
+            fs.rmSync(base, { recursive: true, force: true });
+        }
+
+        const checks = [{ name: 'Remote', status: 'fail' as const, detail: '' }];
+        assert.strictEqual(preflightBlocks(checks, 'block'), true);
+        assert.strictEqual(preflightBlocks(checks, 'warn'), false);
+    });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_PROGRESS_RULES, parseProgressFile, parseProgressRules, progressRulesFor } from '../progressParser';
+
+const PROGRESS = `RunId: 20260301-101500-abc123
+Item: 001
+
+# CORS progress
+
+## Planning Agent Todo List
+- [x] Phase 1: Code discovery
+- [ ] Phase 4: Browser validation
+
+## Feature Code Analysis *(Phase 1)*
+
+### Feature Capability Inventory
+- [ ] Add an allowed origin
+- [ ] Remove an allowed origin
+- [ ] Enable Access-Control-Allow-Credentials
+- [ ] Reject an invalid origin
+
+## Domain Enrichment
+- **User Workflows**: add origin, save, navigate away, return
+
+## ADO Test Cases
+None found.
+
+## Resource Sufficiency Analysis
+| Resource State Needed | Action |
+|-----------------------|--------|
+| Web app, no origins | Create |
+
+## Validated Steps
+
+### Batch 1 of 2
+
+| # | Capability | Status | Locator |
+|---|------------|--------|---------|
+| 1 | Add an allowed origin | ✅ Validated | \`[data-automation-id="origin"]\` |
+| 2 | Remove an allowed origin | Failed | \`getByRole('button', { name: 'Delete' })\` |
+
+### Batch 2 of 2
+
+| Field | Value |
+|-------|-------|
+| **Status** | Discrepancy |
+| Step | Enable credentials |
+
+#### Edge Cases Discovered
+| Case | Result |
+|------|--------|
+| Trailing slash | Accepted |
+`;
+
+describe('progress file parser', () => {
+    it('reads the phase, batch and validated capabilities of the Planning agent', () => {
+        const summary = parseProgressFile(PROGRESS);
+        assert.deepStrictEqual(summary, {
+            phase: 'Browser Validation',
+            phaseIndex: 4,
+            phaseCount: 6,
+            batch: 2,
+            batchCount: 2,
+            capabilities: 4,
+            steps: 3,
+            validated: 1,
+            failed: 2,
+            percent: Math.round((100 * (4 + 3 / 4)) / 6),
+        });
+
+        const finished = parseProgressFile(`${PROGRESS}\n## Test Coverage Analysis\n3/4 capabilities = 75% [YELLOW]\n`);
+        assert.strictEqual(finished.phase, 'Finalization');
+        assert.strictEqual(finished.percent, Math.round((100 * 5) / 6));
+
+        const early = parseProgressFile('# CORS progress\n\n```md\n## Validated Steps\n```\n');
+        assert.strictEqual(early.phase, undefined);
+        assert.strictEqual(early.percent, 0);
+    });
+
+    it('uses per-agent rules and reports invalid ones', () => {
+        const { rules, errors } = parseProgressRules({
+            ApiTestPlanner: {
+                phases: [
+                    { name: 'Discovery', heading: '^Endpoints' },
+                    { name: 'Test Design', heading: '^Test Cases' },
+                ],
+                inventoryHeading: '^Endpoints',
+                stepsHeading: '^Test Cases',
+                stepsPhase: 'Test Design',
+                statusColumn: 'Result',
+                batchHeading: '',
+            },
+            Broken: { stepsHeading: '^(Validated' },
+            Typo: { phases: ['Discovery'] },
+        });
+        assert.deepStrictEqual(Object.keys(rules), ['ApiTestPlanner']);
+        assert.deepStrictEqual(errors, [
+            'progressRules["Broken"]: "^(Validated" is not a valid regular expression.',
+            'progressRules["Typo"]: phases must be a list of { "name", "heading" }.',
+        ]);
+
+        const api = progressRulesFor(rules, 'ApiTestPlanner');
+        assert.strictEqual(api.validatedStatus, DEFAULT_PROGRESS_RULES.validatedStatus);
+        assert.strictEqual(progressRulesFor(rules, 'PlaywrightLoopPlanning'), DEFAULT_PROGRESS_RULES);
+
+        const summary = parseProgressFile(
+            '## Endpoints\n- [x] GET /sites\n- [x] PUT /sites\n\n## Test Cases\n| Endpoint | Result |\n|---|---|\n| GET /sites | pass |\n',
+            api
+        );
+        assert.deepStrictEqual(
+            [summary.phase, summary.capabilities, summary.validated, summary.percent],
+            ['Test Design', 2, 1, Math.round((100 * (1 + 1 / 2)) / 2)]
+        );
+    });
+});
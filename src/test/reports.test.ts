@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ReportJob, buildRunReport, renderReport } from '../reports';
+
+const STARTED_AT = Date.UTC(2026, 2, 1, 10, 15);
+
+const JOBS: ReportJob[] = [
+    {
+        indexLabel: '1',
+        url: 'https://a.example/?a=1&b=2',
+        status: 'Done',
+        featureName: 'Cors',
+        attemptsUsed: 1,
+        maxLoops: 3,
+        finalStatus: 'PASS',
+        specFile: 'tests/cors.spec.ts',
+        firstStartedAt: STARTED_AT,
+        finishedAt: STARTED_AT + 90_000,
+    },
+    {
+        indexLabel: '2',
+        url: 'https://b.example',
+        status: 'NeedsAttention',
+        featureName: 'Quotes "<&>"',
+        attemptsUsed: 3,
+        maxLoops: 3,
+        finalStatus: 'FAIL',
+        reason: "Expected 'Save' <button> & got none\u0007",
+    },
+    { indexLabel: '3', url: 'https://c.example/a|b', status: 'Running', attemptsUsed: 0, maxLoops: 3 },
+    { indexLabel: '4', url: 'https://d.example', status: 'Flaky', featureName: 'Retry', attemptsUsed: 2, maxLoops: 3, finalStatus: 'PASS' },
+];
+
+describe('buildRunReport', () => {
+    it('classifies jobs and totals them', () => {
+        const report = buildRunReport('run-1', 0, JOBS);
+        assert.strictEqual(report.startedAt, undefined);
+        assert.deepStrictEqual(report.totals, { jobs: 4, pass: 2, fail: 1, unfinished: 1 });
+        assert.deepStrictEqual(
+            report.jobs.map(j => [j.result, j.durationMs]),
+            [
+                ['PASS', 90_000],
+                ['FAIL', undefined],
+                ['UNFINISHED', undefined],
+                ['PASS', undefined],
+            ]
+        );
+
+        const flakyFail = buildRunReport('run-1', 0, [{ ...JOBS[3], finalStatus: 'FAIL' }]);
+        assert.strictEqual(flakyFail.jobs[0].result, 'FAIL');
+    });
+});
+
+describe('renderReport', () => {
+    const report = buildRunReport('20260301-101500 & <nightly>', STARTED_AT, JOBS);
+
+    it('renders JUnit XML with every attribute and text node escaped', () => {
+        const xml = renderReport(report, 'junit');
+        const lines = xml.split('\n');
+
+        assert.strictEqual(lines[0], '<?xml version="1.0" encoding="UTF-8"?>');
+        assert.strictEqual(lines[1], '<testsuites name="Agent Loop Runner" tests="4" failures="1" skipped="1" time="90.000">');
+        assert.strictEqual(
+            lines[2],
+            '  <testsuite name="20260301-101500 &amp; &lt;nightly&gt;" tests="4" failures="1" skipped="1" time="90.000" timestamp="2026-03-01T10:15:00.000Z">'
+        );
+        assert.ok(lines.includes('    <testcase classname="AgentLoopRunner.20260301-101500 &amp; &lt;nightly&gt;" name="2 Quotes &quot;&lt;&amp;&gt;&quot;" time="0.000">'));
+        assert.ok(
+            lines.includes(
+                '      <failure message="Expected &apos;Save&apos; &lt;button&gt; &amp; got none" type="AgentFailure">Expected &apos;Save&apos; &lt;button&gt; &amp; got none</failure>'
+            )
+        );
+        assert.ok(lines.includes('      <skipped message="Job Running"/>'));
+        assert.ok(xml.includes('<system-out>URL: https://a.example/?a=1&amp;b=2\nAttempts: 1/3\nSpecPath: tests/cors.spec.ts</system-out>'));
+
+        // No raw markup characters or control characters leak out of the escaped values
+        assert.doesNotMatch(xml, /&(?!(amp|lt|gt|quot|apos);)/);
+        assert.doesNotMatch(xml, /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+        assert.strictEqual((xml.match(/<testcase /g) ?? []).length, 4);
+        assert.strictEqual((xml.match(/<\/testcase>/g) ?? []).length, 4);
+    });
+
+    it('renders a Markdown table with a failures section', () => {
+        const md = renderReport(report, 'markdown');
+        const lines = md.split('\n');
+
+        assert.ok(lines.includes('**2 passed, 1 failed, 1 unfinished** (4 total)'));
+        assert.ok(lines.includes('| 1 | https://a.example/?a=1&b=2 | Cors | PASS | 1/3 | 1m 30s | tests/cors.spec.ts |  |'));
+        assert.ok(lines.includes('| 3 | https://c.example/a\\|b |  | UNFINISHED | 0/3 |  |  |  |'));
+        assert.ok(lines.includes('### 2 — Quotes "<&>"'));
+        assert.ok(lines.includes("- **Reason**: Expected 'Save' <button> & got none\u0007"));
+        assert.ok(md.endsWith('\n') && !md.endsWith('\n\n'));
+    });
+
+    it('renders JSON that round-trips', () => {
+        assert.deepStrictEqual(JSON.parse(renderReport(report, 'json')), JSON.parse(JSON.stringify(report)));
+    });
+});
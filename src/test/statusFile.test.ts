@@ -0,0 +1,170 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseStatusFile } from '../statusFile';
+
+describe('parseStatusFile', () => {
+    it('reads the v1 line format', () => {
+        const pass = parseStatusFile(
+            [
+                'AGENT_STATUS: PASS',
+                'FeatureName: Cors',
+                'Timestamp: 2026-03-01T10:15:00Z',
+                'Summary: Validated 4 capabilities',
+                'SpecPath: tests/cors.spec.ts',
+            ].join('\n')
+        );
+        assert.deepStrictEqual(pass, {
+            version: 1,
+            agentStatus: 'PASS',
+            featureName: 'Cors',
+            timestamp: '2026-03-01T10:15:00Z',
+            summary: 'Validated 4 capabilities',
+            specPath: 'tests/cors.spec.ts',
+            validationErrors: [],
+        });
+
+        const fail = parseStatusFile('agent_status: fail\r\nreason: Login page never loaded\r\n');
+        assert.strictEqual(fail.agentStatus, 'FAIL');
+        assert.strictEqual(fail.reason, 'Login page never loaded');
+        assert.deepStrictEqual(fail.validationErrors, []);
+    });
+
+    it('keeps the v1 line format when the file quotes JSON in a fence', () => {
+        const parsed = parseStatusFile(
+            [
+                'AGENT_STATUS: PASS',
+                'FeatureName: Cors',
+                'Summary: Playwright reported:',
+                '',
+                '```json',
+                '{ "passed": 4, "failed": 0 }',
+                '```',
+            ].join('\n')
+        );
+        assert.strictEqual(parsed.version, 1);
+        assert.strictEqual(parsed.agentStatus, 'PASS');
+        assert.strictEqual(parsed.featureName, 'Cors');
+        assert.deepStrictEqual(parsed.validationErrors, []);
+    });
+
+    it('reports an unknown or missing v1 status', () => {
+        const unknown = parseStatusFile('AGENT_STATUS: DONE\nFeatureName: Cors');
+        assert.strictEqual(unknown.agentStatus, undefined);
+        assert.deepStrictEqual(unknown.validationErrors, ['AGENT_STATUS must be PASS or FAIL, got "DONE".']);
+
+        const missing = parseStatusFile('FeatureName: Cors\nSummary: still working');
+        assert.strictEqual(missing.version, 1);
+        assert.deepStrictEqual(missing.validationErrors, ['No AGENT_STATUS line found.']);
+
+        assert.deepStrictEqual(parseStatusFile('  \n').validationErrors, []);
+    });
+
+    it('reads v2 front matter with the body as details', () => {
+        const parsed = parseStatusFile(
+            [
+                '---',
+                'version: 2',
+                'status: pass',
+                'featureName: Cors',
+                'phase: Finalization',
+                'duration: 12m30s',
+                'tests:',
+                '  total: 5',
+                '  passed: 4',
+                '  skipped: 1',
+                'artifacts: [tests/cors.spec.ts, playwright-report/index.html]',
+                'warnings:',
+                '  - Reused an existing origin',
+                '---',
+                '',
+                '## Notes',
+                'Credentials toggle needs an admin account.',
+                '',
+            ].join('\n')
+        );
+        assert.deepStrictEqual(parsed, {
+            version: 2,
+            agentStatus: 'PASS',
+            featureName: 'Cors',
+            timestamp: undefined,
+            summary: undefined,
+            specPath: undefined,
+            reason: undefined,
+            statusDetails: {
+                phase: 'Finalization',
+                durationMs: 750_000,
+                tests: { total: 5, passed: 4, skipped: 1 },
+                artifacts: ['tests/cors.spec.ts', 'playwright-report/index.html'],
+                warnings: ['Reused an existing origin'],
+                details: '## Notes\nCredentials toggle needs an admin account.',
+            },
+            validationErrors: [],
+        });
+    });
+
+    it('keeps # inside quoted front matter values', () => {
+        const parsed = parseStatusFile('---\nversion: 2\nstatus: PASS\nsummary: "Fixed #42"\nwarnings: ["Issue #7 still open"]\n---\n');
+        assert.strictEqual(parsed.summary, 'Fixed #42');
+        assert.deepStrictEqual(parsed.statusDetails?.warnings, ['Issue #7 still open']);
+        assert.deepStrictEqual(parsed.validationErrors, []);
+    });
+
+    it('reads a fenced JSON block', () => {
+        const parsed = parseStatusFile(
+            [
+                '# Status',
+                '',
+                '```json',
+                '{ "version": 2, "status": "FAIL", "reason": "Spec failed twice", "durationMs": 4200, "details": "See trace.zip" }',
+                '```',
+            ].join('\n')
+        );
+        assert.strictEqual(parsed.version, 2);
+        assert.strictEqual(parsed.agentStatus, 'FAIL');
+        assert.strictEqual(parsed.reason, 'Spec failed twice');
+        assert.strictEqual(parsed.statusDetails?.durationMs, 4200);
+        assert.strictEqual(parsed.statusDetails?.details, 'See trace.zip');
+        assert.deepStrictEqual(parsed.validationErrors, []);
+    });
+
+    it('rejects JSON that is not a status object', () => {
+        const invalid = parseStatusFile('{ "version": 2, "status": ');
+        assert.strictEqual(invalid.agentStatus, undefined);
+        assert.strictEqual(invalid.validationErrors.length, 1);
+        assert.match(invalid.validationErrors[0], /^Status JSON is not valid: /);
+
+        const list = parseStatusFile('```json\n["PASS"]\n```');
+        assert.deepStrictEqual(list.validationErrors, ['Status JSON must be an object.']);
+    });
+
+    it('lists v2 schema errors but keeps a usable status', () => {
+        const parsed = parseStatusFile(
+            JSON.stringify({
+                status: 'PASS',
+                durationMs: -1,
+                tests: { total: 2, passed: 2, failed: 1, skipped: 'x' },
+                artifacts: 'report.html',
+            })
+        );
+        assert.strictEqual(parsed.agentStatus, 'PASS');
+        assert.deepStrictEqual(parsed.validationErrors, [
+            'Missing "version" (expected 2).',
+            '"durationMs" must be a non-negative number.',
+            '"tests.skipped" must be a non-negative integer.',
+            '"tests" counts add up to 3, more than total 2.',
+            '"artifacts" must be a list of strings.',
+        ]);
+    });
+
+    it('reports a missing or unknown v2 status and an unsupported version', () => {
+        const missing = parseStatusFile('---\nversion: 2\nsummary: halfway\n---\n');
+        assert.strictEqual(missing.agentStatus, undefined);
+        assert.deepStrictEqual(missing.validationErrors, ['Missing "status" (PASS or FAIL).']);
+
+        const unknown = parseStatusFile('{ "version": 2, "status": "skipped" }');
+        assert.deepStrictEqual(unknown.validationErrors, ['"status" must be PASS or FAIL, got "skipped".']);
+
+        const future = parseStatusFile('{ "version": 3, "status": "PASS" }');
+        assert.deepStrictEqual(future, { version: 2, validationErrors: ['Unsupported status version "3" (expected 2).'] });
+    });
+});
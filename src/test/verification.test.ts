@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parsePlaywrightJson } from '../verification';
+
+describe('parsePlaywrightJson', () => {
+    it('flattens nested describe blocks and projects into per-test results', () => {
+        const report = {
+            suites: [
+                {
+                    title: 'Cors/Cors.spec.ts',
+                    file: 'Cors/Cors.spec.ts',
+                    specs: [],
+                    suites: [
+                        {
+                            title: 'CORS blade',
+                            file: 'Cors/Cors.spec.ts',
+                            specs: [
+                                {
+                                    title: 'adds an origin',
+                                    tests: [
+                                        { projectName: 'chromium', status: 'expected', results: [{ status: 'passed', duration: 120 }] },
+                                        {
+                                            projectName: 'firefox',
+                                            status: 'unexpected',
+                                            results: [{ status: 'failed', duration: 80, error: { message: '\u001b[31mError: expect(locator).toBeVisible()\u001b[39m\n\nCall log:' } }],
+                                        },
+                                    ],
+                                },
+                                {
+                                    title: 'removes an origin',
+                                    tests: [
+                                        {
+                                            projectName: 'chromium',
+                                            status: 'flaky',
+                                            results: [
+                                                { status: 'failed', duration: 50 },
+                                                { status: 'passed', duration: 40 },
+                                            ],
+                                        },
+                                    ],
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+            errors: [],
+        };
+
+        const parsed = parsePlaywrightJson(`Running 3 tests using 1 worker\n${JSON.stringify(report)}\n`);
+        assert.deepStrictEqual(parsed, {
+            tests: [
+                { title: 'CORS blade › adds an origin', file: 'Cors/Cors.spec.ts', project: 'chromium', outcome: 'passed', durationMs: 120, error: undefined },
+                {
+                    title: 'CORS blade › adds an origin',
+                    file: 'Cors/Cors.spec.ts',
+                    project: 'firefox',
+                    outcome: 'failed',
+                    durationMs: 80,
+                    error: 'Error: expect(locator).toBeVisible()',
+                },
+                { title: 'CORS blade › removes an origin', file: 'Cors/Cors.spec.ts', project: 'chromium', outcome: 'flaky', durationMs: 90, error: undefined },
+            ],
+            errors: [],
+        });
+    });
+
+    it('keeps report-level errors such as a spec that does not compile', () => {
+        const parsed = parsePlaywrightJson(JSON.stringify({ suites: [], errors: [{ message: 'SyntaxError: Unexpected token (3:1)\n  1 | test(' }] }));
+        assert.deepStrictEqual(parsed, { tests: [], errors: ['SyntaxError: Unexpected token (3:1)'] });
+    });
+
+    it('returns undefined for output that is not a Playwright report', () => {
+        assert.strictEqual(parsePlaywrightJson('1 passing (3s)'), undefined);
+        assert.strictEqual(parsePlaywrightJson('{"ok": true}'), undefined);
+    });
+});
@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describeFailure, runCommand } from './gitService';
+import { fillTemplate } from './prProviders';
+
+export type TestOutcome = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+/** One test (spec × project) from the verification run. */
+export interface VerifiedTest {
+    title: string; // describe blocks and test title, joined with " › "
+    file?: string;
+    project?: string;
+    outcome: TestOutcome;
+    durationMs?: number;
+    error?: string; // first line of the failure message
+}
+
+/** Outcome of running the test command against a job's spec after PASS. */
+export interface VerificationResult {
+    passed: boolean;
+    command: string;
+    exitCode: number | null;
+    tests: VerifiedTest[];
+    failing: string[]; // titles of failed tests, for the retry prompt
+    errors: string[]; // report-level errors, e.g. a spec that doesn't compile
+    message: string; // one-line summary for the job row
+    logPath?: string;
+    cancelled?: boolean;
+    at: number;
+}
+
+export interface VerificationRequest {
+    // Shell command line with {SpecPath}, {FeatureName}, {RunId}, {Item},
+    // {Worktree} placeholders
+    command: string;
+    vars: Record<string, string>;
+    cwd: string;
+    timeoutMs: number;
+    logPath: string; // command line, stdout and stderr of the run
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs the verification command and reads Playwright's JSON reporter output
+ * from stdout. A command that doesn't print a Playwright report is judged on
+ * its exit code alone, so any test runner can be plugged in.
+ */
+export async function runVerification(req: VerificationRequest): Promise<VerificationResult> {
+    const command = fillTemplate(req.command, req.vars);
+    await fs.promises.mkdir(path.dirname(req.logPath), { recursive: true });
+
+    const result = await runCommand(command, [], req.cwd, { shell: true, timeoutMs: req.timeoutMs, signal: req.signal });
+    const log = [
+        `# ${new Date().toISOString()} ${command}`,
+        `# cwd: ${req.cwd}`,
+        result.stdout.trimEnd(),
+        result.stderr ? `# stderr\n${result.stderr.trimEnd()}` : '',
+        `# exit ${result.exitCode ?? '-'}`,
+    ];
+    await fs.promises.writeFile(req.logPath, log.filter(Boolean).join('\n') + '\n', 'utf8');
+
+    const base = { command, exitCode: result.exitCode, logPath: req.logPath, at: Date.now() };
+    if (result.cancelled) {
+        return { ...base, passed: false, tests: [], failing: [], errors: [], message: 'Verification cancelled.', cancelled: true };
+    }
+    if (result.timedOut) {
+        return { ...base, passed: false, tests: [], failing: [], errors: [], message: `Verification timed out after ${Math.round(req.timeoutMs / 1000)}s.` };
+    }
+
+    const report = parsePlaywrightJson(result.stdout);
+    if (!report) {
+        return {
+            ...base,
+            passed: result.ok,
+            tests: [],
+            failing: [],
+            errors: [],
+            message: result.ok ? 'Verification command passed.' : `Verification command failed: ${describeFailure(result)}`,
+        };
+    }
+
+    const { tests, errors } = report;
+    const failing = tests.filter(t => t.outcome === 'failed').map(t => t.title);
+    const ran = tests.filter(t => t.outcome !== 'skipped').length;
+
+    let message: string;
+    if (errors.length) message = `Verification error: ${errors[0]}`;
+    else if (failing.length) message = `${failing.length} of ${ran} test(s) failed: ${failing.join('; ')}`;
+    else if (!ran) message = tests.length ? `No tests ran (${tests.length} skipped).` : 'No tests ran.';
+    else if (!result.ok) message = `Verification command failed: ${describeFailure(result)}`;
+    else message = `${ran}/${ran} test(s) passed${tests.some(t => t.outcome === 'flaky') ? ' (some only on retry)' : ''}.`;
+
+    return {
+        ...base,
+        passed: result.ok && !errors.length && !failing.length && ran > 0,
+        tests,
+        failing,
+        errors,
+        message,
+    };
+}
+
+/** One test's record over the stability runs. */
+export interface TestStability {
+    title: string;
+    passed: number; // runs where it passed in every project, without Playwright retries
+    runs: number;
+    ratio: number; // passed / runs
+}
+
+/** Outcome of rerunning a passing spec to catch flaky tests. */
+export interface StabilityResult {
+    stable: boolean;
+    runs: number;
+    threshold: number;
+    tests: TestStability[];
+    unstable: string[]; // tests whose pass ratio is below the threshold
+    message: string;
+    logPaths: string[];
+    cancelled?: boolean;
+    at: number;
+}
+
+/**
+ * Runs the verification command `runs` times and records how often each test
+ * passed. A test passes a run only with outcome "passed": one that needed
+ * Playwright's own retries ("flaky") is exactly what this is meant to catch.
+ * A run without a result for a test (crash, timeout, compile error) counts
+ * as a failed run for it.
+ */
+export async function runStabilityCheck(req: VerificationRequest, runs: number, threshold: number): Promise<StabilityResult> {
+    const passes = new Map<string, number>();
+    const logPaths: string[] = [];
+    const ext = path.extname(req.logPath);
+    const stem = req.logPath.slice(0, req.logPath.length - ext.length);
+
+    for (let i = 1; i <= runs; i++) {
+        const logPath = `${stem}-run${i}${ext}`;
+        const result = await runVerification({ ...req, logPath });
+        logPaths.push(logPath);
+        if (result.cancelled) {
+            return { stable: false, runs: i - 1, threshold, tests: [], unstable: [], message: 'Stability check cancelled.', logPaths, cancelled: true, at: Date.now() };
+        }
+
+        const passedThisRun = new Map<string, boolean>();
+        for (const t of result.tests) {
+            if (t.outcome === 'skipped') continue;
+            passedThisRun.set(t.title, (passedThisRun.get(t.title) ?? true) && t.outcome === 'passed');
+        }
+        for (const [title, passed] of passedThisRun) passes.set(title, (passes.get(title) ?? 0) + (passed ? 1 : 0));
+    }
+
+    const tests = [...passes].map(([title, passed]) => ({ title, passed, runs, ratio: passed / runs }));
+    const below = tests.filter(t => t.ratio < threshold);
+    const message = !tests.length
+        ? `No test results in ${runs} run(s).`
+        : below.length
+          ? `${below.length} unstable test(s) over ${runs} runs: ${below.map(t => `${t.title} (${t.passed}/${runs})`).join('; ')}`
+          : `Stable: ${tests.length} test(s) passed ${runs === 1 ? 'the run' : `all ${runs} runs`}.`;
+
+    // Without any results there is nothing to call stable
+    return {
+        stable: tests.length > 0 && !below.length,
+        runs,
+        threshold,
+        tests,
+        unstable: below.map(t => t.title),
+        message,
+        logPaths,
+        at: Date.now(),
+    };
+}
+
+/**
+ * Flattens a Playwright JSON report (`--reporter=json`) into per-test results.
+ * Returns undefined when the text isn't such a report. Leading log lines
+ * before the JSON object are tolerated.
+ */
+export function parsePlaywrightJson(text: string): { tests: VerifiedTest[]; errors: string[] } | undefined {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end < start) return undefined;
+
+    let data: any;
+    try {
+        data = JSON.parse(text.slice(start, end + 1));
+    } catch {
+        return undefined;
+    }
+    if (!data || typeof data !== 'object' || !Array.isArray(data.suites)) return undefined;
+
+    const tests: VerifiedTest[] = [];
+    const walk = (suite: any, titles: string[]) => {
+        // File-level suites are titled with the file name; leave them out of test titles
+        const own = suite.title && suite.title !== suite.file ? [...titles, String(suite.title)] : titles;
+        for (const spec of asArray(suite.specs)) {
+            for (const test of asArray(spec.tests)) {
+                const results = asArray(test.results);
+                const last = results[results.length - 1];
+                tests.push({
+                    title: [...own, String(spec.title ?? '')].filter(Boolean).join(' › '),
+                    file: spec.file ?? suite.file,
+                    project: test.projectName || undefined,
+                    outcome: outcomeOf(test.status),
+                    durationMs: results.reduce((sum: number, r: any) => sum + (Number(r?.duration) || 0), 0) || undefined,
+                    error: firstLine(last?.error?.message),
+                });
+            }
+        }
+        for (const child of asArray(suite.suites)) walk(child, own);
+    };
+    for (const suite of data.suites) walk(suite, []);
+
+    const errors = asArray(data.errors)
+        .map((e: any) => firstLine(typeof e === 'string' ? e : e?.message))
+        .filter((e): e is string => !!e);
+    return { tests, errors };
+}
+
+/** Playwright's per-test status: expected / unexpected / flaky / skipped. */
+function outcomeOf(status: unknown): TestOutcome {
+    switch (status) {
+        case 'expected':
+            return 'passed';
+        case 'flaky':
+            return 'flaky';
+        case 'skipped':
+            return 'skipped';
+        default:
+            return 'failed';
+    }
+}
+
+function asArray(v: unknown): any[] {
+    return Array.isArray(v) ? v : [];
+}
+
+function firstLine(message: unknown): string | undefined {
+    if (typeof message !== 'string') return undefined;
+    return message.replace(/\u001b\[[0-9;]*m/g, '').split(/\r?\n/).map(l => l.trim()).find(Boolean);
+}
+
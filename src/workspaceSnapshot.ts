@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** One entry of `git status --porcelain -z`. */
+export interface StatusEntry {
+    code: string; // XY, e.g. "??", " M", "A "
+    path: string; // repo-relative, forward slashes
+}
+
+/**
+ * The dirty files of the main workspace when a job started, with a content
+ * fingerprint each. Stored on the job, so it survives a resume.
+ */
+export interface WorkspaceSnapshot {
+    takenAt: number;
+    files: Record<string, string>; // path → fingerprint ("" for a deleted file)
+}
+
+/** What the commit step did with the files a job left in the workspace. */
+export interface JobFileManifest {
+    copied: string[]; // produced by the job inside commitGlob: copied to the worktree, committed, then cleaned
+    leftInWorkspace: string[]; // produced by the job outside commitGlob: not touched
+    refused: string[]; // already dirty before the job and changed since: not touched
+    snapshot: boolean; // false when the job had no snapshot and every dirty file counted
+}
+
+/**
+ * What happens to the changes of a job that ends without a commit (FAIL,
+ * cancelled, timed out, flaky): restore the workspace, leave them, or save
+ * them to a patch file or a local branch and then restore.
+ */
+export type CleanupPolicy = 'rollback' | 'keep' | 'patch' | 'branch';
+
+/** What the cleanup did with a job's uncommitted changes. */
+export interface JobCleanup {
+    policy: CleanupPolicy;
+    files: string[]; // the job's change set
+    rolledBack: boolean;
+    patchPath?: string;
+    branch?: string;
+    error?: string; // stashing failed: the files were kept
+    at: number;
+}
+
+/** Runner state and agent definitions are never part of a job's output. */
+const IGNORED_PREFIXES = ['.agent-loop-runner/', '.agent-loop/', '.github/agents/'];
+
+/**
+ * Parses `git status --porcelain -z`. Renames and copies carry the old path
+ * as an extra NUL-separated field, which is skipped.
+ */
+export function parsePorcelainZ(stdout: string): StatusEntry[] {
+    const fields = stdout.split('\0');
+    const entries: StatusEntry[] = [];
+    for (let i = 0; i < fields.length; i++) {
+        const field = fields[i];
+        if (field.length < 4) continue;
+        const code = field.slice(0, 2);
+        entries.push({ code, path: field.slice(3) });
+        if (code.includes('R') || code.includes('C')) i++;
+    }
+    return entries.filter(e => !IGNORED_PREFIXES.some(p => e.path.startsWith(p)));
+}
+
+export async function takeSnapshot(root: string, entries: StatusEntry[]): Promise<WorkspaceSnapshot> {
+    const files: Record<string, string> = {};
+    for (const e of entries) files[e.path] = await fingerprint(path.join(root, e.path));
+    return { takenAt: Date.now(), files };
+}
+
+/**
+ * Splits the workspace's dirty files after a job into what the job produced
+ * (clean before, dirty now) and what was already dirty. `inCommitGlob`
+ * tells which produced paths may be committed. Without a snapshot every
+ * dirty file counts as produced, as before snapshots existed.
+ */
+export async function buildFileManifest(
+    root: string,
+    snapshot: WorkspaceSnapshot | undefined,
+    entries: StatusEntry[],
+    inCommitGlob: Set<string>
+): Promise<JobFileManifest> {
+    const manifest: JobFileManifest = { copied: [], leftInWorkspace: [], refused: [], snapshot: !!snapshot };
+
+    for (const e of entries) {
+        const before = snapshot?.files[e.path];
+        if (before !== undefined) {
+            if ((await fingerprint(path.join(root, e.path))) !== before) manifest.refused.push(e.path);
+            continue;
+        }
+        // Deleting files is never part of a job's output
+        if (!fs.existsSync(path.join(root, e.path))) continue;
+        (inCommitGlob.has(e.path) ? manifest.copied : manifest.leftInWorkspace).push(e.path);
+    }
+    return manifest;
+}
+
+/**
+ * The job's change set: entries that are dirty now but were clean in its
+ * snapshot. Unlike buildFileManifest this keeps deleted files, so a rollback
+ * can restore them.
+ */
+export function changedSince(snapshot: WorkspaceSnapshot, entries: StatusEntry[]): StatusEntry[] {
+    return entries.filter(e => snapshot.files[e.path] === undefined);
+}
+
+async function fingerprint(file: string): Promise<string> {
+    try {
+        const data = await fs.promises.readFile(file);
+        return crypto.createHash('sha1').update(data).digest('hex');
+    } catch {
+        return '';
+    }
+}